@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS } from "@/lib/accounting/formats";
+import type {
+  ExportBatchSummary,
+  ExportCandidate,
+  ExportFormat,
+  ExportOverview,
+} from "@/lib/accounting/types";
+import { createFormatter } from "@/lib/i18n/format";
+import { STATUS_LABELS } from "@/lib/quotes/status";
+
+function total(q: ExportCandidate): string {
+  return createFormatter({ currency: q.currency ?? undefined }).money(q.total);
+}
+
+export default function AccountingExport() {
+  const [overview, setOverview] = useState<ExportOverview | null>(null);
+  const [version, setVersion] = useState(0);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [showExported, setShowExported] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/accounting/exports")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load exports.");
+        return res.json() as Promise<ExportOverview>;
+      })
+      .then(setOverview)
+      .catch((err) => {
+        console.error(err);
+        setError("Could not load exports. Only managers can export.");
+      });
+  }, [version]);
+
+  // Quotes edited since their export are waiting again.
+  const waiting = (q: ExportCandidate) => !q.lastExport || q.lastExport.stale;
+  const quotes = (overview?.quotes ?? []).filter(
+    (q) => showExported || waiting(q)
+  );
+  const pending = overview?.quotes.filter(waiting).length ?? 0;
+  const reexport = selected.some((id) => {
+    const q = overview?.quotes.find((other) => other.id === id);
+    return q && !waiting(q);
+  });
+
+  function toggle(id: string, on: boolean) {
+    setSelected((prev) =>
+      on ? [...prev, id] : prev.filter((other) => other !== id)
+    );
+  }
+
+  // Nothing selected exports every approved quote not exported yet.
+  async function handleExport() {
+    if (
+      reexport &&
+      !window.confirm(
+        "Some of the selected quotes were exported before. Export them again? They may be entered twice in the books."
+      )
+    ) {
+      return;
+    }
+
+    setExporting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/accounting/exports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format,
+          quoteIds: selected.length ? selected : null,
+          reexport,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body?.error || "Could not export.");
+        return;
+      }
+
+      const { batch, skipped } = body as {
+        batch: ExportBatchSummary;
+        skipped: string[];
+      };
+      setMessage(
+        `Exported ${batch.quoteNumbers.length} quote(s) as batch ${
+          batch.batchNumber
+        }.${
+          skipped.length
+            ? ` Skipped ${skipped.join(", ")} – already exported.`
+            : ""
+        }`
+      );
+      setSelected([]);
+      setVersion((v) => v + 1);
+      window.location.href = `/api/accounting/exports/${batch.id}`;
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while exporting.");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-5xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Accounting Export</h1>
+            <p className="text-gray-600 text-sm">
+              Approved quotes as invoices for the books. Each quote is exported
+              once, and again if it is edited and re-approved; past batches can
+              be downloaded again below. GL accounts are set in{" "}
+              <Link href="/settings" className="text-blue-600 underline">
+                Shop Settings
+              </Link>
+              .
+            </p>
+          </div>
+          <Link href="/" className="text-xs text-blue-600 underline">
+            Back to quotes
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="mb-4 text-sm text-green-700 bg-green-50 p-3 rounded-lg">
+            {message}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3 mb-4 text-sm">
+          <label>
+            <span className="block text-gray-600 mb-1">Format</span>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="p-2 border rounded-lg"
+            >
+              {EXPORT_FORMATS.map((f) => (
+                <option key={f} value={f}>
+                  {EXPORT_FORMAT_LABELS[f]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={exporting || (!selected.length && !pending)}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-4 py-2 rounded-lg font-semibold"
+          >
+            {exporting
+              ? "Exporting..."
+              : selected.length
+              ? `Export ${selected.length} selected`
+              : `Export all new (${pending})`}
+          </button>
+          <label className="flex items-center gap-2 pb-2">
+            <input
+              type="checkbox"
+              checked={showExported}
+              onChange={(e) => setShowExported(e.target.checked)}
+            />
+            Show exported quotes
+          </label>
+        </div>
+
+        {!overview ? (
+          !error && (
+            <p className="text-gray-500 text-sm text-center">Loading...</p>
+          )
+        ) : !quotes.length ? (
+          <p className="text-gray-500 text-sm text-center mb-6">
+            No approved quotes waiting to be exported.
+          </p>
+        ) : (
+          <table className="w-full text-sm mb-8">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2" />
+                <th className="py-2 pr-2">Quote #</th>
+                <th className="py-2 pr-2">Approved</th>
+                <th className="py-2 pr-2">Status</th>
+                <th className="py-2 pr-2">Customer</th>
+                <th className="py-2 pr-2">Vehicle</th>
+                <th className="py-2 pr-2 text-right">Total</th>
+                <th className="py-2">Exported</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quotes.map((q) => (
+                <tr key={q.id} className="border-b align-top">
+                  <td className="py-2 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(q.id)}
+                      onChange={(e) => toggle(q.id, e.target.checked)}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <Link
+                      href={`/?quote=${q.id}`}
+                      className="text-blue-600 underline"
+                    >
+                      {q.quoteNumber}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-2">{q.date}</td>
+                  <td className="py-2 pr-2">{STATUS_LABELS[q.status]}</td>
+                  <td className="py-2 pr-2">{q.customerName}</td>
+                  <td className="py-2 pr-2">{q.vehicle}</td>
+                  <td className="py-2 pr-2 text-right">{total(q)}</td>
+                  <td className="py-2 text-gray-500">
+                    {q.lastExport
+                      ? `Batch ${q.lastExport.batchNumber}${
+                          q.lastExport.stale
+                            ? ` (rev ${q.lastExport.revision}; edited since)`
+                            : ""
+                        }`
+                      : "Not yet"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {overview && overview.batches.length > 0 && (
+          <>
+            <h2 className="text-lg font-semibold mb-2">Past exports</h2>
+            <ul className="space-y-1 text-sm">
+              {overview.batches.map((b) => (
+                <li key={b.id}>
+                  <a
+                    href={`/api/accounting/exports/${b.id}`}
+                    className="text-blue-600 underline"
+                  >
+                    {b.filename}
+                  </a>{" "}
+                  <span className="text-gray-500">
+                    · {new Date(b.exportedAt).toLocaleString()}
+                    {b.exportedBy && ` by ${b.exportedBy.name}`} ·{" "}
+                    {b.quoteNumbers.join(", ")}
+                    {b.reexport && " (re-export)"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { exportContentType } from "@/lib/accounting/formats";
+import { getExportBatch } from "@/lib/accounting/repository";
+import { requireUser } from "@/lib/auth/guard";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Downloading a batch again never exports anything new.
+export async function GET(_request: Request, { params }: Params) {
+  const auth = await requireUser("accounting:export");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const batch = await getExportBatch(id);
+  if (!batch) {
+    return NextResponse.json({ error: "Export not found." }, { status: 404 });
+  }
+
+  return new Response(batch.content, {
+    headers: {
+      "Content-Type": exportContentType(batch.format),
+      "Content-Disposition": `attachment; filename="${batch.filename}"`,
+    },
+  });
+}
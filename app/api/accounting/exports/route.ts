@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { exportErrors, parseExportInput } from "@/lib/accounting/input";
+import { exportOverview, exportQuotes } from "@/lib/accounting/repository";
+import { requireUser } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+
+export async function GET() {
+  const auth = await requireUser("accounting:export");
+  if ("response" in auth) return auth.response;
+
+  return NextResponse.json(await exportOverview());
+}
+
+// Creates a batch; the file itself is downloaded from
+// /api/accounting/exports/[id].
+export async function POST(request: Request) {
+  const auth = await requireUser("accounting:export");
+  if ("response" in auth) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const input = parseExportInput(body);
+  if ("error" in input) {
+    return NextResponse.json({ error: input.error }, { status: 400 });
+  }
+  const errors = exportErrors(input);
+  if (errors.length) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  const result = await exportQuotes(input, userRef(auth.user));
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 409 });
+  }
+  return NextResponse.json(result, { status: 201 });
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import {
+  getQuoteByToken,
+  recordCustomerDecision,
+  toPublicQuote,
+} from "@/lib/quotes/repository";
+import { toApiError } from "@/lib/quotes/schema";
+import type { LineDecision } from "@/lib/quotes/types";
+
+// Public, unauthenticated: the token in the link is the only credential, so
+// responses carry the customer-facing view of the quote and nothing else.
+
+type Params = { params: Promise<{ token: string }> };
+
+function notFound() {
+  return NextResponse.json(
+    { error: "This approval link is invalid or has been replaced." },
+    { status: 404 }
+  );
+}
+
+export async function GET(_request: Request, { params }: Params) {
+  const { token } = await params;
+  const quote = await getQuoteByToken(token);
+  return quote ? NextResponse.json(toPublicQuote(quote)) : notFound();
+}
+
+export async function POST(request: Request, { params }: Params) {
+  const { token } = await params;
+  const body = await request.json().catch(() => null);
+
+  const signature =
+    typeof body?.signature === "string" ? body.signature.trim() : "";
+  if (!signature || signature.length > 100) {
+    return NextResponse.json(
+      toApiError([
+        {
+          field: "signature",
+          code: signature ? "OUT_OF_RANGE" : "REQUIRED",
+          message: "Please type your full name to sign.",
+        },
+      ]),
+      { status: 400 }
+    );
+  }
+
+  const decisions: unknown[] = Array.isArray(body?.decisions)
+    ? body.decisions
+    : [];
+  if (!decisions.every((d) => d === "approved" || d === "declined")) {
+    return NextResponse.json(
+      toApiError([
+        {
+          field: "decisions",
+          code: "INVALID_VALUE",
+          message: "Each line must be approved or declined.",
+        },
+      ]),
+      { status: 400 }
+    );
+  }
+
+  const result = await recordCustomerDecision(
+    token,
+    signature,
+    decisions as LineDecision[]
+  );
+  if (!result) return notFound();
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 409 });
+  }
+  return NextResponse.json(toPublicQuote(result.quote));
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { setSessionCookie } from "@/lib/auth/cookie";
+import { createSession } from "@/lib/auth/sessions";
+import { verifyCredentials } from "@/lib/auth/users";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const user =
+    typeof body?.username === "string" && typeof body?.password === "string"
+      ? await verifyCredentials(body.username, body.password)
+      : null;
+  if (!user) {
+    return NextResponse.json(
+      { error: "Wrong username or password." },
+      { status: 401 }
+    );
+  }
+
+  const response = NextResponse.json({ user });
+  setSessionCookie(response, await createSession(user.id));
+  return response;
+}
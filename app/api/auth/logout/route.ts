@@ -0,0 +1,13 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { clearSessionCookie } from "@/lib/auth/cookie";
+import { endSession, SESSION_COOKIE } from "@/lib/auth/sessions";
+
+export async function POST() {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (token) await endSession(token);
+
+  const response = NextResponse.json({ ok: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@/lib/auth/guard";
+import type { SignedOut } from "@/lib/auth/types";
+import { hasUsers } from "@/lib/auth/users";
+
+export async function GET() {
+  const user = await currentUser();
+  if (user) return NextResponse.json({ user });
+
+  const body: SignedOut = {
+    error: "Sign in to continue.",
+    needsSetup: !(await hasUsers()),
+  };
+  return NextResponse.json(body, { status: 401 });
+}
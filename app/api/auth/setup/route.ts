@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { setSessionCookie } from "@/lib/auth/cookie";
+import { parseUserInput, userErrors } from "@/lib/auth/input";
+import { createSession } from "@/lib/auth/sessions";
+import { createUser } from "@/lib/auth/users";
+
+// First run: create the shop's first manager and sign them in. Closed as
+// soon as any account exists.
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const input = { ...parseUserInput(body), role: "manager" as const };
+  const errors = userErrors(input, true);
+  if (errors.length) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  const result = await createUser({ ...input, active: true }, true);
+  if ("error" in result) {
+    return NextResponse.json(result, { status: 409 });
+  }
+
+  const response = NextResponse.json(result, { status: 201 });
+  setSessionCookie(response, await createSession(result.user.id));
+  return response;
+}
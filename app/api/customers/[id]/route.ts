@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { customerErrors, parseCustomerInput } from "@/lib/customers/input";
+import {
+  deleteCustomer,
+  getCustomer,
+  updateCustomer,
+} from "@/lib/customers/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Customer not found." }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: Params) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const customer = await getCustomer(id);
+  return customer ? NextResponse.json(customer) : notFound();
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await requireUser("customers:write");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const input = parseCustomerInput(body);
+  const errors = customerErrors(input);
+  if (errors.length) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  const customer = await updateCustomer(id, input);
+  return customer ? NextResponse.json(customer) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const auth = await requireUser("customers:write");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const deleted = await deleteCustomer(id);
+  return deleted ? NextResponse.json({ ok: true }) : notFound();
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { customerErrors, parseCustomerInput } from "@/lib/customers/input";
+import {
+  createCustomer,
+  searchCustomers,
+  toCustomerSummary,
+} from "@/lib/customers/repository";
+
+export async function GET(request: Request) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const customers = await searchCustomers(searchParams.get("q") ?? "");
+  return NextResponse.json({ customers: customers.map(toCustomerSummary) });
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser("customers:write");
+  if ("response" in auth) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const input = parseCustomerInput(body);
+  const errors = customerErrors(input);
+  if (errors.length) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  const customer = await createCustomer(input);
+  return NextResponse.json(customer, { status: 201 });
+}
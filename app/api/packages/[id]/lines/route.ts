@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { loadCatalog, vehicleKeyFor } from "@/lib/catalog/operations";
+import {
+  getPackage,
+  packageLines,
+  toPackageSummary,
+} from "@/lib/packages/repository";
+import type {
+  PackageLinesRequest,
+  PackageLinesResponse,
+} from "@/lib/packages/types";
+import { resolveTerms } from "@/lib/quotes/estimate";
+import { toApiError, validateEstimateTerms } from "@/lib/quotes/schema";
+
+type Params = { params: Promise<{ id: string }> };
+
+// The package's lines priced for the quote's vehicle and labor terms, ready
+// to append to the editor.
+export async function POST(request: Request, { params }: Params) {
+  const auth = await requireUser("quotes:write");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const errors = validateEstimateTerms(body);
+  if (errors.length) {
+    return NextResponse.json(toApiError(errors), { status: 400 });
+  }
+
+  const pkg = await getPackage(id);
+  if (!pkg) {
+    return NextResponse.json({ error: "Package not found." }, { status: 404 });
+  }
+
+  const { vehicle } = body as PackageLinesRequest;
+  const key = vehicleKeyFor(await loadCatalog(), {
+    make: vehicle?.make ?? null,
+    model: vehicle?.model ?? null,
+    engine: vehicle?.engine ?? null,
+    modelYear: vehicle?.modelYear ?? null,
+  });
+  const repairs = await packageLines(pkg, key, await resolveTerms(body));
+
+  return NextResponse.json({
+    package: await toPackageSummary(pkg),
+    repairs,
+  } satisfies PackageLinesResponse);
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { deletePackage, getPackage } from "@/lib/packages/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Package not found." }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: Params) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const pkg = await getPackage(id);
+  return pkg ? NextResponse.json(pkg) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const auth = await requireUser("packages:write");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const result = await deletePackage(id);
+  if (!result) return notFound();
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 409 });
+  }
+  return NextResponse.json(result);
+}
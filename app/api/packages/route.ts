@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { can } from "@/lib/auth/roles";
+import { loadCatalog, vehicleKeyFor } from "@/lib/catalog/operations";
+import { packageErrors, parsePackageInput } from "@/lib/packages/input";
+import {
+  createPackage,
+  listPackages,
+  packagesForVehicle,
+  toPackageSummary,
+} from "@/lib/packages/repository";
+
+// ?make=&model=&engine=&year= narrows the list to packages for that vehicle.
+export async function GET(request: Request) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const vehicle = {
+    make: searchParams.get("make") || null,
+    model: searchParams.get("model") || null,
+    engine: searchParams.get("engine") || null,
+    modelYear: Number(searchParams.get("year")) || null,
+  };
+
+  const packages = Object.values(vehicle).some(Boolean)
+    ? await packagesForVehicle(vehicleKeyFor(await loadCatalog(), vehicle))
+    : await listPackages();
+  return NextResponse.json({
+    packages: await Promise.all(packages.map(toPackageSummary)),
+  });
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser("packages:write");
+  if ("response" in auth) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const input = parsePackageInput(body);
+  const errors = packageErrors(input);
+  if (errors.length) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+  if (input.fixedPrice !== null && !can(auth.user.role, "pricing:override")) {
+    return NextResponse.json(
+      { error: "Only a manager can set a package's fixed price." },
+      { status: 403 }
+    );
+  }
+
+  const pkg = await createPackage(input);
+  return NextResponse.json(pkg, { status: 201 });
+}
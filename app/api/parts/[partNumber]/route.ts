@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { deletePart, getPart } from "@/lib/parts/repository";
+
+type Params = { params: Promise<{ partNumber: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Part not found." }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: Params) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { partNumber } = await params;
+  const part = await getPart(partNumber);
+  return part ? NextResponse.json(part) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const auth = await requireUser("catalog:write");
+  if ("response" in auth) return auth.response;
+
+  const { partNumber } = await params;
+  const deleted = await deletePart(partNumber);
+  return deleted ? NextResponse.json({ ok: true }) : notFound();
+}
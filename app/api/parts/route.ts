@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { importPriceList, searchParts } from "@/lib/parts/repository";
+
+export async function GET(request: Request) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const parts = await searchParts(searchParams.get("q") ?? "");
+  return NextResponse.json({ parts });
+}
+
+// Accepts the CSV as a raw text/csv body or as a multipart "file" upload.
+export async function POST(request: Request) {
+  const auth = await requireUser("catalog:write");
+  if ("response" in auth) return auth.response;
+
+  let text: string;
+  if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!file || typeof file === "string") {
+      return NextResponse.json(
+        { error: "Attach the price list as a 'file' field." },
+        { status: 400 }
+      );
+    }
+    text = await file.text();
+  } else {
+    text = await request.text();
+  }
+
+  if (!text.trim()) {
+    return NextResponse.json(
+      { error: "The price list is empty." },
+      { status: 400 }
+    );
+  }
+
+  const result = await importPriceList(text);
+  return NextResponse.json(result);
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import {
+  estimateFleet,
+  feeCodeErrors,
+  resolveTerms,
+} from "@/lib/quotes/estimate";
+import {
+  MAX_FLEET_ROWS,
+  fleetEstimateCsv,
+  parseFleetList,
+} from "@/lib/quotes/fleet";
+import { toApiError, validateEstimateTerms } from "@/lib/quotes/schema";
+
+// Body: { text: pasted VIN list or CSV, ...same pricing terms as /api/quote }.
+// Add ?format=csv to get the estimate back as a spreadsheet.
+export async function POST(request: Request) {
+  const auth = await requireUser("quotes:write");
+  if ("response" in auth) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  const termErrors = validateEstimateTerms(body);
+  if (termErrors.length) {
+    return NextResponse.json(toApiError(termErrors), { status: 400 });
+  }
+
+  const { rows, errors } = parseFleetList(String(body.text ?? ""));
+  if (!rows.length && !errors.length) {
+    return NextResponse.json(
+      toApiError([
+        { field: "text", code: "REQUIRED", message: "Paste at least one VIN." },
+      ]),
+      { status: 400 }
+    );
+  }
+  if (rows.length > MAX_FLEET_ROWS) {
+    return NextResponse.json(
+      toApiError([
+        {
+          field: "text",
+          code: "OUT_OF_RANGE",
+          message: `A fleet list can have at most ${MAX_FLEET_ROWS} units (got ${rows.length}).`,
+        },
+      ]),
+      { status: 400 }
+    );
+  }
+
+  const terms = await resolveTerms(body);
+  const feeErrors = feeCodeErrors(terms);
+  if (feeErrors.length) {
+    return NextResponse.json(toApiError(feeErrors), { status: 400 });
+  }
+
+  const estimate = await estimateFleet(rows, terms);
+  estimate.errors = [...errors, ...estimate.errors].sort(
+    (a, b) => a.row - b.row
+  );
+
+  const { searchParams } = new URL(request.url);
+  if (searchParams.get("format") === "csv") {
+    return new Response(fleetEstimateCsv(estimate), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="fleet-estimate.csv"',
+      },
+    });
+  }
+  return NextResponse.json(estimate);
+}
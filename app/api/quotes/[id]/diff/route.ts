@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { diffRevisions } from "@/lib/quotes/diff";
+import { getQuoteRevisions } from "@/lib/quotes/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+// ?from=1&to=3 – defaults to the latest revision against the one before it.
+export async function GET(request: Request, { params }: Params) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const revisions = await getQuoteRevisions(id);
+  if (!revisions) {
+    return NextResponse.json({ error: "Quote not found." }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const latest = revisions[revisions.length - 1].revision;
+  const to = Number(searchParams.get("to") ?? latest);
+  const from = Number(searchParams.get("from") ?? Math.max(1, to - 1));
+
+  const fromRevision = revisions.find((r) => r.revision === from);
+  const toRevision = revisions.find((r) => r.revision === to);
+  if (!fromRevision || !toRevision) {
+    return NextResponse.json(
+      { error: `This quote has revisions 1 to ${latest}.` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(diffRevisions(fromRevision, toRevision));
+}
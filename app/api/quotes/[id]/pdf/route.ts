@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { quotePdfFilename, renderShopQuotePdf } from "@/lib/pdf/shop-quote";
+import { getQuote } from "@/lib/quotes/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: Params) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const quote = await getQuote(id);
+  if (!quote) {
+    return NextResponse.json({ error: "Quote not found." }, { status: 404 });
+  }
+
+  const pdf = await renderShopQuotePdf(quote);
+
+  const download = new URL(request.url).searchParams.get("download") === "1";
+  const filename = quotePdfFilename(quote);
+
+  return new Response(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `${
+        download ? "attachment" : "inline"
+      }; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { getQuoteRevisions } from "@/lib/quotes/repository";
+import type { RevisionSummary } from "@/lib/quotes/types";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const revisions = await getQuoteRevisions(id);
+  if (!revisions) {
+    return NextResponse.json({ error: "Quote not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    revisions: revisions.map(
+      (r): RevisionSummary => ({
+        revision: r.revision,
+        createdAt: r.createdAt,
+        lineCount: r.quote.repairs.length,
+        quoteTotal: r.quote.totals.quoteTotal,
+        currency: r.quote.currency,
+        locale: r.quote.locale,
+      })
+    ),
+  });
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { parseQuoteInput } from "@/lib/quotes/input";
+import { checkPricingApproval } from "@/lib/quotes/policy";
+import { deleteQuote, getQuote, updateQuote } from "@/lib/quotes/repository";
+import { toApiError, validateQuoteInput } from "@/lib/quotes/schema";
+import { warrantyErrors } from "@/lib/quotes/warranty";
+import type { QuoteConflict } from "@/lib/quotes/types";
+
+type Params = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Quote not found." }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: Params) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const quote = await getQuote(id);
+  return quote ? NextResponse.json(quote) : notFound();
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await requireUser("quotes:write");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const errors = validateQuoteInput(body);
+  if (errors.length) {
+    return NextResponse.json(toApiError(errors), { status: 400 });
+  }
+
+  const existing = await getQuote(id);
+  if (!existing) return notFound();
+  if (existing.status === "converted") {
+    return NextResponse.json(
+      { error: "Quotes converted to a work order can't be edited." },
+      { status: 409 }
+    );
+  }
+
+  // The editor sends the version it started from; a save made in between
+  // (another user, another tab, a queued offline save) would be lost.
+  if (
+    typeof body.expectedUpdatedAt === "string" &&
+    body.expectedUpdatedAt !== existing.updatedAt
+  ) {
+    const by = existing.updatedBy ? ` by ${existing.updatedBy.name}` : "";
+    const conflict: QuoteConflict = {
+      ...toApiError([
+        {
+          field: "",
+          code: "CONFLICT",
+          message: `This quote was changed${by} after you opened it.`,
+        },
+      ]),
+      quote: existing,
+    };
+    return NextResponse.json(conflict, { status: 409 });
+  }
+
+  const input = parseQuoteInput(body);
+  const coverage = await warrantyErrors(input, existing);
+  if (coverage.length) {
+    return NextResponse.json(toApiError(coverage), { status: 400 });
+  }
+
+  const approval = await checkPricingApproval(
+    auth.user,
+    input,
+    existing,
+    body.managerApproval
+  );
+  if ("error" in approval) {
+    return NextResponse.json(approval, { status: 403 });
+  }
+
+  const quote = await updateQuote(
+    id,
+    input,
+    userRef(auth.user),
+    approval.approvedBy
+  );
+  return quote ? NextResponse.json(quote) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const auth = await requireUser("quotes:delete");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const deleted = await deleteQuote(id);
+  return deleted ? NextResponse.json({ ok: true }) : notFound();
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { parseSendInput, sendErrors } from "@/lib/messaging/input";
+import { sendQuote } from "@/lib/messaging/send";
+import { getQuote, setQuoteStatus } from "@/lib/quotes/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(request: Request, { params }: Params) {
+  const auth = await requireUser("quotes:write");
+  if ("response" in auth) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const input = parseSendInput(body);
+  const errors = sendErrors(input);
+  if (errors.length) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  const { id } = await params;
+  let quote = await getQuote(id);
+  if (!quote) {
+    return NextResponse.json({ error: "Quote not found." }, { status: 404 });
+  }
+
+  // Sending a draft marks it sent first, so the message carries a live
+  // approval link. If the message doesn't go out it goes back to draft.
+  const by = userRef(auth.user);
+  const wasDraft = quote.status === "draft";
+  if (wasDraft) {
+    const result = await setQuoteStatus(id, "sent", by);
+    if (!result) {
+      return NextResponse.json({ error: "Quote not found." }, { status: 404 });
+    }
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+    quote = result.quote;
+  }
+
+  const sent = await sendQuote(quote, input, new URL(request.url).origin, by);
+  if (sent.delivery.status === "failed") {
+    if (wasDraft) {
+      const reverted = await setQuoteStatus(id, "draft", by);
+      if (reverted && "quote" in reverted) sent.quote = reverted.quote;
+    }
+    return NextResponse.json(
+      { ...sent, error: `Could not send: ${sent.delivery.error}` },
+      { status: 502 }
+    );
+  }
+  return NextResponse.json(sent);
+}
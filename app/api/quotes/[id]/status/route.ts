@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { getQuote, setQuoteStatus } from "@/lib/quotes/repository";
+import { toApiError } from "@/lib/quotes/schema";
+import { isQuoteStatus } from "@/lib/quotes/status";
+import { createWorkOrder } from "@/lib/workorders/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(request: Request, { params }: Params) {
+  const auth = await requireUser("quotes:write");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  if (!isQuoteStatus(body?.status)) {
+    return NextResponse.json(
+      toApiError([
+        { field: "status", code: "INVALID_VALUE", message: "Unknown status." },
+      ]),
+      { status: 400 }
+    );
+  }
+
+  // Converting always opens the work order, so the two can't drift apart.
+  if (body.status === "converted") {
+    const converted = await createWorkOrder(id, userRef(auth.user));
+    if (!converted) {
+      return NextResponse.json({ error: "Quote not found." }, { status: 404 });
+    }
+    if ("error" in converted) {
+      return NextResponse.json({ error: converted.error }, { status: 409 });
+    }
+    return NextResponse.json(await getQuote(id));
+  }
+
+  const result = await setQuoteStatus(id, body.status, userRef(auth.user));
+  if (!result) {
+    return NextResponse.json({ error: "Quote not found." }, { status: 404 });
+  }
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 409 });
+  }
+  return NextResponse.json(result.quote);
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import { parseQuoteInput } from "@/lib/quotes/input";
+import { checkPricingApproval } from "@/lib/quotes/policy";
+import { createQuote, searchQuotes, toSummary } from "@/lib/quotes/repository";
+import { toApiError, validateQuoteInput } from "@/lib/quotes/schema";
+import { warrantyErrors } from "@/lib/quotes/warranty";
+
+export async function GET(request: Request) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const quotes = await searchQuotes(searchParams.get("q") ?? "");
+  return NextResponse.json({ quotes: quotes.map(toSummary) });
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser("quotes:write");
+  if ("response" in auth) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  const errors = validateQuoteInput(body);
+  if (errors.length) {
+    return NextResponse.json(toApiError(errors), { status: 400 });
+  }
+
+  const input = parseQuoteInput(body);
+  const coverage = await warrantyErrors(input, null);
+  if (coverage.length) {
+    return NextResponse.json(toApiError(coverage), { status: 400 });
+  }
+
+  const approval = await checkPricingApproval(
+    auth.user,
+    input,
+    null,
+    body.managerApproval
+  );
+  if ("error" in approval) {
+    return NextResponse.json(approval, { status: 403 });
+  }
+
+  const quote = await createQuote(input, userRef(auth.user));
+  return NextResponse.json(quote, { status: 201 });
+}
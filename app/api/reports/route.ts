@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { searchQuotes } from "@/lib/quotes/repository";
+import {
+  analyticsCsv,
+  buildAnalytics,
+  isReportName,
+  parseReportFilters,
+} from "@/lib/reports/analytics";
+import { getSettings } from "@/lib/settings/settings";
+
+// ?from=yyyy-mm-dd&to=yyyy-mm-dd&status= narrows the quotes reported on;
+// ?currency= picks which currency's quotes, the shop's by default.
+// Add ?format=csv&report=<summary|status|months|operations|vehicles> to
+// download one table as a spreadsheet.
+export async function GET(request: Request) {
+  const auth = await requireUser("reports:view");
+  if ("response" in auth) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const [quotes, settings] = await Promise.all([searchQuotes(), getSettings()]);
+  const report = buildAnalytics(
+    quotes,
+    parseReportFilters(searchParams),
+    settings.currency
+  );
+
+  if (searchParams.get("format") === "csv") {
+    const name = searchParams.get("report") ?? "summary";
+    if (!isReportName(name)) {
+      return NextResponse.json(
+        { error: `Unknown report "${name}".` },
+        { status: 400 }
+      );
+    }
+    return new Response(analyticsCsv(report, name), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="quotes-${name}.csv"`,
+      },
+    });
+  }
+  return NextResponse.json(report);
+}
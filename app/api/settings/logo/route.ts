@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import {
+  LOGO_TYPES,
+  MAX_LOGO_BYTES,
+  deleteLogo,
+  readLogo,
+  saveLogo,
+} from "@/lib/settings/logo";
+import { toSettingsResponse } from "@/lib/settings/settings";
+
+export async function GET() {
+  const logo = await readLogo();
+  if (!logo) {
+    return NextResponse.json({ error: "No logo uploaded." }, { status: 404 });
+  }
+
+  return new Response(Buffer.from(logo.bytes), {
+    headers: {
+      "Content-Type": logo.contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser("settings:write");
+  if ("response" in auth) return auth.response;
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("logo");
+
+  if (!(file instanceof File)) {
+    return NextResponse.json(
+      { error: 'Attach the logo as a "logo" form field.' },
+      { status: 400 }
+    );
+  }
+  if (!LOGO_TYPES.includes(file.type)) {
+    return NextResponse.json(
+      { error: "Logo must be a PNG or JPEG image." },
+      { status: 400 }
+    );
+  }
+  if (file.size > MAX_LOGO_BYTES) {
+    return NextResponse.json(
+      { error: "Logo must be 1 MB or smaller." },
+      { status: 400 }
+    );
+  }
+
+  const settings = await saveLogo(
+    new Uint8Array(await file.arrayBuffer()),
+    file.type
+  );
+  return NextResponse.json(toSettingsResponse(settings));
+}
+
+export async function DELETE() {
+  const auth = await requireUser("settings:write");
+  if ("response" in auth) return auth.response;
+
+  return NextResponse.json(toSettingsResponse(await deleteLogo()));
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import {
+  getSettings,
+  parseSettingsInput,
+  toSettingsResponse,
+  updateSettings,
+} from "@/lib/settings/settings";
+
+export async function GET() {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  return NextResponse.json(toSettingsResponse(await getSettings()));
+}
+
+export async function PUT(request: Request) {
+  const auth = await requireUser("settings:write");
+  if ("response" in auth) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const current = await getSettings();
+  const settings = await updateSettings(parseSettingsInput(body, current));
+  return NextResponse.json(toSettingsResponse(settings));
+}
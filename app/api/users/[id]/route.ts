@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { parseUserInput, userErrors } from "@/lib/auth/input";
+import { endUserSessions } from "@/lib/auth/sessions";
+import { updateUser } from "@/lib/auth/users";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await requireUser("users:manage");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const input = parseUserInput(body);
+  const errors = userErrors(input, false);
+  if (errors.length) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  const result = await updateUser(id, input);
+  if (!result) {
+    return NextResponse.json({ error: "User not found." }, { status: 404 });
+  }
+  if ("error" in result) return NextResponse.json(result, { status: 409 });
+
+  // A deactivated account or a new password signs out open sessions.
+  if (!input.active || input.password) await endUserSessions(id);
+  return NextResponse.json(result.user);
+}
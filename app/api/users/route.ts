@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { parseUserInput, userErrors } from "@/lib/auth/input";
+import { createUser, listUsers } from "@/lib/auth/users";
+
+export async function GET() {
+  const auth = await requireUser("users:manage");
+  if ("response" in auth) return auth.response;
+
+  return NextResponse.json({ users: await listUsers() });
+}
+
+export async function POST(request: Request) {
+  const auth = await requireUser("users:manage");
+  if ("response" in auth) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const input = parseUserInput(body);
+  const errors = userErrors(input, true);
+  if (errors.length) {
+    return NextResponse.json({ error: errors.join(" ") }, { status: 400 });
+  }
+
+  const result = await createUser(input);
+  return "error" in result
+    ? NextResponse.json(result, { status: 409 })
+    : NextResponse.json(result.user, { status: 201 });
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { toApiError } from "@/lib/quotes/schema";
+import { decodeVin } from "@/lib/vin/decode";
+import { lookupWarranty } from "@/lib/warranty/provider";
+
+type Params = { params: Promise<{ vin: string }> };
+
+// Coverage and open campaigns for a VIN, for quotes reopened in the editor.
+export async function GET(_request: Request, { params }: Params) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { vin } = await params;
+  const decoded = decodeVin(vin);
+  if (!decoded.valid) {
+    return NextResponse.json(
+      toApiError(decoded.errors.map((e) => ({ field: "vin", ...e }))),
+      { status: 400 }
+    );
+  }
+  return NextResponse.json(await lookupWarranty(decoded.decoded.vin));
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { clockTechnician } from "@/lib/workorders/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Body: { lineId, action: "in" | "out", technician }.
+export async function POST(request: Request, { params }: Params) {
+  const auth = await requireUser("workorders:write");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  // Technicians can only clock themselves; writers and managers clock anyone.
+  const technician =
+    auth.user.role === "technician"
+      ? auth.user.name
+      : String(body?.technician ?? "").trim();
+
+  if (body?.action !== "in" && body?.action !== "out") {
+    return NextResponse.json(
+      { error: 'action must be "in" or "out".' },
+      { status: 400 }
+    );
+  }
+  if (!technician) {
+    return NextResponse.json(
+      { error: "Technician name is required." },
+      { status: 400 }
+    );
+  }
+
+  const result = await clockTechnician(
+    id,
+    String(body.lineId ?? ""),
+    body.action,
+    technician
+  );
+  if (!result) {
+    return NextResponse.json(
+      { error: "Work order or operation not found." },
+      { status: 404 }
+    );
+  }
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 409 });
+  }
+  return NextResponse.json(result.workOrder);
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { parseWorkOrderUpdate } from "@/lib/workorders/input";
+import { getWorkOrder, updateWorkOrder } from "@/lib/workorders/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "Work order not found." }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: Params) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const workOrder = await getWorkOrder(id);
+  return workOrder ? NextResponse.json(workOrder) : notFound();
+}
+
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await requireUser("workorders:write");
+  if ("response" in auth) return auth.response;
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const workOrder = await updateWorkOrder(id, parseWorkOrderUpdate(body));
+  return workOrder ? NextResponse.json(workOrder) : notFound();
+}
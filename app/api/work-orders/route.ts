@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/guard";
+import { userRef } from "@/lib/auth/users";
+import {
+  createWorkOrder,
+  findWorkOrderForQuote,
+  searchWorkOrders,
+  toWorkOrderSummary,
+} from "@/lib/workorders/repository";
+
+export async function GET(request: Request) {
+  const auth = await requireUser();
+  if ("response" in auth) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const quoteId = searchParams.get("quoteId");
+  if (quoteId) {
+    const workOrder = await findWorkOrderForQuote(quoteId);
+    return NextResponse.json({
+      workOrders: workOrder ? [toWorkOrderSummary(workOrder)] : [],
+    });
+  }
+
+  const workOrders = await searchWorkOrders(searchParams.get("q") ?? "");
+  return NextResponse.json({ workOrders: workOrders.map(toWorkOrderSummary) });
+}
+
+// Body: { quoteId } of an approved quote.
+export async function POST(request: Request) {
+  const auth = await requireUser("quotes:write");
+  if ("response" in auth) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  if (!body?.quoteId) {
+    return NextResponse.json(
+      { error: "quoteId is required." },
+      { status: 400 }
+    );
+  }
+
+  const result = await createWorkOrder(
+    String(body.quoteId),
+    userRef(auth.user)
+  );
+  if (!result) {
+    return NextResponse.json({ error: "Quote not found." }, { status: 404 });
+  }
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 409 });
+  }
+  return NextResponse.json(result.workOrder, { status: 201 });
+}
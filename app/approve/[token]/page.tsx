@@ -0,0 +1,311 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import { createFormatter } from "@/lib/i18n/format";
+import { STATUS_LABELS } from "@/lib/quotes/status";
+import type { LineDecision, PublicQuote } from "@/lib/quotes/types";
+
+export default function ApproveQuote() {
+  const { token } = useParams<{ token: string }>();
+
+  const [quote, setQuote] = useState<PublicQuote | null>(null);
+  const [decisions, setDecisions] = useState<LineDecision[]>([]);
+  const [signature, setSignature] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/approve/${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Quote not found.");
+        return data as PublicQuote;
+      })
+      .then((data) => {
+        setQuote(data);
+        setDecisions(data.repairs.map(() => "approved"));
+      })
+      .catch((err) => {
+        console.error(err);
+        setError(err.message);
+      });
+  }, [token]);
+
+  function handleDecision(index: number, decision: LineDecision) {
+    setDecisions((prev) => prev.map((d, i) => (i === index ? decision : d)));
+  }
+
+  async function handleSubmit() {
+    if (!signature.trim()) {
+      setError("Please type your full name to sign.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/approve/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ signature, decisions }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || "Could not record your response.");
+        return;
+      }
+      setQuote(data as PublicQuote);
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while sending your response.");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const fmt = useMemo(
+    () =>
+      createFormatter({
+        currency: quote?.currency ?? undefined,
+        locale: quote?.locale ?? undefined,
+      }),
+    [quote?.currency, quote?.locale]
+  );
+
+  const open = quote?.status === "sent";
+  const approvedLines = quote
+    ? quote.repairs.filter((_, i) => decisions[i] === "approved")
+    : [];
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-3xl">
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {!quote ? (
+          !error && (
+            <p className="text-gray-500 text-sm text-center">
+              Loading quote...
+            </p>
+          )
+        ) : (
+          <>
+            <div className="flex justify-between items-start gap-4 mb-6">
+              <div>
+                <h1 className="text-2xl font-bold mb-1">{quote.shopName}</h1>
+                <p className="text-gray-600 text-sm">
+                  Repair estimate {quote.quoteNumber} (Rev {quote.revision})
+                  {quote.customerName && ` for ${quote.customerName}`}
+                </p>
+              </div>
+              <div className="text-right text-sm">
+                <div className="font-semibold">
+                  {STATUS_LABELS[quote.status]}
+                </div>
+                {open && quote.expiresAt && (
+                  <div className="text-gray-500">
+                    {fmt.t("validUntil")} {fmt.date(quote.expiresAt)}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="border rounded-lg p-4 bg-gray-50 mb-4 text-sm space-y-1">
+              <div>
+                <span className="font-semibold">{fmt.t("vehicle")}:</span>{" "}
+                {quote.vehicle}
+              </div>
+              <div>
+                <span className="font-semibold">{fmt.t("vin")}:</span>{" "}
+                <span className="font-mono">{quote.vin}</span>
+              </div>
+              {quote.unitNumber && (
+                <div>
+                  <span className="font-semibold">{fmt.t("unit")}:</span>{" "}
+                  {quote.unitNumber}
+                </div>
+              )}
+              {quote.odometer !== null && (
+                <div>
+                  <span className="font-semibold">{fmt.t("odometer")}:</span>{" "}
+                  {fmt.miles(quote.odometer)}
+                </div>
+              )}
+            </div>
+
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-2">{fmt.t("operation")}</th>
+                  <th className="py-2 pr-2 text-right">{fmt.t("labor")}</th>
+                  <th className="py-2 pr-2 text-right">{fmt.t("parts")}</th>
+                  <th className="py-2 pr-2 text-right">{fmt.t("lineTotal")}</th>
+                  <th className="py-2 text-right">Your Decision</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quote.repairs.map((r, idx) => {
+                  const decision = open
+                    ? decisions[idx]
+                    : quote.approval?.decisions[idx];
+                  return (
+                    <tr key={idx} className="border-b align-top">
+                      <td className="py-2 pr-2">
+                        <div className="font-semibold">{r.operation}</div>
+                        <div className="text-xs text-gray-500">
+                          {fmt.t("srtHours")}: {fmt.hours(r.srtHours, 1)}
+                        </div>
+                        {r.warranty && (
+                          <div className="text-xs text-green-700">
+                            {fmt.t("warrantyNoCharge")} ({r.warranty.name})
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {fmt.money(r.laborCharge)}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {fmt.money(r.partsCharge)}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {fmt.money(r.lineCharge)}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {open ? (
+                          <select
+                            value={decision}
+                            onChange={(e) =>
+                              handleDecision(
+                                idx,
+                                e.target.value as LineDecision
+                              )
+                            }
+                            className="p-1 border rounded-md bg-white"
+                          >
+                            <option value="approved">Approve</option>
+                            <option value="declined">Decline</option>
+                          </select>
+                        ) : decision ? (
+                          <span
+                            className={
+                              decision === "approved"
+                                ? "text-green-700"
+                                : "text-red-600"
+                            }
+                          >
+                            {decision === "approved" ? "Approved" : "Declined"}
+                          </span>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="bg-blue-50 rounded-lg p-3 text-sm space-y-1 mb-4">
+              <div className="flex justify-between">
+                <span>{fmt.t("beforeFees")}:</span>
+                <span>{fmt.money(quote.totals.finalGrandTotal)}</span>
+              </div>
+              {quote.totals.shopSupplies > 0 && (
+                <div className="flex justify-between">
+                  <span>{fmt.t("shopSupplies")}:</span>
+                  <span>{fmt.money(quote.totals.shopSupplies)}</span>
+                </div>
+              )}
+              {quote.totals.fees.map((fee) => (
+                <div key={fee.code} className="flex justify-between">
+                  <span>{fee.name}:</span>
+                  <span>{fmt.money(fee.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <span>{fmt.t("salesTax")}:</span>
+                <span>
+                  {quote.taxExempt
+                    ? fmt.t("exempt")
+                    : fmt.money(quote.totals.taxTotal)}
+                </span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Quoted Total (all lines):</span>
+                <span>{fmt.money(quote.totals.quoteTotal)}</span>
+              </div>
+              {quote.approval && (
+                <div className="flex justify-between font-semibold">
+                  <span>Approved Total:</span>
+                  <span>{fmt.money(quote.approval.approvedTotal)}</span>
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Line prices include markup. The final invoice is itemized for
+                approved lines only.
+              </p>
+            </div>
+
+            {quote.terms && (
+              <div className="mb-4 text-xs text-gray-600 whitespace-pre-wrap">
+                <div className="font-semibold mb-1">{fmt.t("terms")}</div>
+                {quote.terms}
+              </div>
+            )}
+
+            {open ? (
+              <div className="border-t pt-4">
+                <label className="block mb-2 font-medium">
+                  Type your full name to sign
+                </label>
+                <input
+                  type="text"
+                  value={signature}
+                  onChange={(e) => setSignature(e.target.value)}
+                  placeholder="e.g. Jordan Smith"
+                  className="w-full p-3 border rounded-lg mb-2 font-serif italic text-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  maxLength={100}
+                />
+                <p className="text-xs text-gray-500 mb-4">
+                  By signing you authorize {quote.shopName} to perform the{" "}
+                  {approvedLines.length} approved line(s) under the terms above.
+                </p>
+                <button
+                  onClick={handleSubmit}
+                  disabled={submitting}
+                  className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white p-3 rounded-lg font-semibold"
+                >
+                  {submitting
+                    ? "Sending..."
+                    : approvedLines.length
+                    ? "Sign and Approve Selected Lines"
+                    : "Sign and Decline Quote"}
+                </button>
+              </div>
+            ) : quote.approval ? (
+              <p className="text-sm text-gray-600 border-t pt-4">
+                Signed by{" "}
+                <span className="font-serif italic">
+                  {quote.approval.signature}
+                </span>{" "}
+                on {new Date(quote.approval.signedAt).toLocaleString()}. Thank
+                you!
+              </p>
+            ) : (
+              <p className="text-sm text-gray-600 border-t pt-4">
+                {quote.status === "expired"
+                  ? "This quote has expired. Please contact the shop for an updated quote."
+                  : "This quote is no longer waiting for approval."}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
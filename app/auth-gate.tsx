@@ -0,0 +1,90 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { can, ROLE_LABELS } from "@/lib/auth/roles";
+import type { PublicUser } from "@/lib/auth/types";
+
+// Keeps the shop pages behind sign-in. The customer approval page and the
+// login page itself stay public; the API enforces the same rules.
+
+const CurrentUserContext = createContext<PublicUser | null>(null);
+
+export function useCurrentUser(): PublicUser | null {
+  return useContext(CurrentUserContext);
+}
+
+function isPublicPath(pathname: string): boolean {
+  return pathname === "/login" || pathname.startsWith("/approve/");
+}
+
+export default function AuthGate({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+  const router = useRouter();
+  const open = isPublicPath(pathname);
+  const [user, setUser] = useState<PublicUser | null>(null);
+  const [checked, setChecked] = useState(false);
+
+  useEffect(() => {
+    if (open) return;
+
+    fetch("/api/auth/session")
+      .then((res) => {
+        if (!res.ok) throw new Error("Not signed in.");
+        return res.json() as Promise<{ user: PublicUser }>;
+      })
+      .then((data) => {
+        setUser(data.user);
+        setChecked(true);
+      })
+      .catch(() => {
+        const next = pathname + window.location.search;
+        router.replace(`/login?next=${encodeURIComponent(next)}`);
+      });
+  }, [open, pathname, router]);
+
+  async function handleSignOut() {
+    await fetch("/api/auth/logout", { method: "POST" });
+    setUser(null);
+    setChecked(false);
+    router.replace("/login");
+  }
+
+  if (open) return <>{children}</>;
+  if (!checked || !user) {
+    return (
+      <p className="text-gray-500 text-sm text-center p-6">Signing in...</p>
+    );
+  }
+
+  return (
+    <CurrentUserContext.Provider value={user}>
+      <div className="flex justify-end items-center gap-3 bg-gray-800 text-gray-100 text-xs px-4 py-2 print:hidden">
+        <span>
+          {user.name}{" "}
+          <span className="text-gray-400">({ROLE_LABELS[user.role]})</span>
+        </span>
+        {can(user.role, "reports:view") && (
+          <Link href="/reports" className="underline">
+            Reports
+          </Link>
+        )}
+        {can(user.role, "accounting:export") && (
+          <Link href="/accounting" className="underline">
+            Accounting
+          </Link>
+        )}
+        {can(user.role, "users:manage") && (
+          <Link href="/users" className="underline">
+            Users
+          </Link>
+        )}
+        <button onClick={handleSignOut} className="underline">
+          Sign out
+        </button>
+      </div>
+      {children}
+    </CurrentUserContext.Provider>
+  );
+}
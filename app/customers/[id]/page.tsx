@@ -0,0 +1,411 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import type {
+  Customer,
+  CustomerContact,
+  CustomerInput,
+  FleetUnit,
+} from "@/lib/customers/types";
+
+const inputClass =
+  "w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const EMPTY_CUSTOMER: CustomerInput = {
+  name: "",
+  contacts: [{ name: "", role: "", email: "", phone: "" }],
+  billingAddress: "",
+  taxExempt: false,
+  laborRate: null,
+  partsDiscountPercent: 0,
+  notes: "",
+  units: [],
+};
+
+function optionalNumber(value: string): number | null {
+  return value === "" ? null : Number(value);
+}
+
+export default function CustomerEditor() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const isNew = id === "new";
+
+  const [customer, setCustomer] = useState<CustomerInput | null>(
+    isNew ? EMPTY_CUSTOMER : null
+  );
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isNew) return;
+
+    fetch(`/api/customers/${encodeURIComponent(id)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Customer not found.");
+        return res.json() as Promise<Customer>;
+      })
+      .then(setCustomer)
+      .catch((err) => {
+        console.error(err);
+        setError("Could not load this customer.");
+      });
+  }, [id, isNew]);
+
+  function update<K extends keyof CustomerInput>(
+    field: K,
+    value: CustomerInput[K]
+  ) {
+    setCustomer((prev) => (prev ? { ...prev, [field]: value } : prev));
+    setMessage(null);
+  }
+
+  function updateContact(index: number, patch: Partial<CustomerContact>) {
+    if (!customer) return;
+    const contacts = [...customer.contacts];
+    contacts[index] = { ...contacts[index], ...patch };
+    update("contacts", contacts);
+  }
+
+  function updateUnit(index: number, patch: Partial<FleetUnit>) {
+    if (!customer) return;
+    const units = [...customer.units];
+    units[index] = { ...units[index], ...patch };
+    update("units", units);
+  }
+
+  async function handleSave() {
+    if (!customer) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        isNew ? "/api/customers" : `/api/customers/${id}`,
+        {
+          method: isNew ? "POST" : "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(customer),
+        }
+      );
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || "Failed to save customer.");
+        return;
+      }
+
+      const saved = data as Customer;
+      setCustomer(saved);
+      setMessage("Customer saved.");
+      if (isNew) router.replace(`/customers/${saved.id}`);
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while saving the customer.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-3xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">
+              {isNew ? "New Customer" : customer?.name || "Customer"}
+            </h1>
+            <p className="text-gray-600 text-sm">
+              Negotiated pricing here fills in automatically on new quotes.
+            </p>
+          </div>
+          <Link href="/customers" className="text-sm text-blue-600 underline">
+            All customers
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {!customer ? (
+          !error && (
+            <p className="text-gray-500 text-sm text-center">
+              Loading customer...
+            </p>
+          )
+        ) : (
+          <>
+            <h2 className="text-lg font-semibold mb-3">Account</h2>
+
+            <div className="mb-4">
+              <label className="block mb-2 font-medium">Customer Name</label>
+              <input
+                type="text"
+                value={customer.name}
+                onChange={(e) => update("name", e.target.value)}
+                placeholder="e.g. ABC Logistics"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="mb-4">
+              <label className="block mb-2 font-medium">Billing Address</label>
+              <textarea
+                value={customer.billingAddress}
+                onChange={(e) => update("billingAddress", e.target.value)}
+                className={`${inputClass} min-h-[80px]`}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-2">
+              <div>
+                <label className="block mb-2 font-medium">
+                  Negotiated Labor Rate ($/hr)
+                </label>
+                <input
+                  type="number"
+                  value={customer.laborRate ?? ""}
+                  onChange={(e) =>
+                    update("laborRate", optionalNumber(e.target.value))
+                  }
+                  placeholder="Shop rate"
+                  className={inputClass}
+                  min={0}
+                />
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">
+                  Parts Discount (%)
+                </label>
+                <input
+                  type="number"
+                  value={customer.partsDiscountPercent}
+                  onChange={(e) =>
+                    update("partsDiscountPercent", Number(e.target.value))
+                  }
+                  className={inputClass}
+                  min={0}
+                  max={100}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm mb-6">
+              <input
+                type="checkbox"
+                checked={customer.taxExempt}
+                onChange={(e) => update("taxExempt", e.target.checked)}
+              />
+              Tax exempt
+            </label>
+
+            <div className="mb-6">
+              <div className="flex justify-between items-center mb-2">
+                <h2 className="text-lg font-semibold">Contacts</h2>
+                <button
+                  onClick={() =>
+                    update("contacts", [
+                      ...customer.contacts,
+                      { name: "", role: "", email: "", phone: "" },
+                    ])
+                  }
+                  className="text-sm bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700"
+                >
+                  + Add Contact
+                </button>
+              </div>
+              <div className="space-y-2">
+                {customer.contacts.map((c, idx) => (
+                  <div
+                    key={idx}
+                    className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-center"
+                  >
+                    <input
+                      type="text"
+                      value={c.name}
+                      onChange={(e) =>
+                        updateContact(idx, { name: e.target.value })
+                      }
+                      placeholder="Name"
+                      className="p-2 border rounded-md text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={c.role}
+                      onChange={(e) =>
+                        updateContact(idx, { role: e.target.value })
+                      }
+                      placeholder="Role (e.g. Fleet manager)"
+                      className="p-2 border rounded-md text-sm"
+                    />
+                    <input
+                      type="email"
+                      value={c.email}
+                      onChange={(e) =>
+                        updateContact(idx, { email: e.target.value })
+                      }
+                      placeholder="Email"
+                      className="p-2 border rounded-md text-sm"
+                    />
+                    <input
+                      type="tel"
+                      value={c.phone}
+                      onChange={(e) =>
+                        updateContact(idx, { phone: e.target.value })
+                      }
+                      placeholder="Phone"
+                      className="p-2 border rounded-md text-sm"
+                    />
+                    <button
+                      onClick={() =>
+                        update(
+                          "contacts",
+                          customer.contacts.filter((_, i) => i !== idx)
+                        )
+                      }
+                      className="text-xs text-red-600 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="mb-6">
+              <div className="flex justify-between items-center mb-2">
+                <h2 className="text-lg font-semibold">Units</h2>
+                <button
+                  onClick={() =>
+                    update("units", [
+                      ...customer.units,
+                      {
+                        id: "",
+                        unitNumber: "",
+                        vin: "",
+                        odometer: null,
+                        engineHours: null,
+                      },
+                    ])
+                  }
+                  className="text-sm bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700"
+                >
+                  + Add Unit
+                </button>
+              </div>
+              {!customer.units.length ? (
+                <p className="text-sm text-gray-500">No units yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-2">Unit #</th>
+                      <th className="py-2 pr-2">VIN</th>
+                      <th className="py-2 pr-2">Odometer (mi)</th>
+                      <th className="py-2 pr-2">Engine Hrs</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {customer.units.map((u, idx) => (
+                      <tr key={u.id || idx} className="border-b">
+                        <td className="py-2 pr-2">
+                          <input
+                            type="text"
+                            value={u.unitNumber}
+                            onChange={(e) =>
+                              updateUnit(idx, { unitNumber: e.target.value })
+                            }
+                            className="w-24 p-2 border rounded-md"
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <input
+                            type="text"
+                            value={u.vin}
+                            onChange={(e) =>
+                              updateUnit(idx, { vin: e.target.value })
+                            }
+                            className="w-full p-2 border rounded-md font-mono text-xs"
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <input
+                            type="number"
+                            value={u.odometer ?? ""}
+                            onChange={(e) =>
+                              updateUnit(idx, {
+                                odometer: optionalNumber(e.target.value),
+                              })
+                            }
+                            className="w-28 p-2 border rounded-md"
+                            min={0}
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <input
+                            type="number"
+                            value={u.engineHours ?? ""}
+                            onChange={(e) =>
+                              updateUnit(idx, {
+                                engineHours: optionalNumber(e.target.value),
+                              })
+                            }
+                            className="w-24 p-2 border rounded-md"
+                            min={0}
+                          />
+                        </td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() =>
+                              update(
+                                "units",
+                                customer.units.filter((_, i) => i !== idx)
+                              )
+                            }
+                            className="text-xs text-red-600 hover:underline"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="mb-6">
+              <label className="block mb-2 font-medium">Notes</label>
+              <textarea
+                value={customer.notes}
+                onChange={(e) => update("notes", e.target.value)}
+                placeholder="PO requirements, approval limits, preferred contact..."
+                className={`${inputClass} min-h-[80px] text-sm`}
+              />
+            </div>
+
+            {message && (
+              <div className="mb-4 text-sm text-green-700 bg-green-50 p-3 rounded-lg">
+                {message}
+              </div>
+            )}
+
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white p-3 rounded-lg font-semibold"
+            >
+              {saving ? "Saving..." : "Save Customer"}
+            </button>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useShopFormat } from "@/app/use-shop-format";
+import type { CustomerSummary } from "@/lib/customers/types";
+
+export default function CustomerList() {
+  const [search, setSearch] = useState("");
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const fmt = useShopFormat();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/customers?q=${encodeURIComponent(search)}`, {
+        signal: controller.signal,
+      })
+        .then((res) => {
+          if (!res.ok) throw new Error("Failed to load customers.");
+          return res.json() as Promise<{ customers: CustomerSummary[] }>;
+        })
+        .then((data) => {
+          setCustomers(data.customers);
+          setError(null);
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          console.error(err);
+          setError("Something went wrong while loading customers.");
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [search]);
+
+  async function handleDelete(c: CustomerSummary) {
+    if (!window.confirm(`Delete customer ${c.name}?`)) return;
+
+    const res = await fetch(`/api/customers/${c.id}`, { method: "DELETE" });
+    if (!res.ok) {
+      setError(`Could not delete ${c.name}.`);
+      return;
+    }
+    setCustomers((prev) => prev.filter((item) => item.id !== c.id));
+  }
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-5xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Customers</h1>
+            <p className="text-gray-600 text-sm">
+              Fleets, their contacts and units. Search by name, contact, unit
+              number, or VIN.
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-2">
+            <Link
+              href="/customers/new"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-blue-700"
+            >
+              New Customer
+            </Link>
+            <Link href="/" className="text-xs text-blue-600 underline">
+              Back to quotes
+            </Link>
+          </div>
+        </div>
+
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search customers..."
+          className="w-full p-3 border rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500 text-sm text-center">
+            Loading customers...
+          </p>
+        ) : !customers.length ? (
+          <p className="text-gray-500 text-sm text-center">
+            {search
+              ? "No customers match your search."
+              : "No customers registered yet."}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2">Customer</th>
+                <th className="py-2 pr-2">Contact</th>
+                <th className="py-2 pr-2 text-right">Units</th>
+                <th className="py-2 pr-2 text-right">Labor Rate</th>
+                <th className="py-2 pr-2">Tax</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {customers.map((c) => (
+                <tr key={c.id} className="border-b align-top">
+                  <td className="py-2 pr-2 font-semibold">{c.name}</td>
+                  <td className="py-2 pr-2">{c.primaryContact || "—"}</td>
+                  <td className="py-2 pr-2 text-right">{c.unitCount}</td>
+                  <td className="py-2 pr-2 text-right">
+                    {c.laborRate ? fmt.money(c.laborRate) : "Shop rate"}
+                  </td>
+                  <td className="py-2 pr-2">
+                    {c.taxExempt ? "Exempt" : "Taxable"}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <Link
+                      href={`/customers/${c.id}`}
+                      className="text-blue-600 hover:underline mr-3"
+                    >
+                      Edit
+                    </Link>
+                    <button
+                      onClick={() => handleDelete(c)}
+                      className="text-red-600 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </main>
+  );
+}
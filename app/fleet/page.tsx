@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useShopFormat } from "@/app/use-shop-format";
+import type { CustomerSummary } from "@/lib/customers/types";
+import { MAX_FLEET_ROWS, fleetEstimateCsv } from "@/lib/quotes/fleet";
+import type { FleetEstimate } from "@/lib/quotes/types";
+
+const EXAMPLE = `vin,unit_number,operations
+1FUJGLDR9KLKA1234,T-101,
+1XKYD49X5MJ123456,T-102,PM-1;BRK-DRIVE`;
+
+export default function FleetQuote() {
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [customerId, setCustomerId] = useState("");
+  const [text, setText] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [estimate, setEstimate] = useState<FleetEstimate | null>(null);
+  const fmt = useShopFormat();
+
+  useEffect(() => {
+    fetch("/api/customers")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load customers.");
+        return res.json() as Promise<{ customers: CustomerSummary[] }>;
+      })
+      .then((data) => setCustomers(data.customers))
+      .catch((err) => console.error(err));
+  }, []);
+
+  async function handleEstimate() {
+    setLoading(true);
+    setError(null);
+    setEstimate(null);
+
+    try {
+      const res = await fetch("/api/quote/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text, customerId: customerId || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Could not estimate the fleet.");
+        return;
+      }
+      setEstimate(data as FleetEstimate);
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while estimating the fleet.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleDownloadCsv() {
+    if (!estimate) return;
+    const blob = new Blob([fleetEstimateCsv(estimate)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "fleet-estimate.csv";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-5xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Fleet Quote</h1>
+            <p className="text-gray-600 text-sm">
+              Estimate a whole fleet at once from a pasted VIN list or CSV. Each
+              unit is priced as its own quote.
+            </p>
+          </div>
+          <Link href="/" className="text-xs text-blue-600 underline">
+            Back to quotes
+          </Link>
+        </div>
+
+        <div className="mb-4">
+          <label className="block mb-2 font-medium">Customer</label>
+          <select
+            value={customerId}
+            onChange={(e) => setCustomerId(e.target.value)}
+            className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">No customer (shop defaults)</option>
+            {customers.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Uses the customer&apos;s labor rate, parts discount and tax status,
+            and fills unit numbers from their registered units.
+          </p>
+        </div>
+
+        <div className="mb-4">
+          <div className="flex justify-between items-end mb-2">
+            <label className="font-medium">VIN List</label>
+            <input
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) file.text().then(setText);
+                e.target.value = "";
+              }}
+              className="text-xs"
+            />
+          </div>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={EXAMPLE}
+            className="w-full p-3 border rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            rows={10}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            One unit per line: VIN, then optionally the unit number and
+            operation codes (separated by &quot;;&quot;). A CSV with a{" "}
+            <span className="font-mono">vin,unit_number,operations</span> header
+            works too. Up to {MAX_FLEET_ROWS} units.
+          </p>
+        </div>
+
+        <button
+          onClick={handleEstimate}
+          disabled={loading || !text.trim()}
+          className="w-full bg-blue-600 text-white p-3 rounded-lg font-semibold hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {loading ? "Estimating..." : "Estimate Fleet"}
+        </button>
+
+        {error && (
+          <div className="mt-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {estimate && (
+          <div className="mt-6">
+            <div className="flex justify-between items-center mb-3">
+              <p className="text-sm text-gray-600">
+                {estimate.totals.units} unit
+                {estimate.totals.units === 1 ? "" : "s"} quoted
+                {estimate.errors.length > 0 &&
+                  `, ${estimate.errors.length} row${
+                    estimate.errors.length === 1 ? "" : "s"
+                  } skipped`}
+                .
+              </p>
+              <button
+                onClick={handleDownloadCsv}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                Download CSV
+              </button>
+            </div>
+
+            {estimate.errors.length > 0 && (
+              <div className="mb-4 text-sm bg-red-50 border border-red-200 rounded-lg p-3">
+                <div className="font-semibold mb-1 text-red-700">
+                  Rows with errors
+                </div>
+                <ul className="text-xs text-red-700 list-disc pl-5">
+                  {estimate.errors.map((e) => (
+                    <li key={e.row}>
+                      Row {e.row}
+                      {e.vin && <span className="font-mono"> ({e.vin})</span>}:{" "}
+                      {e.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {estimate.units.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-2">Unit</th>
+                    <th className="py-2 pr-2">VIN / Vehicle</th>
+                    <th className="py-2 pr-2">Operations</th>
+                    <th className="py-2 pr-2 text-right">SRT Hrs</th>
+                    <th className="py-2 text-right">Unit Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {estimate.units.map((u) => (
+                    <tr key={u.row} className="border-b align-top">
+                      <td className="py-2 pr-2 font-semibold">
+                        {u.unitNumber || "—"}
+                      </td>
+                      <td className="py-2 pr-2">
+                        <div className="font-mono text-xs">{u.quote.vin}</div>
+                        <div className="text-gray-600">{u.quote.vehicle}</div>
+                        {u.quote.decodeStatus !== "decoded" && (
+                          <div className="text-xs text-amber-700">
+                            {u.quote.decodeStatus === "failed"
+                              ? "VIN lookup failed – decoded offline"
+                              : "Decoded offline"}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-xs">
+                        {u.quote.repairs.map((r, idx) => (
+                          <div key={idx}>
+                            {r.operation}{" "}
+                            <span className="text-gray-500">
+                              {fmt.money(r.totalCost)}
+                            </span>
+                          </div>
+                        ))}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {fmt.hours(
+                          u.quote.repairs.reduce((h, r) => h + r.srtHours, 0)
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        {fmt.money(u.quote.totals.quoteTotal)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="mt-4 ml-auto max-w-xs text-sm space-y-1">
+              <div className="flex justify-between">
+                <span>SRT Hours:</span>
+                <span>{fmt.hours(estimate.totals.srtHours)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Subtotal:</span>
+                <span>{fmt.money(estimate.totals.subtotal)}</span>
+              </div>
+              {estimate.totals.feesTotal > 0 && (
+                <div className="flex justify-between">
+                  <span>Fees:</span>
+                  <span>{fmt.money(estimate.totals.feesTotal)}</span>
+                </div>
+              )}
+              {estimate.totals.taxTotal > 0 && (
+                <div className="flex justify-between">
+                  <span>Tax:</span>
+                  <span>{fmt.money(estimate.totals.taxTotal)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-bold text-base border-t pt-1">
+                <span>Fleet Total:</span>
+                <span>{fmt.money(estimate.totals.quoteTotal)}</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SignedOut } from "@/lib/auth/types";
+
+// Sign-in, or first-run setup of the shop's manager account when no users
+// exist yet.
+
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  // Only same-site paths, so the link can't bounce someone elsewhere.
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+export default function Login() {
+  const [needsSetup, setNeedsSetup] = useState<boolean | null>(null);
+  const [name, setName] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then(async (res) => {
+        if (res.ok) {
+          window.location.replace(nextPath());
+          return;
+        }
+        const body = (await res.json()) as SignedOut;
+        setNeedsSetup(body.needsSetup);
+      })
+      .catch((err) => {
+        console.error(err);
+        setNeedsSetup(false);
+      });
+  }, []);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      const res = await fetch(
+        needsSetup ? "/api/auth/setup" : "/api/auth/login",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name, username, password }),
+        }
+      );
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        setError(body?.error || "Could not sign in.");
+        return;
+      }
+      // A full load so every page starts with the new session.
+      window.location.replace(nextPath());
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while signing in.");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const inputClass = "w-full p-2 border rounded-lg";
+
+  return (
+    <main className="flex flex-col items-center justify-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-sm">
+        <h1 className="text-2xl font-bold mb-1">
+          {needsSetup ? "Set up VINQuoter" : "Sign in"}
+        </h1>
+        <p className="text-gray-600 text-sm mb-6">
+          {needsSetup
+            ? "Create the shop's first manager account. Managers add everyone else from the Users page."
+            : "Sign in with your shop account."}
+        </p>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {needsSetup === null ? (
+          <p className="text-gray-500 text-sm text-center">Loading...</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {needsSetup && (
+              <div>
+                <label className="block mb-1 font-medium">Your name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className={inputClass}
+                  autoComplete="name"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block mb-1 font-medium">Username</label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className={inputClass}
+                autoComplete="username"
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="block mb-1 font-medium">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+                autoComplete={needsSetup ? "new-password" : "current-password"}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={submitting || !username || !password}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white py-2 rounded-lg font-semibold"
+            >
+              {submitting
+                ? "Signing in..."
+                : needsSetup
+                ? "Create manager account"
+                : "Sign in"}
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
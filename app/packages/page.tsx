@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useShopFormat } from "@/app/use-shop-format";
+import type { Applicability } from "@/lib/catalog/operations";
+import type { PackageSummary } from "@/lib/packages/types";
+
+function describeVehicles(a: Applicability | undefined): string {
+  if (!a) return "All vehicles";
+  const years =
+    a.yearFrom && a.yearTo
+      ? `${a.yearFrom}–${a.yearTo}`
+      : a.yearFrom
+      ? `${a.yearFrom}+`
+      : a.yearTo
+      ? `up to ${a.yearTo}`
+      : "";
+  return (
+    [
+      a.makes?.join("/"),
+      a.models?.join("/"),
+      a.engineFamilies?.join("/"),
+      years,
+    ]
+      .filter(Boolean)
+      .join(" · ") || "All vehicles"
+  );
+}
+
+export default function Packages() {
+  const [packages, setPackages] = useState<PackageSummary[]>([]);
+  const fmt = useShopFormat();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/packages")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load packages.");
+        return res.json() as Promise<{ packages: PackageSummary[] }>;
+      })
+      .then((data) => setPackages(data.packages))
+      .catch((err) => {
+        console.error(err);
+        setError("Something went wrong while loading packages.");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  async function handleDelete(p: PackageSummary) {
+    if (!window.confirm(`Delete the "${p.name}" template?`)) return;
+
+    const res = await fetch(`/api/packages/${encodeURIComponent(p.id)}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      setError(body?.error || `Could not delete ${p.name}.`);
+      return;
+    }
+    setPackages((prev) => prev.filter((item) => item.id !== p.id));
+  }
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-5xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Service Packages</h1>
+            <p className="text-gray-600 text-sm">
+              Canned groups of operations to drop into a quote in one click.
+              Save your own from any quote with &ldquo;Save these lines as a
+              template&rdquo;.
+            </p>
+          </div>
+          <Link href="/" className="text-xs text-blue-600 underline">
+            Back to quotes
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500 text-sm text-center">
+            Loading packages...
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2">Package</th>
+                <th className="py-2 pr-2">Operations</th>
+                <th className="py-2 pr-2">Vehicles</th>
+                <th className="py-2 pr-2 text-right">Price</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {packages.map((p) => (
+                <tr key={p.id} className="border-b align-top">
+                  <td className="py-2 pr-2">
+                    <div className="font-semibold">{p.name}</div>
+                    <div className="text-xs text-gray-500">{p.description}</div>
+                  </td>
+                  <td className="py-2 pr-2 text-xs">
+                    {p.operations.map((op, idx) => (
+                      <div key={idx}>{op}</div>
+                    ))}
+                  </td>
+                  <td className="py-2 pr-2 text-xs">
+                    {describeVehicles(p.appliesTo)}
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    {p.fixedPrice !== null
+                      ? fmt.money(p.fixedPrice)
+                      : "SRT × rate"}
+                  </td>
+                  <td className="py-2 text-right">
+                    {p.builtIn ? (
+                      <span className="text-xs text-gray-400">Built-in</span>
+                    ) : (
+                      <button
+                        onClick={() => handleDelete(p)}
+                        className="text-red-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </main>
+  );
+}
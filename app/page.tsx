@@ -1,66 +1,583 @@
 "use client";
 
-import { useState, useMemo } from "react";
-
-type RepairLine = {
-  operation: string;
-  srtHours: number;
-  laborRate: number;
-  laborCost: number;
-  partsCost: number;
-  totalCost: number;
+import {
+  useEffect,
+  useEffectEvent,
+  useState,
+  useMemo,
+  useSyncExternalStore,
+} from "react";
+import Link from "next/link";
+import type { ManagerApproval } from "@/lib/auth/types";
+import type { Customer, CustomerSummary } from "@/lib/customers/types";
+import { splitDtcList } from "@/lib/diagnostics/dtc";
+import type { OperationSuggestion } from "@/lib/diagnostics/types";
+import { createFormatter } from "@/lib/i18n/format";
+import { templateValues } from "@/lib/messaging/templates";
+import {
+  CURRENCIES,
+  DEFAULT_FORMAT,
+  LOCALES,
+  languageOf,
+  type CurrencyCode,
+  type LocaleCode,
+} from "@/lib/i18n/locales";
+import { MESSAGES } from "@/lib/i18n/messages";
+import {
+  clearDraft,
+  clearPendingSave,
+  clearRejectedSave,
+  isNetworkError,
+  keepRejectedSave,
+  loadDraft,
+  pendingSaves,
+  queueSave,
+  rejectedSaves,
+  saveDraft,
+  type EditorDraft,
+  type RejectedSave,
+} from "@/lib/quotes/local-draft";
+import {
+  QUOTE_LIMITS,
+  validateQuoteInput,
+  validateQuoteRequest,
+} from "@/lib/quotes/schema";
+import { STATUS_LABELS, allowedTransitions } from "@/lib/quotes/status";
+import type {
+  PartInput,
+  QuoteApiError,
+  QuoteConflict,
+  QuoteFieldError,
+  QuoteInput,
+  QuoteRequest,
+  QuoteResponse,
+  QuoteStatus,
+  QuoteTotals,
+  RepairLine,
+  SavedQuote,
+} from "@/lib/quotes/types";
+import type { PackageLine, PackageSummary } from "@/lib/packages/types";
+import type { PartRecord } from "@/lib/parts/types";
+import { partFromRecord } from "@/lib/parts/price-list";
+import { NO_FEES, defaultFeeCodes } from "@/lib/pricing/fees";
+import { priceLine, priceQuote } from "@/lib/pricing/pricing";
+import { markupForCost } from "@/lib/settings/markup-matrix";
+import { BASE_RATE_CLASS, rateForClass } from "@/lib/settings/rate-classes";
+import type { SettingsResponse } from "@/lib/settings/types";
+import { decodeVin } from "@/lib/vin/decode";
+import { offlineVehicle } from "@/lib/vin/offline";
+import type { Vehicle } from "@/lib/vin/vehicle";
+import {
+  coverageFor,
+  coverageStatus,
+  openCampaigns,
+} from "@/lib/warranty/coverage";
+import type { LineCoverage, WarrantyLookup } from "@/lib/warranty/types";
+import { WORK_ORDER_STATUS_LABELS } from "@/lib/workorders/hours";
+import type { WorkOrderSummary } from "@/lib/workorders/types";
+import SendQuote from "./send-quote";
+import { useUndoable } from "./use-undoable";
+
+// Status, approval and audit trail of a saved quote; set by the server only.
+type QuoteLifecycle = Pick<
+  SavedQuote,
+  | "revision"
+  | "status"
+  | "expiresAt"
+  | "approvalToken"
+  | "approval"
+  | "history"
+  | "deliveries"
+  | "createdBy"
+  | "updatedBy"
+>;
+
+const STATUS_ACTIONS: Record<QuoteStatus, string> = {
+  draft: "Return to Draft",
+  sent: "Mark as Sent",
+  approved: "Mark Approved",
+  declined: "Mark Declined",
+  expired: "Mark Expired",
+  converted: "Convert to Work Order",
 };
 
-type QuoteResponse = {
-  vin: string;
-  vehicle: string;
-  repairs: RepairLine[];
-  totals: {
-    laborCost: number;
-    partsCost: number;
-    grandTotal: number;
+function lifecycleOf(saved: SavedQuote): QuoteLifecycle {
+  return {
+    revision: saved.revision,
+    status: saved.status,
+    expiresAt: saved.expiresAt,
+    approvalToken: saved.approvalToken,
+    approval: saved.approval,
+    history: saved.history,
+    deliveries: saved.deliveries,
+    createdBy: saved.createdBy,
+    updatedBy: saved.updatedBy,
   };
+}
+
+// The vehicle block shown on the quote – from /api/quote or a saved quote.
+type QuoteVehicle = Pick<QuoteResponse, "vin" | "vehicle"> & {
+  vehicleDetails: Vehicle | null;
 };
 
+// Field path ("repairs.0.srtHours") → message, first problem per field.
+type FieldErrors = Record<string, string>;
+
+function byField(errors: QuoteFieldError[]): FieldErrors {
+  const result: FieldErrors = {};
+  for (const e of errors) result[e.field] ??= e.message;
+  return result;
+}
+
+function FieldMessage({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-red-600 mt-1">{message}</p>;
+}
+
+// A quote line as a reusable template line: what was done, not its price.
+function toPackageLine(line: RepairLine): PackageLine {
+  return {
+    operationCode: line.operationCode,
+    operation: line.operation,
+    rateClass: line.rateClass,
+    srtHours: line.srtHours,
+    parts: line.parts.map((p) => ({
+      partNumber: p.partNumber,
+      description: p.description,
+      vendor: p.vendor,
+      quantity: p.quantity,
+      unitCost: p.unitCost,
+      coreCharge: p.coreCharge,
+    })),
+  };
+}
+
+async function fetchCustomer(id: string): Promise<Customer> {
+  const res = await fetch(`/api/customers/${encodeURIComponent(id)}`);
+  if (!res.ok) throw new Error("Customer not found.");
+  return (await res.json()) as Customer;
+}
+
+// Field order is fixed so two inputs can be compared as JSON.
+function toQuoteInput(v: QuoteInput): QuoteInput {
+  return {
+    quoteNumber: v.quoteNumber,
+    shopName: v.shopName,
+    vin: v.vin,
+    vehicle: v.vehicle,
+    vehicleDetails: v.vehicleDetails,
+    customerId: v.customerId,
+    unitId: v.unitId,
+    customerName: v.customerName,
+    unitNumber: v.unitNumber,
+    odometer: v.odometer,
+    engineHours: v.engineHours,
+    dtcs: v.dtcs,
+    notes: v.notes,
+    laborRate: v.laborRate,
+    partsDiscountPercent: v.partsDiscountPercent,
+    marginPercent: v.marginPercent,
+    terms: v.terms,
+    taxExempt: v.taxExempt,
+    feeCodes: v.feeCodes,
+    currency: v.currency,
+    locale: v.locale,
+    repairs: v.repairs,
+  };
+}
+
+// A saved quote as the editor holds it, older quotes' gaps filled in.
+function savedInput(saved: SavedQuote): QuoteInput {
+  return toQuoteInput({
+    ...saved,
+    customerId: saved.customerId ?? null,
+    unitId: saved.unitId ?? null,
+    odometer: saved.odometer ?? null,
+    engineHours: saved.engineHours ?? null,
+    dtcs: saved.dtcs ?? [],
+    partsDiscountPercent: saved.partsDiscountPercent ?? 0,
+    currency: saved.currency ?? DEFAULT_FORMAT.currency,
+    locale: saved.locale ?? DEFAULT_FORMAT.locale,
+  });
+}
+
+function sendSave(savedQuoteId: string | null, body: object) {
+  return fetch(savedQuoteId ? `/api/quotes/${savedQuoteId}` : "/api/quotes", {
+    method: savedQuoteId ? "PUT" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+// One line for a save the server turned down, to show next to it later.
+function rejectionMessage(body: QuoteApiError | null): string {
+  if (body?.errors?.some((e) => e.code === "CONFLICT")) {
+    return "Someone else saved this quote in the meantime.";
+  }
+  return (
+    body?.errors?.map((e) => e.message).join(" ") ||
+    body?.error ||
+    "Failed to save quote."
+  );
+}
+
+function subscribeOnline(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+const AUTOSAVE_MS = 500;
+
 export default function Home() {
-  // Shop / quote level info
-  const [shopName, setShopName] = useState("VINQuoter Demo Shop");
+  // Shop / quote level info (shop defaults come from /api/settings)
+  const [settings, setSettings] = useState<SettingsResponse | null>(null);
+  const [shopName, setShopName] = useState("");
   const [quoteNumber, setQuoteNumber] = useState("");
-  const [shopLogoUrl, setShopLogoUrl] = useState("");
 
   // Form inputs
   const [vin, setVin] = useState("");
-  const [laborRate, setLaborRate] = useState<number>(165);
+  const [laborRate, setLaborRate] = useState<number>(0);
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [unitId, setUnitId] = useState<string | null>(null);
   const [customerName, setCustomerName] = useState("");
   const [unitNumber, setUnitNumber] = useState("");
+  const [odometer, setOdometer] = useState<number | null>(null);
+  const [engineHours, setEngineHours] = useState<number | null>(null);
+  // Fault codes as typed; normalized once the estimate comes back.
+  const [dtcText, setDtcText] = useState("");
   const [notes, setNotes] = useState("");
-  const [partsMarkupPercent, setPartsMarkupPercent] = useState<number>(0);
+  const [partsDiscountPercent, setPartsDiscountPercent] = useState<number>(0);
   const [marginPercent, setMarginPercent] = useState<number>(0);
-  const [terms, setTerms] = useState(
-    "This estimate is based on current parts pricing and standard repair times. " +
-      "Actual invoice may vary based on additional diagnostics, parts availability, " +
-      "and unforeseen repairs. Customer authorizes repairs as listed. " +
-      "Estimate valid for 30 days."
+  const [terms, setTerms] = useState("");
+  const [taxExempt, setTaxExempt] = useState(false);
+  const [feeCodes, setFeeCodes] = useState<string[]>([]);
+  const [currency, setCurrency] = useState<CurrencyCode>(
+    DEFAULT_FORMAT.currency
   );
+  const [locale, setLocale] = useState<LocaleCode>(DEFAULT_FORMAT.locale);
+
+  // Customer registry
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [customer, setCustomer] = useState<Customer | null>(null);
 
   // App state
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [quote, setQuote] = useState<QuoteResponse | null>(null);
-  const [editableRepairs, setEditableRepairs] = useState<RepairLine[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [quote, setQuote] = useState<QuoteVehicle | null>(null);
+  const [warranty, setWarranty] = useState<
+    (WarrantyLookup & { vin: string }) | null
+  >(null);
+  const lineItems = useUndoable<RepairLine[]>([]);
+  const editableRepairs = lineItems.value;
+  const [suggestions, setSuggestions] = useState<OperationSuggestion[]>([]);
+  const [savedQuoteId, setSavedQuoteId] = useState<string | null>(null);
+  const [lifecycle, setLifecycle] = useState<QuoteLifecycle | null>(null);
+  const [workOrder, setWorkOrder] = useState<WorkOrderSummary | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+
+  // Local autosave and offline saves. baseUpdatedAt is the server version
+  // the edits started from; cleanJson is that version's form, to tell
+  // whether there's anything unsaved.
+  const [ready, setReady] = useState(false);
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState<string | null>(null);
+  const [cleanJson, setCleanJson] = useState<string | null>(null);
+  const [recoveredAt, setRecoveredAt] = useState<string | null>(null);
+  const [offlineKey, setOfflineKey] = useState<string | null>(null);
+  const [rejected, setRejected] = useState<RejectedSave[]>([]);
+  const [conflict, setConflict] = useState<QuoteConflict | null>(null);
+  const online = useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true
+  );
+
+  // Set when a save overrides pricing and needs a manager to sign off.
+  const [approvalNeeded, setApprovalNeeded] = useState(false);
+  const [managerUsername, setManagerUsername] = useState("");
+  const [managerPassword, setManagerPassword] = useState("");
+
+  // Service packages for this vehicle, and the save-as-template form.
+  const [packages, setPackages] = useState<PackageSummary[]>([]);
+  const [packagesVersion, setPackagesVersion] = useState(0);
+  const [insertingPackage, setInsertingPackage] = useState<string | null>(null);
+  const [templateOpen, setTemplateOpen] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [templateFixedPrice, setTemplateFixedPrice] = useState("");
+  const [templateForModel, setTemplateForModel] = useState(false);
+
+  // Load shop defaults, then reopen a saved quote from the history page
+  // (/?quote=<id>) if there is one. Unsaved edits from last time are put
+  // back on top; saving them still checks nobody else saved in between.
+  const onQuoteLoaded = useEffectEvent(loadSavedQuote);
+  const onLoadFinished = useEffectEvent((id: string | null) => {
+    const draft = loadDraft(id);
+    if (draft) recoverDraft(draft);
+    setRejected(rejectedSaves());
+    setReady(true);
+  });
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("quote");
+
+    fetch("/api/settings")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load shop settings.");
+        return res.json() as Promise<SettingsResponse>;
+      })
+      .then((data) => {
+        setSettings(data);
+        applyShopDefaults(data);
+        if (!id) return;
+
+        return fetch(`/api/quotes/${encodeURIComponent(id)}`)
+          .then((res) => {
+            if (!res.ok) throw new Error("Quote not found.");
+            return res.json() as Promise<SavedQuote>;
+          })
+          .then(onQuoteLoaded);
+      })
+      .catch((err) => {
+        console.error(err);
+        setError(
+          id
+            ? "Could not open the saved quote."
+            : "Could not load shop settings."
+        );
+      })
+      .then(() => onLoadFinished(id));
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/customers")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load customers.");
+        return res.json() as Promise<{ customers: CustomerSummary[] }>;
+      })
+      .then((data) => setCustomers(data.customers))
+      .catch((err) => console.error(err));
+  }, []);
+
+  const vehicleMake = quote?.vehicleDetails?.make ?? "";
+  const vehicleModel = quote?.vehicleDetails?.model ?? "";
+  const vehicleEngine = quote?.vehicleDetails?.engine ?? "";
+  const vehicleYear = quote?.vehicleDetails?.modelYear ?? null;
+  useEffect(() => {
+    const query = new URLSearchParams({
+      make: vehicleMake,
+      model: vehicleModel,
+      engine: vehicleEngine,
+      year: vehicleYear ? String(vehicleYear) : "",
+    });
+    fetch(`/api/packages?${query}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load packages.");
+        return res.json() as Promise<{ packages: PackageSummary[] }>;
+      })
+      .then((data) => setPackages(data.packages))
+      .catch((err) => console.error(err));
+  }, [vehicleMake, vehicleModel, vehicleEngine, vehicleYear, packagesVersion]);
+
+  // Coverage for a reopened quote; a new one gets it with the estimate.
+  const quoteVin = quote?.vin ?? "";
+  const warrantyVin = warranty?.vin;
+  useEffect(() => {
+    if (!quoteVin || warrantyVin === quoteVin) return;
+
+    fetch(`/api/warranty/${encodeURIComponent(quoteVin)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load warranty coverage.");
+        return res.json() as Promise<WarrantyLookup>;
+      })
+      .then((data) => setWarranty({ ...data, vin: quoteVin }))
+      .catch((err) => console.error(err));
+  }, [quoteVin, warrantyVin]);
+
+  // Converted quotes link through to their work order.
+  const lifecycleStatus = lifecycle?.status;
+  useEffect(() => {
+    if (!savedQuoteId || lifecycleStatus !== "converted") return;
+
+    fetch(`/api/work-orders?quoteId=${encodeURIComponent(savedQuoteId)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load the work order.");
+        return res.json() as Promise<{ workOrders: WorkOrderSummary[] }>;
+      })
+      .then((data) => setWorkOrder(data.workOrders[0] ?? null))
+      .catch((err) => console.error(err));
+  }, [savedQuoteId, lifecycleStatus]);
+
+  function applyShopDefaults(s: SettingsResponse) {
+    setShopName(s.shopName);
+    setLaborRate(s.defaultLaborRate);
+    setPartsDiscountPercent(0);
+    setMarginPercent(s.defaultMarginPercent);
+    setTerms(s.defaultTerms);
+    setTaxExempt(false);
+    setFeeCodes(defaultFeeCodes(s.fees));
+    setCurrency(s.currency);
+    setLocale(s.locale);
+  }
+
+  function applyInput(input: QuoteInput, hasVehicle: boolean) {
+    setQuoteNumber(input.quoteNumber);
+    setShopName(input.shopName);
+    setVin(input.vin);
+    setLaborRate(input.laborRate);
+    setCustomerId(input.customerId);
+    setUnitId(input.unitId);
+    setCustomerName(input.customerName);
+    setUnitNumber(input.unitNumber);
+    setOdometer(input.odometer);
+    setEngineHours(input.engineHours);
+    setDtcText(input.dtcs.join(", "));
+    setNotes(input.notes);
+    setPartsDiscountPercent(input.partsDiscountPercent);
+    setMarginPercent(input.marginPercent);
+    setTerms(input.terms);
+    setTaxExempt(input.taxExempt);
+    setFeeCodes(input.feeCodes);
+    setCurrency(input.currency ?? DEFAULT_FORMAT.currency);
+    setLocale(input.locale ?? DEFAULT_FORMAT.locale);
+    setQuote(
+      hasVehicle
+        ? {
+            vin: input.vin,
+            vehicle: input.vehicle,
+            vehicleDetails: input.vehicleDetails,
+          }
+        : null
+    );
+    lineItems.reset(input.repairs);
+    setSuggestions([]);
+
+    // Load the customer's units for the picker, keeping the saved pricing.
+    setCustomer(null);
+    if (input.customerId) {
+      fetchCustomer(input.customerId)
+        .then(setCustomer)
+        .catch((err) => console.error(err));
+    }
+  }
+
+  function applyLifecycle(saved: SavedQuote) {
+    setLifecycle(lifecycleOf(saved));
+    setBaseUpdatedAt(saved.updatedAt);
+  }
+
+  function loadSavedQuote(saved: SavedQuote) {
+    const input = savedInput(saved);
+    applyInput(input, true);
+    setSavedQuoteId(saved.id);
+    applyLifecycle(saved);
+    setCleanJson(JSON.stringify(input));
+    setConflict(null);
+    setRecoveredAt(null);
+  }
+
+  function recoverDraft(draft: EditorDraft) {
+    applyInput(draft.input, draft.hasVehicle);
+    setVin(draft.vinField);
+    setSavedQuoteId(draft.savedQuoteId);
+    setBaseUpdatedAt(draft.baseUpdatedAt);
+    setOfflineKey(draft.pendingKey);
+    setRecoveredAt(draft.savedAt);
+  }
+
+  // Back to the last saved version, or an empty form for a new quote.
+  async function handleDiscardDraft() {
+    clearDraft(savedQuoteId);
+    setRecoveredAt(null);
+    if (!savedQuoteId) {
+      handleReset();
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/quotes/${savedQuoteId}`);
+      if (!res.ok) throw new Error("Quote not found.");
+      loadSavedQuote((await res.json()) as SavedQuote);
+    } catch (err) {
+      console.error(err);
+      setError("Could not reload the saved quote.");
+    }
+  }
+
+  // Picking a customer fills in their negotiated pricing; clearing it goes
+  // back to the shop defaults.
+  async function handleCustomerSelect(id: string) {
+    setUnitId(null);
+    setUnitNumber("");
+
+    if (!id) {
+      setCustomer(null);
+      setCustomerId(null);
+      setCustomerName("");
+      setPartsDiscountPercent(0);
+      setTaxExempt(false);
+      if (settings) handleLaborRateChange(settings.defaultLaborRate);
+      return;
+    }
+
+    try {
+      const c = await fetchCustomer(id);
+      setCustomer(c);
+      setCustomerId(c.id);
+      setCustomerName(c.name);
+      setPartsDiscountPercent(c.partsDiscountPercent);
+      setTaxExempt(c.taxExempt);
+      handleLaborRateChange(c.laborRate ?? settings?.defaultLaborRate ?? 0);
+    } catch (err) {
+      console.error(err);
+      setError("Could not load that customer.");
+    }
+  }
+
+  function handleUnitSelect(id: string) {
+    const unit = customer?.units.find((u) => u.id === id);
+    setUnitId(unit?.id ?? null);
+    setUnitNumber(unit?.unitNumber ?? "");
+    if (unit?.vin) setVin(unit.vin);
+  }
+
+  function showProblems(problems: QuoteFieldError[]) {
+    setFieldErrors(byField(problems));
+    setError(
+      problems.length === 1
+        ? problems[0].message
+        : "Some fields need fixing – see the messages below each one."
+    );
+  }
 
   async function handleGetQuote() {
     setError(null);
+    setFieldErrors({});
     setQuote(null);
-    setEditableRepairs([]);
+    lineItems.reset([]);
+    setSuggestions([]);
+    setSaveMessage(null);
 
-    if (!vin || vin.trim().length < 8) {
-      setError("Please enter a valid VIN (at least 8 characters).");
-      return;
-    }
+    const request: QuoteRequest = {
+      vin,
+      customerId: customerId ?? undefined,
+      dtcs: splitDtcList(dtcText),
+      odometer: odometer ?? undefined,
+      engineHours: engineHours ?? undefined,
+      laborRate,
+      partsDiscountPercent,
+      marginPercent,
+      taxExempt,
+      feeCodes,
+    };
 
-    if (!laborRate || laborRate <= 0) {
-      setError("Please enter a valid labor rate greater than 0.");
+    // Same schema as the server, so most mistakes never leave the page.
+    const problems = validateQuoteRequest(request);
+    if (problems.length) {
+      showProblems(problems);
       return;
     }
 
@@ -69,18 +586,38 @@ export default function Home() {
       const res = await fetch("/api/quote", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ vin, laborRate }),
+        body: JSON.stringify(request),
       });
 
       if (!res.ok) {
-        throw new Error("Failed to fetch quote.");
+        const body = (await res.json().catch(() => null)) as QuoteApiError;
+        if (body?.errors?.length) showProblems(body.errors);
+        else setError(body?.error || "Could not generate the quote.");
+        return;
       }
 
       const data = (await res.json()) as QuoteResponse;
       setQuote(data);
-      setEditableRepairs(data.repairs);
+      setWarranty({ ...data.warranty, vin: data.vin });
+      setDtcText(data.dtcs.join(", "));
+      setSuggestions(data.suggestions);
+      lineItems.reset(data.repairs);
     } catch (err) {
       console.error(err);
+      // Offline: decode the VIN here and let the lines be added by hand.
+      const decoded = decodeVin(vin).decoded;
+      if (isNetworkError(err) && decoded) {
+        const vehicle = offlineVehicle(decoded, "failed");
+        setQuote({
+          vin: decoded.vin,
+          vehicle: vehicle.description,
+          vehicleDetails: vehicle,
+        });
+        setSaveMessage(
+          "You're offline – the VIN was decoded on this device. Add line items by hand; catalog operations need a connection."
+        );
+        return;
+      }
       setError("Something went wrong while generating the quote.");
     } finally {
       setLoading(false);
@@ -88,99 +625,623 @@ export default function Home() {
   }
 
   function handleReset() {
+    if (settings) applyShopDefaults(settings);
     setVin("");
-    setLaborRate(165);
+    setCustomer(null);
+    setCustomerId(null);
+    setUnitId(null);
     setCustomerName("");
     setUnitNumber("");
+    setOdometer(null);
+    setEngineHours(null);
+    setDtcText("");
+    setSuggestions([]);
     setNotes("");
-    setPartsMarkupPercent(0);
-    setMarginPercent(0);
     setQuoteNumber("");
     setQuote(null);
-    setEditableRepairs([]);
+    lineItems.reset([]);
     setError(null);
-    // keep shopName, logo, and terms – they’re more like shop settings
+    setFieldErrors({});
+    clearDraft(savedQuoteId);
+    setSavedQuoteId(null);
+    setLifecycle(null);
+    setBaseUpdatedAt(null);
+    setCleanJson(null);
+    setRecoveredAt(null);
+    setOfflineKey(null);
+    setConflict(null);
+    setSaveMessage(null);
+    setApprovalNeeded(false);
+    window.history.replaceState(null, "", "/");
+  }
+
+  const rateClasses = settings?.laborRateClasses ?? [];
+
+  // Lines in a class without its own rate (mechanical) follow the base rate.
+  function handleLaborRateChange(value: number) {
+    setLaborRate(value);
+    lineItems.set(
+      (prev) =>
+        prev.map((line) => {
+          const cls = rateClasses.find((c) => c.code === line.rateClass);
+          if (cls?.rate != null) return line;
+
+          return priceLine({ ...line, laborRate: value });
+        }),
+      "laborRate"
+    );
+  }
+
+  // The shop's own terms are written in English; other languages start from
+  // the built-in translation. Terms the user has edited are left alone.
+  function defaultTermsFor(code: LocaleCode): string {
+    const language = languageOf(code);
+    return language === "en" && settings
+      ? settings.defaultTerms
+      : MESSAGES[language].defaultTerms;
+  }
+
+  function handleLocaleChange(value: LocaleCode) {
+    if (terms === defaultTermsFor(locale)) setTerms(defaultTermsFor(value));
+    setLocale(value);
   }
 
   function handleRepairChange(
     index: number,
-    field: "operation" | "srtHours" | "partsCost",
+    field: "operation" | "rateClass" | "srtHours",
     value: string
   ) {
-    setEditableRepairs((prev) => {
+    lineItems.set((prev) => {
       const next = [...prev];
       const line = { ...next[index] };
 
       if (field === "operation") {
         line.operation = value;
+      } else if (field === "rateClass") {
+        line.rateClass = value;
+        line.laborRate = rateForClass(rateClasses, value, laborRate);
       } else if (field === "srtHours") {
         const num = Number(value);
         line.srtHours = isNaN(num) ? 0 : num;
-      } else if (field === "partsCost") {
-        const num = Number(value);
-        line.partsCost = isNaN(num) ? 0 : num;
       }
 
-      line.laborCost = line.srtHours * line.laborRate;
-      line.totalCost = line.laborCost + line.partsCost;
-
-      next[index] = line;
+      next[index] = priceLine(line);
       return next;
-    });
+    }, `${index}.${field}`);
   }
 
   function handleAddLine() {
-    setEditableRepairs((prev) => [
+    lineItems.set((prev) => [
       ...prev,
-      {
+      priceLine({
         operation: "Custom Operation",
+        rateClass: BASE_RATE_CLASS,
         srtHours: 1,
         laborRate,
-        laborCost: laborRate * 1,
-        partsCost: 0,
-        totalCost: laborRate * 1,
+        parts: [],
+      }),
+    ]);
+  }
+
+  async function handleInsertPackage(pkg: PackageSummary) {
+    setError(null);
+    setInsertingPackage(pkg.id);
+    try {
+      const res = await fetch(
+        `/api/packages/${encodeURIComponent(pkg.id)}/lines`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            vehicle: quote?.vehicleDetails ?? null,
+            customerId: customerId ?? undefined,
+            laborRate,
+          }),
+        }
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body?.error || `Could not insert ${pkg.name}.`);
+        return;
+      }
+      const { repairs } = body as { repairs: RepairLine[] };
+      lineItems.set((prev) => [...prev, ...repairs]);
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while inserting the package.");
+    } finally {
+      setInsertingPackage(null);
+    }
+  }
+
+  async function handleSaveTemplate() {
+    const details = quote?.vehicleDetails;
+    setError(null);
+    try {
+      const res = await fetch("/api/packages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: templateName,
+          description: `Saved from ${quoteNumber || "a quote"} (${
+            quote?.vehicle ?? "any vehicle"
+          }).`,
+          fixedPrice: templateFixedPrice,
+          appliesTo:
+            templateForModel && details?.make
+              ? {
+                  makes: [details.make],
+                  models: details.model ? [details.model] : undefined,
+                }
+              : undefined,
+          lines: editableRepairs.map(toPackageLine),
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body?.error || "Could not save the template.");
+        return;
+      }
+      setTemplateOpen(false);
+      setTemplateName("");
+      setTemplateFixedPrice("");
+      setSaveMessage(`Saved template "${templateName.trim()}".`);
+      setPackagesVersion((v) => v + 1);
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while saving the template.");
+    }
+  }
+
+  // Back to SRT × rate for a line inserted from a fixed-price package.
+  function handleBillBySrt(index: number) {
+    lineItems.set((prev) =>
+      prev.map((line, i) =>
+        i === index
+          ? priceLine({ ...line, fixedLabor: undefined, packageId: undefined })
+          : line
+      )
+    );
+  }
+
+  const markupMatrix = settings?.partsMarkupMatrix ?? [];
+
+  function updateParts(
+    lineIndex: number,
+    update: (parts: PartInput[]) => PartInput[],
+    group: string | null = null
+  ) {
+    lineItems.set(
+      (prev) =>
+        prev.map((line, i) =>
+          i === lineIndex
+            ? priceLine({ ...line, parts: update(line.parts) })
+            : line
+        ),
+      group
+    );
+  }
+
+  function handleAddPart(lineIndex: number) {
+    updateParts(lineIndex, (parts) => [
+      ...parts,
+      {
+        partNumber: "",
+        description: "",
+        vendor: "",
+        quantity: 1,
+        unitCost: 0,
+        coreCharge: 0,
+        markupPercent: markupForCost(markupMatrix, 0),
       },
     ]);
   }
 
+  function handleRemovePart(lineIndex: number, partIndex: number) {
+    updateParts(lineIndex, (parts) => parts.filter((_, i) => i !== partIndex));
+  }
+
+  // A new unit cost picks up the matrix markup for its tier.
+  function handlePartChange(
+    lineIndex: number,
+    partIndex: number,
+    patch: Partial<PartInput>
+  ) {
+    updateParts(
+      lineIndex,
+      (parts) =>
+        parts.map((part, i) => {
+          if (i !== partIndex) return part;
+          const next = { ...part, ...patch };
+          if (patch.unitCost !== undefined) {
+            next.markupPercent = markupForCost(markupMatrix, next.unitCost);
+          }
+          return next;
+        }),
+      `${lineIndex}.parts.${partIndex}.${Object.keys(patch).join()}`
+    );
+  }
+
+  // Fill in a part from the shop's price list when the number is known.
+  async function handlePartLookup(
+    lineIndex: number,
+    partIndex: number,
+    partNumber: string
+  ) {
+    if (!partNumber.trim()) return;
+
+    try {
+      const res = await fetch(`/api/parts/${encodeURIComponent(partNumber)}`);
+      if (!res.ok) return;
+      const record = (await res.json()) as PartRecord;
+      updateParts(lineIndex, (parts) =>
+        parts.map((part, i) =>
+          i === partIndex
+            ? partFromRecord(record, markupMatrix, part.quantity)
+            : part
+        )
+      );
+    } catch (err) {
+      console.error(err);
+    }
+  }
+
+  function handleFeeToggle(code: string, enabled: boolean) {
+    setFeeCodes((prev) =>
+      enabled ? [...prev, code] : prev.filter((c) => c !== code)
+    );
+  }
+
+  function handleAcceptSuggestion(suggestion: OperationSuggestion) {
+    lineItems.set((prev) => [...prev, suggestion.line]);
+    handleRejectSuggestion(suggestion);
+  }
+
+  function handleRejectSuggestion(suggestion: OperationSuggestion) {
+    setSuggestions((prev) => prev.filter((s) => s !== suggestion));
+  }
+
+  // Paid by warranty or a campaign: still on the quote, not in the totals.
+  function handleLineCoverage(index: number, coverage?: LineCoverage) {
+    lineItems.set((prev) =>
+      prev.map((line, i) =>
+        i === index ? { ...line, warranty: coverage } : line
+      )
+    );
+  }
+
   function handleRemoveLine(index: number) {
-    setEditableRepairs((prev) => prev.filter((_, i) => i !== index));
-  }
-
-  const computedTotals = useMemo(() => {
-    if (!editableRepairs.length) {
-      return {
-        laborCost: 0,
-        partsCost: 0,
-        partsWithMarkup: 0,
-        baseGrandTotal: 0,
-        finalGrandTotal: 0,
-      };
+    lineItems.set((prev) => prev.filter((_, i) => i !== index));
+    // Line errors are keyed by position, which just shifted.
+    setFieldErrors({});
+  }
+
+  const computedTotals = useMemo(
+    (): QuoteTotals =>
+      priceQuote(editableRepairs, {
+        partsDiscountPercent,
+        marginPercent,
+        fees: settings?.fees ?? NO_FEES,
+        taxExempt,
+        feeCodes,
+      }).totals,
+    [
+      editableRepairs,
+      partsDiscountPercent,
+      marginPercent,
+      settings,
+      taxExempt,
+      feeCodes,
+    ]
+  );
+
+  const fmt = useMemo(
+    () => createFormatter({ currency, locale }),
+    [currency, locale]
+  );
+
+  // What a save sends, and what autosave keeps on this device.
+  const editorInput = toQuoteInput({
+    quoteNumber,
+    shopName,
+    vin: quote?.vin ?? "",
+    vehicle: quote?.vehicle ?? "",
+    vehicleDetails: quote?.vehicleDetails ?? null,
+    customerId,
+    unitId,
+    customerName,
+    unitNumber,
+    odometer,
+    engineHours,
+    dtcs: splitDtcList(dtcText),
+    notes,
+    laborRate,
+    partsDiscountPercent,
+    marginPercent,
+    terms,
+    taxExempt,
+    feeCodes,
+    currency,
+    locale,
+    repairs: editableRepairs,
+  });
+  const dtcError = Object.entries(fieldErrors).find(
+    ([field]) => field === "dtcs" || field.startsWith("dtcs.")
+  )?.[1];
+  const warrantyRecord =
+    warranty?.vin === quote?.vin ? warranty?.record ?? null : null;
+  const editorJson = JSON.stringify(editorInput);
+  const hasVehicle = quote !== null;
+
+  // A saved quote has unsaved changes once it differs from the server copy;
+  // a new one as soon as there is anything to lose.
+  const dirty =
+    cleanJson !== null
+      ? editorJson !== cleanJson
+      : hasVehicle || !!(vin.trim() || customerName.trim() || notes.trim());
+
+  useEffect(() => {
+    if (!ready) return;
+
+    const timer = setTimeout(() => {
+      if (!dirty) {
+        clearDraft(savedQuoteId);
+        return;
+      }
+      saveDraft({
+        savedQuoteId,
+        baseUpdatedAt,
+        vinField: vin,
+        hasVehicle,
+        pendingKey: offlineKey,
+        input: JSON.parse(editorJson) as QuoteInput,
+        savedAt: new Date().toISOString(),
+      });
+    }, AUTOSAVE_MS);
+    return () => clearTimeout(timer);
+  }, [
+    ready,
+    dirty,
+    editorJson,
+    savedQuoteId,
+    baseUpdatedAt,
+    vin,
+    hasVehicle,
+    offlineKey,
+  ]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Y) outside a text box, which keeps
+  // its own undo.
+  const { undo, redo } = lineItems;
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (
+        e.target instanceof Element &&
+        e.target.closest("input, textarea, select")
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undo();
+      else if (key === "y" || key === "z") redo();
+      else return;
+      e.preventDefault();
     }
 
-    const base = editableRepairs.reduce(
-      (acc, r) => {
-        acc.laborCost += r.laborCost;
-        acc.partsCost += r.partsCost;
-        return acc;
-      },
-      { laborCost: 0, partsCost: 0 }
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  // Saves queued while offline go out once the page is loaded and online.
+  const onOnline = useEffectEvent(syncPendingSaves);
+  useEffect(() => {
+    if (ready && online) onOnline();
+  }, [ready, online]);
+
+  async function handleStatusChange(status: QuoteStatus) {
+    if (!savedQuoteId) return;
+
+    setError(null);
+    setSaveMessage(null);
+    try {
+      const res = await fetch(`/api/quotes/${savedQuoteId}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body?.error || "Could not change the quote status.");
+        return;
+      }
+      applyLifecycle(body as SavedQuote);
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while changing the quote status.");
+    }
+  }
+
+  async function handleCopyApprovalLink(token: string) {
+    const url = `${window.location.origin}/approve/${token}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setSaveMessage("Approval link copied.");
+    } catch {
+      window.prompt("Copy the approval link:", url);
+    }
+  }
+
+  // The editor now shows the version the server kept.
+  function applySaved(saved: SavedQuote, input: QuoteInput) {
+    if (!savedQuoteId) clearDraft(null);
+    setSavedQuoteId(saved.id);
+    setQuoteNumber(saved.quoteNumber);
+    applyLifecycle(saved);
+    setCleanJson(
+      JSON.stringify(toQuoteInput({ ...input, quoteNumber: saved.quoteNumber }))
     );
+    setOfflineKey(null);
+    setConflict(null);
+    setRecoveredAt(null);
+    window.history.replaceState(null, "", `/?quote=${saved.id}`);
+  }
 
-    const partsWithMarkup =
-      base.partsCost * (1 + (partsMarkupPercent || 0) / 100);
-    const baseGrandTotal = base.laborCost + partsWithMarkup;
-    const finalGrandTotal =
-      baseGrandTotal * (1 + (marginPercent || 0) / 100);
-
-    return {
-      laborCost: base.laborCost,
-      partsCost: base.partsCost,
-      partsWithMarkup,
-      baseGrandTotal,
-      finalGrandTotal,
-    };
-  }, [editableRepairs, partsMarkupPercent, marginPercent]);
+  function showSaveRejection(body: QuoteApiError | null) {
+    if (body?.errors?.some((e) => e.code === "CONFLICT")) {
+      setConflict(body as QuoteConflict);
+      return;
+    }
+    if (body?.errors?.length) showProblems(body.errors);
+    else setError(body?.error || "Failed to save quote.");
+    setApprovalNeeded(!!body?.errors?.some((e) => e.code === "NEEDS_APPROVAL"));
+  }
+
+  // `expectedUpdatedAt` is the server version being overwritten; a save
+  // made elsewhere since then comes back as a conflict.
+  async function handleSaveQuote(
+    managerApproval?: ManagerApproval,
+    expectedUpdatedAt = baseUpdatedAt
+  ) {
+    if (!quote) return;
+
+    const input = editorInput;
+    setError(null);
+    setFieldErrors({});
+    const problems = validateQuoteInput(input);
+    if (problems.length) {
+      showProblems(problems);
+      return;
+    }
+
+    setSaving(true);
+    setSaveMessage(null);
+    setConflict(null);
+    try {
+      const res = await sendSave(savedQuoteId, {
+        ...input,
+        managerApproval,
+        expectedUpdatedAt: expectedUpdatedAt ?? undefined,
+      });
+
+      if (!res.ok) {
+        showSaveRejection(
+          (await res.json().catch(() => null)) as QuoteApiError | null
+        );
+        return;
+      }
+
+      setApprovalNeeded(false);
+      setManagerPassword("");
+
+      const saved = (await res.json()) as SavedQuote;
+      const reopened = lifecycle && lifecycle.status !== "draft";
+      applySaved(saved, input);
+      setSaveMessage(
+        reopened
+          ? `Saved quote ${saved.quoteNumber}. It's back in draft – send it again for approval.`
+          : `Saved quote ${saved.quoteNumber}.`
+      );
+    } catch (err) {
+      console.error(err);
+      if (isNetworkError(err)) {
+        const key = savedQuoteId ?? offlineKey ?? `new-${Date.now()}`;
+        queueSave({
+          key,
+          savedQuoteId,
+          expectedUpdatedAt,
+          input,
+          queuedAt: new Date().toISOString(),
+        });
+        if (!savedQuoteId) setOfflineKey(key);
+        setSaveMessage(
+          "You're offline – the save is queued on this device and goes through when the connection returns."
+        );
+        return;
+      }
+      setError("Something went wrong while saving the quote.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Replay saves queued while offline, oldest first. One the server turns
+  // down (a conflict, a failed check) is set aside and listed above the
+  // form, so nothing is lost and no other draft is written over.
+  async function syncPendingSaves() {
+    const openKey = savedQuoteId ?? offlineKey;
+    let synced = 0;
+    let kept = 0;
+
+    for (const save of pendingSaves()) {
+      let res: Response;
+      try {
+        res = await sendSave(save.savedQuoteId, {
+          ...save.input,
+          expectedUpdatedAt: save.expectedUpdatedAt ?? undefined,
+        });
+      } catch (err) {
+        console.error(err);
+        return;
+      }
+      clearPendingSave(save.key);
+      const body = await res.json().catch(() => null);
+
+      if (res.ok) {
+        synced++;
+        if (save.key === openKey) applySaved(body as SavedQuote, save.input);
+      } else if (save.key === openKey) {
+        showSaveRejection(body as QuoteApiError | null);
+      } else {
+        kept++;
+        keepRejectedSave(save, rejectionMessage(body as QuoteApiError | null));
+        setRejected(rejectedSaves());
+      }
+    }
+
+    if (synced) {
+      setSaveMessage(`Synced ${synced} save(s) made while offline.`);
+    }
+    if (kept) {
+      setError(
+        `${kept} save(s) made while offline couldn't be applied – they're listed at the top to review.`
+      );
+    }
+  }
+
+  // Reopen a turned-down offline save as its quote's local draft, to fix
+  // and save again.
+  function handleOpenRejected(save: RejectedSave) {
+    if (
+      loadDraft(save.savedQuoteId) &&
+      !window.confirm(
+        "That quote has other unsaved changes on this device. Replace them with this save?"
+      )
+    ) {
+      return;
+    }
+    saveDraft({
+      savedQuoteId: save.savedQuoteId,
+      baseUpdatedAt: save.expectedUpdatedAt,
+      vinField: save.input.vin,
+      hasVehicle: true,
+      pendingKey: null,
+      input: save.input,
+      savedAt: save.queuedAt,
+    });
+    clearRejectedSave(save.key);
+    window.location.assign(
+      save.savedQuoteId
+        ? `/?quote=${encodeURIComponent(save.savedQuoteId)}`
+        : "/"
+    );
+  }
+
+  function handleDiscardRejected(key: string) {
+    clearRejectedSave(key);
+    setRejected(rejectedSaves());
+  }
 
   return (
     <main className="flex flex-col items-center justify-center min-h-screen bg-gray-100 p-6">
@@ -188,9 +1249,9 @@ export default function Home() {
         {/* Header */}
         <div className="flex justify-between items-start gap-4 mb-6 print:flex-row print:items-start">
           <div>
-            {shopLogoUrl && (
+            {settings?.logoUrl && (
               <img
-                src={shopLogoUrl}
+                src={settings.logoUrl}
                 alt={shopName || "Shop logo"}
                 className="h-12 w-auto mb-2"
               />
@@ -198,126 +1259,511 @@ export default function Home() {
             <h1 className="text-3xl font-bold mb-1">
               {shopName || "Shop Name"}
             </h1>
-            <p className="text-gray-600 text-sm">
-              Heavy-duty service estimate
-            </p>
-            <p className="text-xs text-gray-500 mt-1">
-              Powered by <span className="font-semibold">VINQuoter.ai</span>
-            </p>
+            <p className="text-gray-600 text-sm">{fmt.t("estimateSubtitle")}</p>
+            <p className="text-xs text-gray-500 mt-1">{fmt.t("poweredBy")}</p>
           </div>
 
           <div className="flex flex-col items-end gap-2 print:items-end">
             <div className="text-sm">
-              <span className="font-semibold">Quote #:</span>{" "}
-              {quoteNumber || <span className="text-gray-400">N/A</span>}
+              <span className="font-semibold">{fmt.t("quoteNumber")}:</span>{" "}
+              {quoteNumber || (
+                <span className="text-gray-400">{fmt.t("notAvailable")}</span>
+              )}
+              {lifecycle && (
+                <span>
+                  {" "}
+                  ({fmt.t("revision")} {lifecycle.revision})
+                </span>
+              )}
             </div>
-            <button
-              onClick={() => window.print()}
-              className="bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-gray-900 print:hidden"
-            >
-              Print / Save as PDF
-            </button>
+            {savedQuoteId ? (
+              <a
+                href={`/api/quotes/${savedQuoteId}/pdf`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="bg-gray-800 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-gray-900 print:hidden"
+              >
+                View / Download PDF
+              </a>
+            ) : (
+              <span className="text-xs text-gray-500 print:hidden">
+                Save the quote to generate a PDF
+              </span>
+            )}
             <button
               onClick={handleReset}
               className="text-xs text-gray-500 underline mt-1 print:hidden"
             >
               Reset form
             </button>
+            <Link
+              href="/quotes"
+              className="text-xs text-blue-600 underline print:hidden"
+            >
+              Quote history
+            </Link>
+            <Link
+              href="/work-orders"
+              className="text-xs text-blue-600 underline print:hidden"
+            >
+              Work orders
+            </Link>
+            <Link
+              href="/customers"
+              className="text-xs text-blue-600 underline print:hidden"
+            >
+              Customers
+            </Link>
+            <Link
+              href="/fleet"
+              className="text-xs text-blue-600 underline print:hidden"
+            >
+              Fleet quote
+            </Link>
+            <Link
+              href="/parts"
+              className="text-xs text-blue-600 underline print:hidden"
+            >
+              Parts catalog
+            </Link>
+            <Link
+              href="/packages"
+              className="text-xs text-blue-600 underline print:hidden"
+            >
+              Packages
+            </Link>
+            <Link
+              href="/settings"
+              className="text-xs text-blue-600 underline print:hidden"
+            >
+              Shop settings
+            </Link>
           </div>
         </div>
 
-        {/* Shop & quote inputs (not printed) */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 print:hidden">
-          <div className="md:col-span-2">
-            <label className="block mb-2 font-medium">Shop Name</label>
-            <input
-              type="text"
-              value={shopName}
-              onChange={(e) => setShopName(e.target.value)}
-              className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
+        {!online && (
+          <div className="mb-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 p-3 rounded-lg print:hidden">
+            You&apos;re offline. Changes are kept on this device, and saves are
+            queued until the connection returns.
           </div>
-          <div>
-            <label className="block mb-2 font-medium">Quote #</label>
-            <input
-              type="text"
-              value={quoteNumber}
-              onChange={(e) => setQuoteNumber(e.target.value)}
-              placeholder="e.g. Q-1027"
-              className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
+        )}
+
+        {recoveredAt && (
+          <div className="mb-4 flex flex-wrap justify-between items-center gap-2 text-sm bg-blue-50 border border-blue-200 p-3 rounded-lg print:hidden">
+            <span>
+              Restored unsaved changes from{" "}
+              {new Date(recoveredAt).toLocaleString()}.
+            </span>
+            <span className="flex gap-3">
+              <button
+                onClick={() => setRecoveredAt(null)}
+                className="text-blue-600 underline"
+              >
+                Keep
+              </button>
+              <button
+                onClick={handleDiscardDraft}
+                className="text-gray-600 underline"
+              >
+                Discard
+              </button>
+            </span>
           </div>
-        </div>
+        )}
 
+        {rejected.length > 0 && (
+          <div className="mb-4 text-sm bg-red-50 border border-red-200 p-3 rounded-lg print:hidden">
+            <div className="font-semibold mb-1">
+              Offline saves that couldn&apos;t be applied
+            </div>
+            <ul className="space-y-1">
+              {rejected.map((save) => (
+                <li
+                  key={save.key}
+                  className="flex flex-wrap justify-between items-center gap-2"
+                >
+                  <span>
+                    {save.input.quoteNumber || "New quote"}
+                    {save.input.customerName &&
+                      ` for ${save.input.customerName}`}
+                    , saved {new Date(save.queuedAt).toLocaleString()}:{" "}
+                    <span className="text-red-600">{save.error}</span>
+                  </span>
+                  <span className="flex gap-3">
+                    <button
+                      onClick={() => handleOpenRejected(save)}
+                      className="text-blue-600 underline"
+                    >
+                      Open
+                    </button>
+                    <button
+                      onClick={() => handleDiscardRejected(save.key)}
+                      className="text-gray-600 underline"
+                    >
+                      Discard
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Status & approval (not printed) */}
+        {savedQuoteId && lifecycle && (
+          <div className="mb-4 border rounded-lg p-4 bg-gray-50 text-sm print:hidden">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+              <div>
+                <span className="font-semibold">Status:</span>{" "}
+                {STATUS_LABELS[lifecycle.status]}
+                {lifecycle.status === "sent" && lifecycle.expiresAt && (
+                  <span className="text-gray-500">
+                    {" "}
+                    – valid until{" "}
+                    {new Date(lifecycle.expiresAt).toLocaleDateString()}
+                  </span>
+                )}
+                <span className="text-gray-500">
+                  {" "}
+                  · Revision {lifecycle.revision} ·{" "}
+                  <Link
+                    href={`/quotes/${savedQuoteId}/revisions`}
+                    className="text-blue-600 underline"
+                  >
+                    Compare revisions
+                  </Link>
+                </span>
+                {lifecycle.createdBy && (
+                  <div className="text-xs text-gray-500">
+                    Created by {lifecycle.createdBy.name}
+                    {lifecycle.updatedBy &&
+                      ` · last edited by ${lifecycle.updatedBy.name}`}
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {allowedTransitions(lifecycle.status).map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => handleStatusChange(status)}
+                    className="px-3 py-1 rounded-lg border bg-white hover:bg-gray-100 text-xs font-semibold"
+                  >
+                    {STATUS_ACTIONS[status]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {lifecycle.approvalToken && (
+              <div className="mb-2">
+                <span className="font-semibold">Customer approval link:</span>{" "}
+                <a
+                  href={`/approve/${lifecycle.approvalToken}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 underline"
+                >
+                  Open
+                </a>{" "}
+                ·{" "}
+                <button
+                  onClick={() =>
+                    handleCopyApprovalLink(lifecycle.approvalToken as string)
+                  }
+                  className="text-blue-600 underline"
+                >
+                  Copy
+                </button>
+              </div>
+            )}
+
+            {settings && quote && (
+              <SendQuote
+                quoteId={savedQuoteId}
+                customer={customer}
+                templates={settings.messageTemplates}
+                values={templateValues(
+                  {
+                    shopName,
+                    quoteNumber,
+                    customerName,
+                    vehicle: quote.vehicle,
+                    totals: computedTotals,
+                    currency,
+                    locale,
+                    approvalToken: lifecycle.approvalToken,
+                  },
+                  window.location.origin
+                )}
+                deliveries={lifecycle.deliveries}
+                onSent={applyLifecycle}
+              />
+            )}
+
+            {lifecycle.status === "converted" &&
+              workOrder?.quoteId === savedQuoteId && (
+                <p className="mb-2">
+                  <span className="font-semibold">Work order:</span>{" "}
+                  <Link
+                    href={`/work-orders/${workOrder.id}`}
+                    className="text-blue-600 underline"
+                  >
+                    {workOrder.workOrderNumber}
+                  </Link>{" "}
+                  <span className="text-gray-500">
+                    ({WORK_ORDER_STATUS_LABELS[workOrder.status]})
+                  </span>
+                </p>
+              )}
+
+            {lifecycle.approval && (
+              <p className="mb-2">
+                Customer{" "}
+                {lifecycle.status === "declined" ? "declined" : "approved"}{" "}
+                {
+                  lifecycle.approval.decisions.filter((d) => d === "approved")
+                    .length
+                }{" "}
+                of {lifecycle.approval.decisions.length} line(s) for{" "}
+                {fmt.money(lifecycle.approval.approvedTotal)}, signed{" "}
+                <span className="font-serif italic">
+                  {lifecycle.approval.signature}
+                </span>{" "}
+                on {new Date(lifecycle.approval.signedAt).toLocaleString()}.
+                {editableRepairs.some(
+                  (_, i) => lifecycle.approval?.decisions[i] === "declined"
+                ) && (
+                  <span className="text-gray-600">
+                    {" "}
+                    Declined:{" "}
+                    {editableRepairs
+                      .filter(
+                        (_, i) =>
+                          lifecycle.approval?.decisions[i] === "declined"
+                      )
+                      .map((r) => r.operation)
+                      .join(", ")}
+                    .
+                  </span>
+                )}
+              </p>
+            )}
+
+            <details>
+              <summary className="cursor-pointer text-gray-600">
+                Audit trail ({lifecycle.history.length})
+              </summary>
+              <ul className="mt-2 space-y-1">
+                {lifecycle.history.map((entry, idx) => (
+                  <li key={idx} className="text-xs text-gray-600">
+                    <span className="font-mono">
+                      {new Date(entry.at).toLocaleString()}
+                    </span>{" "}
+                    ·{" "}
+                    {entry.actor === "customer"
+                      ? "Customer"
+                      : entry.by ?? "Shop"}{" "}
+                    · {entry.message}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          </div>
+        )}
+
+        {/* Quote inputs (not printed) */}
         <div className="mb-4 print:hidden">
-          <label className="block mb-2 font-medium">
-            Shop Logo URL (optional)
-          </label>
+          <label className="block mb-2 font-medium">Quote #</label>
           <input
             type="text"
-            value={shopLogoUrl}
-            onChange={(e) => setShopLogoUrl(e.target.value)}
-            placeholder="https://example.com/logo.png"
+            value={quoteNumber}
+            onChange={(e) => setQuoteNumber(e.target.value)}
+            placeholder="Assigned on save"
             className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
           <p className="text-xs text-gray-500 mt-1">
-            Paste a public image URL for now. Direct logo uploads will come
-            later.
+            Shop name, logo, default rates, and terms come from{" "}
+            <Link href="/settings" className="text-blue-600 underline">
+              Shop Settings
+            </Link>
+            .
           </p>
         </div>
 
         <p className="text-gray-600 mb-4 text-sm print:hidden">
-          Enter a VIN and shop labor rate to generate mock repair operations,
-          SRTs, and cost breakdowns. (Real data will come later.)
+          Enter a 17-character VIN and shop labor rate to generate repair
+          operations, SRTs, and cost breakdowns from the operations catalog.
         </p>
 
         {/* VIN + labor */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
           <div className="md:col-span-2">
-            <label className="block mb-2 font-medium">VIN</label>
+            <label className="block mb-2 font-medium">{fmt.t("vin")}</label>
             <input
               type="text"
               value={vin}
               onChange={(e) => setVin(e.target.value)}
               placeholder="Enter VIN..."
-              className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className={`w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                fieldErrors.vin ? "border-red-500" : ""
+              }`}
             />
+            <FieldMessage message={fieldErrors.vin} />
           </div>
 
           <div>
-            <label className="block mb-2 font-medium">Labor Rate ($/hr)</label>
+            <label className="block mb-2 font-medium">
+              Base Labor Rate ({currency}/hr)
+            </label>
             <input
               type="number"
               value={laborRate}
-              onChange={(e) => setLaborRate(Number(e.target.value))}
-              className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-              min={0}
+              onChange={(e) => handleLaborRateChange(Number(e.target.value))}
+              className={`w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                fieldErrors.laborRate ? "border-red-500" : ""
+              }`}
+              min={QUOTE_LIMITS.laborRate.min}
+              max={QUOTE_LIMITS.laborRate.max}
             />
+            <FieldMessage message={fieldErrors.laborRate} />
           </div>
         </div>
 
         {/* Customer / unit */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block mb-2 font-medium">
+              {fmt.t("customer")}
+            </label>
+            <select
+              value={customerId ?? ""}
+              onChange={(e) => handleCustomerSelect(e.target.value)}
+              className="w-full p-3 border rounded-lg bg-white mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500 print:hidden"
+            >
+              <option value="">Walk-in / not registered</option>
+              {customers.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            {!customerId && (
+              <input
+                type="text"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                placeholder="e.g. ABC Logistics"
+                className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            )}
+          </div>
+
           <div>
-            <label className="block mb-2 font-medium">Customer Name</label>
+            <label className="block mb-2 font-medium">{fmt.t("unit")}</label>
+            {customer && (
+              <select
+                value={unitId ?? ""}
+                onChange={(e) => handleUnitSelect(e.target.value)}
+                className="w-full p-3 border rounded-lg bg-white mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500 print:hidden"
+              >
+                <option value="">Other unit</option>
+                {customer.units.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.unitNumber || "No unit #"}
+                    {u.vin ? ` – ${u.vin}` : ""}
+                  </option>
+                ))}
+              </select>
+            )}
+            {!unitId && (
+              <input
+                type="text"
+                value={unitNumber}
+                onChange={(e) => setUnitNumber(e.target.value)}
+                placeholder="e.g. Truck 1027"
+                className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            )}
+          </div>
+
+          <div>
+            <label className="block mb-2 font-medium">
+              {fmt.t("odometer")} (mi)
+            </label>
+            <input
+              type="number"
+              value={odometer ?? ""}
+              onChange={(e) =>
+                setOdometer(
+                  e.target.value === "" ? null : Number(e.target.value)
+                )
+              }
+              placeholder="For warranty mileage"
+              className={`w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                fieldErrors.odometer ? "border-red-500" : ""
+              }`}
+              min={QUOTE_LIMITS.odometer.min}
+              max={QUOTE_LIMITS.odometer.max}
+            />
+            <FieldMessage message={fieldErrors.odometer} />
+          </div>
+        </div>
+
+        {customer && (
+          <p className="text-xs text-gray-500 -mt-2 mb-4 print:hidden">
+            {customer.name} pricing:{" "}
+            {customer.laborRate
+              ? fmt.rate(customer.laborRate)
+              : "shop labor rate"}
+            {customer.partsDiscountPercent > 0 &&
+              `, ${customer.partsDiscountPercent}% parts discount`}
+            {customer.taxExempt && ", tax exempt"}.{" "}
+            <Link
+              href={`/customers/${customer.id}`}
+              className="text-blue-600 underline"
+            >
+              Edit customer
+            </Link>
+          </p>
+        )}
+
+        {/* Fault codes */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 print:hidden">
+          <div className="md:col-span-2">
+            <label className="block mb-2 font-medium">Fault Codes</label>
             <input
               type="text"
-              value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
-              placeholder="e.g. ABC Logistics"
-              className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={dtcText}
+              onChange={(e) => setDtcText(e.target.value)}
+              placeholder="e.g. SPN 3226 FMI 2, P20EE"
+              className={`w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                dtcError ? "border-red-500" : ""
+              }`}
             />
+            <FieldMessage message={dtcError} />
+            <p className="text-xs text-gray-500 mt-1">
+              With fault codes and no package, the quote starts empty and the
+              likely operations are suggested below.
+            </p>
           </div>
 
           <div>
-            <label className="block mb-2 font-medium">Unit / Truck #</label>
+            <label className="block mb-2 font-medium">Engine Hours</label>
             <input
-              type="text"
-              value={unitNumber}
-              onChange={(e) => setUnitNumber(e.target.value)}
-              placeholder="e.g. Truck 1027"
-              className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              type="number"
+              value={engineHours ?? ""}
+              onChange={(e) =>
+                setEngineHours(
+                  e.target.value === "" ? null : Number(e.target.value)
+                )
+              }
+              className={`w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                fieldErrors.engineHours ? "border-red-500" : ""
+              }`}
+              min={QUOTE_LIMITS.engineHours.min}
+              max={QUOTE_LIMITS.engineHours.max}
             />
+            <FieldMessage message={fieldErrors.engineHours} />
           </div>
         </div>
 
@@ -330,19 +1776,27 @@ export default function Home() {
             placeholder="Special instructions, symptoms, or notes for the tech..."
             className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[80px]"
           />
+          <p className="text-xs text-gray-500 mt-1">
+            Shop only – never printed for the customer. Copied to the work order
+            when the quote is converted.
+          </p>
         </div>
 
-        {/* Markup / margin */}
+        {/* Discount / margin (parts markup follows the settings matrix) */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
           <div>
-            <label className="block mb-2 font-medium">Parts Markup (%)</label>
+            <label className="block mb-2 font-medium">Parts Discount (%)</label>
             <input
               type="number"
-              value={partsMarkupPercent}
-              onChange={(e) => setPartsMarkupPercent(Number(e.target.value))}
-              className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-              min={0}
+              value={partsDiscountPercent}
+              onChange={(e) => setPartsDiscountPercent(Number(e.target.value))}
+              className={`w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                fieldErrors.partsDiscountPercent ? "border-red-500" : ""
+              }`}
+              min={QUOTE_LIMITS.partsDiscountPercent.min}
+              max={QUOTE_LIMITS.partsDiscountPercent.max}
             />
+            <FieldMessage message={fieldErrors.partsDiscountPercent} />
           </div>
           <div>
             <label className="block mb-2 font-medium">
@@ -352,8 +1806,78 @@ export default function Home() {
               type="number"
               value={marginPercent}
               onChange={(e) => setMarginPercent(Number(e.target.value))}
-              className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              className={`w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                fieldErrors.marginPercent ? "border-red-500" : ""
+              }`}
+              min={QUOTE_LIMITS.marginPercent.min}
+              max={QUOTE_LIMITS.marginPercent.max}
             />
+            <FieldMessage message={fieldErrors.marginPercent} />
+          </div>
+        </div>
+
+        {/* Fees & tax */}
+        <div className="mb-4 print:hidden">
+          <label className="block mb-2 font-medium">Fees &amp; Tax</label>
+          <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={taxExempt}
+                onChange={(e) => setTaxExempt(e.target.checked)}
+              />
+              Tax exempt
+            </label>
+            {settings?.fees.flatFees.map((fee) => (
+              <label key={fee.code} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={feeCodes.includes(fee.code)}
+                  onChange={(e) => handleFeeToggle(fee.code, e.target.checked)}
+                />
+                {fee.name} ({fmt.money(fee.amount)})
+              </label>
+            ))}
+          </div>
+          <FieldMessage message={fieldErrors.taxExempt} />
+          <FieldMessage message={fieldErrors.feeCodes} />
+        </div>
+
+        {/* Currency & language of the printed quote (not printed) */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 print:hidden">
+          <div>
+            <label className="block mb-2 font-medium">Currency</label>
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+              className="w-full p-3 border rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {CURRENCIES.map((c) => (
+                <option key={c.code} value={c.code}>
+                  {c.code} – {c.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block mb-2 font-medium">
+              Language &amp; Format
+            </label>
+            <select
+              value={locale}
+              onChange={(e) => handleLocaleChange(e.target.value as LocaleCode)}
+              className="w-full p-3 border rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {LOCALES.map((l) => (
+                <option key={l.code} value={l.code}>
+                  {l.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Defaults come from Shop Settings. Amounts are not converted
+              between currencies.
+            </p>
           </div>
         </div>
 
@@ -366,7 +1890,7 @@ export default function Home() {
             className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[80px] text-sm"
           />
           <p className="text-xs text-gray-500 mt-1">
-            These will appear at the bottom of the printed quote.
+            These will appear at the bottom of the quote PDF.
           </p>
         </div>
 
@@ -384,12 +1908,96 @@ export default function Home() {
           >
             {loading ? "Generating quote..." : "Get Repair Quote"}
           </button>
+          {quote && (
+            <button
+              onClick={() => handleSaveQuote()}
+              disabled={saving}
+              className="bg-gray-800 hover:bg-gray-900 disabled:bg-gray-400 text-white px-6 rounded-lg font-semibold"
+            >
+              {saving
+                ? "Saving..."
+                : savedQuoteId
+                ? "Update Quote"
+                : "Save Quote"}
+            </button>
+          )}
         </div>
 
+        {approvalNeeded && (
+          <div className="mb-4 border border-yellow-300 bg-yellow-50 rounded-lg p-3 text-sm print:hidden">
+            <p className="mb-2">
+              This pricing needs a manager&apos;s approval. A manager can sign
+              off here, or change the highlighted fields back.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="text"
+                value={managerUsername}
+                onChange={(e) => setManagerUsername(e.target.value)}
+                placeholder="Manager username"
+                autoComplete="off"
+                className="p-2 border rounded-lg"
+              />
+              <input
+                type="password"
+                value={managerPassword}
+                onChange={(e) => setManagerPassword(e.target.value)}
+                placeholder="Password"
+                autoComplete="off"
+                className="p-2 border rounded-lg"
+              />
+              <button
+                onClick={() =>
+                  handleSaveQuote({
+                    username: managerUsername,
+                    password: managerPassword,
+                  })
+                }
+                disabled={saving || !managerUsername || !managerPassword}
+                className="bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold"
+              >
+                Approve &amp; Save
+              </button>
+            </div>
+          </div>
+        )}
+
+        {conflict && (
+          <div className="mb-4 border border-red-300 bg-red-50 rounded-lg p-3 text-sm print:hidden">
+            <p className="mb-2">
+              {conflict.error} Load their version to start again from it, or
+              keep yours and overwrite theirs.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => loadSavedQuote(conflict.quote)}
+                className="px-4 py-2 rounded-lg border bg-white hover:bg-gray-100 font-semibold"
+              >
+                Load their version
+              </button>
+              <button
+                onClick={() =>
+                  handleSaveQuote(undefined, conflict.quote.updatedAt)
+                }
+                disabled={saving}
+                className="bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold"
+              >
+                Keep mine &amp; overwrite
+              </button>
+            </div>
+          </div>
+        )}
+
+        {saveMessage && (
+          <div className="mb-4 text-sm text-green-700 bg-green-50 p-3 rounded-lg print:hidden">
+            {saveMessage}
+          </div>
+        )}
+
         {!quote && !loading && (
           <p className="text-gray-500 text-sm text-center">
-            Example: paste any VIN-like string to test, e.g.{" "}
-            <span className="font-mono">1HTMKADN43H561234</span>
+            Example: enter a full 17-character VIN to test, e.g.{" "}
+            <span className="font-mono">1XPWD40X1ED215307</span>
           </p>
         )}
 
@@ -407,37 +2015,250 @@ export default function Home() {
                 <span className="font-semibold">Unit / Truck #:</span>{" "}
                 {unitNumber || <span className="text-gray-400">N/A</span>}
               </p>
+              {odometer !== null && (
+                <p>
+                  <span className="font-semibold">{fmt.t("odometer")}:</span>{" "}
+                  {fmt.miles(odometer)}
+                </p>
+              )}
               <p className="text-gray-600">
                 VIN: <span className="font-mono">{quote.vin}</span>
               </p>
             </div>
 
-            <p className="mb-4 font-medium">{quote.vehicle}</p>
+            <p className="mb-1 font-medium">{quote.vehicle}</p>
+            {quote.vehicleDetails && (
+              <p className="mb-4 text-xs text-gray-500">
+                {[
+                  quote.vehicleDetails.manufacturer,
+                  quote.vehicleDetails.plant &&
+                    `Plant: ${quote.vehicleDetails.plant}`,
+                  quote.vehicleDetails.country,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+                {quote.vehicleDetails.decodeStatus === "partial" && (
+                  <span className="print:hidden">
+                    {" "}
+                    (decoded offline – model/engine not available)
+                  </span>
+                )}
+                {quote.vehicleDetails.decodeStatus === "failed" && (
+                  <span className="print:hidden text-amber-700">
+                    {" "}
+                    (VIN lookup failed – decoded offline; check model/engine)
+                  </span>
+                )}
+              </p>
+            )}
+
+            {warranty?.vin === quote.vin && (
+              <div className="mb-4 text-sm border rounded-lg p-3 print:hidden">
+                <div className="font-semibold mb-1">Warranty &amp; Recalls</div>
+                {warranty.status === "off" ? (
+                  <p className="text-gray-500">
+                    Warranty lookup is turned off.
+                  </p>
+                ) : warranty.status === "unavailable" ? (
+                  <p className="text-amber-700">
+                    Warranty lookup is unavailable right now – check the OEM
+                    portal before quoting aftertreatment work.
+                  </p>
+                ) : !warrantyRecord ? (
+                  <p className="text-gray-500">
+                    No warranty or campaign records on file for this VIN.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-xs text-gray-500 mb-2">
+                      In service{" "}
+                      {warrantyRecord.inServiceDate
+                        ? fmt.date(warrantyRecord.inServiceDate)
+                        : "date not on file"}
+                      {odometer === null &&
+                        " · enter the odometer to check mileage limits"}
+                    </p>
+                    <ul className="space-y-1 mb-2">
+                      {warrantyRecord.coverages.map((c) => {
+                        const s = coverageStatus(warrantyRecord, c, odometer);
+                        return (
+                          <li
+                            key={c.code}
+                            className="flex justify-between gap-2"
+                          >
+                            <span>{c.name}</span>
+                            <span
+                              className={
+                                s.state === "active"
+                                  ? "text-green-700"
+                                  : s.state === "expired"
+                                  ? "text-gray-400"
+                                  : "text-amber-700"
+                              }
+                            >
+                              {s.state === "expired"
+                                ? "Expired"
+                                : s.state === "active"
+                                ? "Active"
+                                : "Not verified"}
+                              {" · "}
+                              {c.months} mo
+                              {s.expiresOn && ` (to ${fmt.date(s.expiresOn)})`}
+                              {" / "}
+                              {c.miles === null
+                                ? "unlimited miles"
+                                : s.milesLeft !== null && s.milesLeft >= 0
+                                ? `${fmt.miles(s.milesLeft)} left`
+                                : fmt.miles(c.miles)}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    {openCampaigns(warrantyRecord).map((c) => (
+                      <div
+                        key={c.id}
+                        className="bg-red-50 border border-red-200 rounded-lg p-2 mb-1"
+                      >
+                        <span className="font-semibold">
+                          {c.type === "recall"
+                            ? "Open recall"
+                            : "Open campaign"}{" "}
+                          {c.id}:
+                        </span>{" "}
+                        {c.title}
+                        <div className="text-xs text-gray-600">
+                          {c.description}
+                        </div>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </div>
+            )}
 
             {notes && (
-              <div className="mb-4 text-sm bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              <div className="mb-4 text-sm bg-yellow-50 border border-yellow-200 rounded-lg p-3 print:hidden">
                 <div className="font-semibold mb-1">Internal Notes</div>
                 <div className="whitespace-pre-wrap">{notes}</div>
               </div>
             )}
 
+            {suggestions.length > 0 && (
+              <div className="mb-4 border border-blue-200 bg-blue-50 rounded-lg p-3 text-sm print:hidden">
+                <div className="font-semibold mb-2">
+                  Suggested from fault codes
+                </div>
+                <ul className="space-y-2">
+                  {suggestions.map((s) => (
+                    <li
+                      key={s.operationCode}
+                      className="flex justify-between items-start gap-3"
+                    >
+                      <div>
+                        <span className="font-medium">{s.operation}</span>{" "}
+                        <span
+                          className={`text-xs px-1.5 py-0.5 rounded ${
+                            s.confidence === "high"
+                              ? "bg-green-100 text-green-800"
+                              : s.confidence === "medium"
+                              ? "bg-yellow-100 text-yellow-800"
+                              : "bg-gray-200 text-gray-700"
+                          }`}
+                        >
+                          {s.confidence} confidence
+                        </span>
+                        <div className="text-xs text-gray-600">
+                          {s.dtcs.join(", ")} · {fmt.money(s.line.totalCost)}
+                        </div>
+                        {s.notes.map((note) => (
+                          <div key={note} className="text-xs text-gray-600">
+                            {note}
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <button
+                          onClick={() => handleAcceptSuggestion(s)}
+                          className="text-xs bg-green-600 text-white px-2 py-1 rounded-lg hover:bg-green-700"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => handleRejectSuggestion(s)}
+                          className="text-xs border bg-white px-2 py-1 rounded-lg hover:bg-gray-100"
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Line items */}
             <div className="flex justify-between items-center mb-2 print:hidden">
               <h3 className="font-semibold">Line Items</h3>
-              <button
-                onClick={handleAddLine}
-                className="text-sm bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700"
-              >
-                + Add Line Item
-              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={undo}
+                  disabled={!lineItems.canUndo}
+                  title="Undo (Ctrl+Z)"
+                  className="text-sm border bg-white px-3 py-1 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Undo
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={!lineItems.canRedo}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="text-sm border bg-white px-3 py-1 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Redo
+                </button>
+                <button
+                  onClick={handleAddLine}
+                  className="text-sm bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700"
+                >
+                  + Add Line Item
+                </button>
+              </div>
             </div>
 
+            {packages.length > 0 && (
+              <div className="mb-3 print:hidden">
+                <div className="text-xs text-gray-500 mb-1">
+                  Insert a package for this vehicle:
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {packages.map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => handleInsertPackage(p)}
+                      disabled={insertingPackage !== null}
+                      title={p.operations.join(", ")}
+                      className="text-xs border border-blue-300 text-blue-700 bg-blue-50 px-2 py-1 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+                    >
+                      + {p.name}
+                      {p.fixedPrice !== null && ` (${fmt.money(p.fixedPrice)})`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="space-y-3 mb-4">
               {editableRepairs.map((r, idx) => (
                 <div
                   key={idx}
                   className="border rounded-lg p-3 bg-gray-50 text-sm"
                 >
+                  {r.operationCode && (
+                    <div className="text-xs text-gray-500 font-mono mb-1">
+                      {r.operationCode}
+                    </div>
+                  )}
                   <div className="flex justify-between items-start gap-2">
                     <input
                       type="text"
@@ -455,10 +2276,45 @@ export default function Home() {
                     </button>
                   </div>
 
+                  {r.warranty ? (
+                    <div className="mb-2 text-xs text-green-700">
+                      {fmt.t("warrantyNoCharge")} ({r.warranty.name}){" "}
+                      <button
+                        onClick={() => handleLineCoverage(idx)}
+                        className="text-blue-600 hover:underline print:hidden"
+                      >
+                        Charge customer
+                      </button>
+                      <FieldMessage
+                        message={fieldErrors[`repairs.${idx}.warranty`]}
+                      />
+                    </div>
+                  ) : (
+                    warrantyRecord &&
+                    coverageFor(warrantyRecord, r.operationCode, odometer).map(
+                      (c) => (
+                        <div
+                          key={c.reference}
+                          className="mb-2 text-xs text-amber-700 print:hidden"
+                        >
+                          May be covered by{" "}
+                          {c.type === "warranty" ? "" : `${c.type} `}
+                          {c.name}.{" "}
+                          <button
+                            onClick={() => handleLineCoverage(idx, c)}
+                            className="text-blue-600 hover:underline"
+                          >
+                            Mark warranty – no charge
+                          </button>
+                        </div>
+                      )
+                    )
+                  )}
+
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
                     <div>
                       <div className="text-xs text-gray-500 mb-1">
-                        SRT Hours
+                        {fmt.t("srtHours")}
                       </div>
                       <input
                         type="number"
@@ -466,96 +2322,468 @@ export default function Home() {
                         onChange={(e) =>
                           handleRepairChange(idx, "srtHours", e.target.value)
                         }
-                        className="w-full p-2 border rounded-md text-sm"
-                        min={0}
+                        className={`w-full p-2 border rounded-md text-sm ${
+                          fieldErrors[`repairs.${idx}.srtHours`]
+                            ? "border-red-500"
+                            : ""
+                        }`}
+                        min={QUOTE_LIMITS.srtHours.min}
+                        max={QUOTE_LIMITS.srtHours.max}
                         step={0.1}
                       />
+                      <FieldMessage
+                        message={fieldErrors[`repairs.${idx}.srtHours`]}
+                      />
                     </div>
 
                     <div>
                       <div className="text-xs text-gray-500 mb-1">
                         Labor Rate
                       </div>
-                      <div className="p-2 border rounded-md bg-gray-100">
-                        ${r.laborRate.toFixed(2)}/hr
-                      </div>
+                      <select
+                        value={r.rateClass}
+                        onChange={(e) =>
+                          handleRepairChange(idx, "rateClass", e.target.value)
+                        }
+                        className="w-full p-2 border rounded-md text-sm bg-white"
+                      >
+                        {!rateClasses.some((c) => c.code === r.rateClass) && (
+                          <option value={r.rateClass}>{r.rateClass}</option>
+                        )}
+                        {rateClasses.map((c) => (
+                          <option key={c.code} value={c.code}>
+                            {c.name}
+                          </option>
+                        ))}
+                      </select>
+                      {r.fixedLabor !== undefined ? (
+                        <div className="text-xs text-gray-600 mt-1">
+                          {fmt.t("flat")} {fmt.money(r.fixedLabor)} (package
+                          price){" "}
+                          <button
+                            onClick={() => handleBillBySrt(idx)}
+                            className="text-blue-600 hover:underline print:hidden"
+                          >
+                            Bill by SRT
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="text-xs text-gray-600 mt-1">
+                          {fmt.rate(r.laborRate)}
+                        </div>
+                      )}
+                      <FieldMessage
+                        message={fieldErrors[`repairs.${idx}.laborRate`]}
+                      />
+                      <FieldMessage
+                        message={fieldErrors[`repairs.${idx}.fixedLabor`]}
+                      />
                     </div>
 
                     <div>
                       <div className="text-xs text-gray-500 mb-1">
-                        Parts Cost
+                        {fmt.t("parts")}
+                      </div>
+                      <div className="p-2 border rounded-md bg-gray-100">
+                        {fmt.money(r.partsPrice)}
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        Cost {fmt.money(r.partsCost)}
+                        {r.coreCharges > 0 &&
+                          ` + ${fmt.money(r.coreCharges)} core`}
                       </div>
-                      <input
-                        type="number"
-                        value={r.partsCost}
-                        onChange={(e) =>
-                          handleRepairChange(idx, "partsCost", e.target.value)
-                        }
-                        className="w-full p-2 border rounded-md text-sm"
-                        min={0}
-                        step={1}
-                      />
                     </div>
 
                     <div>
                       <div className="text-xs text-gray-500 mb-1">
-                        Line Total
+                        {fmt.t("lineTotal")}
                       </div>
-                      <div className="p-2 border rounded-md bg-gray-100">
-                        ${r.totalCost.toFixed(2)}
+                      <div
+                        className={`p-2 border rounded-md bg-gray-100 ${
+                          r.warranty ? "line-through text-gray-400" : ""
+                        }`}
+                      >
+                        {fmt.money(r.totalCost)}
                       </div>
                     </div>
                   </div>
+
+                  {/* Parts for this operation */}
+                  <div className="mt-3">
+                    {r.parts.length > 0 && (
+                      <table className="w-full text-xs mb-1">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="pr-1 font-normal">
+                              {fmt.t("partNumber")}
+                            </th>
+                            <th className="pr-1 font-normal">
+                              {fmt.t("description")}
+                            </th>
+                            <th className="pr-1 font-normal">
+                              {fmt.t("vendor")}
+                            </th>
+                            <th className="pr-1 font-normal text-right">
+                              {fmt.t("quantity")}
+                            </th>
+                            <th className="pr-1 font-normal text-right">
+                              {fmt.t("unitCost")}
+                            </th>
+                            <th className="pr-1 font-normal text-right">
+                              {fmt.t("core")}
+                            </th>
+                            <th className="pr-1 font-normal text-right">
+                              {fmt.t("markup")}
+                            </th>
+                            <th className="pr-1 font-normal text-right">
+                              {fmt.t("price")}
+                            </th>
+                            <th className="print:hidden" />
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {r.parts.map((part, pIdx) => (
+                            <tr key={pIdx}>
+                              <td className="pr-1 py-0.5">
+                                <input
+                                  type="text"
+                                  value={part.partNumber}
+                                  onChange={(e) =>
+                                    handlePartChange(idx, pIdx, {
+                                      partNumber: e.target.value,
+                                    })
+                                  }
+                                  onBlur={(e) =>
+                                    handlePartLookup(idx, pIdx, e.target.value)
+                                  }
+                                  placeholder="Look up"
+                                  className="w-24 p-1 border rounded font-mono"
+                                />
+                              </td>
+                              <td className="pr-1 py-0.5">
+                                <input
+                                  type="text"
+                                  value={part.description}
+                                  onChange={(e) =>
+                                    handlePartChange(idx, pIdx, {
+                                      description: e.target.value,
+                                    })
+                                  }
+                                  className="w-full p-1 border rounded"
+                                />
+                              </td>
+                              <td className="pr-1 py-0.5">
+                                <input
+                                  type="text"
+                                  value={part.vendor}
+                                  onChange={(e) =>
+                                    handlePartChange(idx, pIdx, {
+                                      vendor: e.target.value,
+                                    })
+                                  }
+                                  className="w-20 p-1 border rounded"
+                                />
+                              </td>
+                              <td className="pr-1 py-0.5 text-right">
+                                <input
+                                  type="number"
+                                  value={part.quantity}
+                                  onChange={(e) =>
+                                    handlePartChange(idx, pIdx, {
+                                      quantity: Number(e.target.value) || 0,
+                                    })
+                                  }
+                                  className={`w-14 p-1 border rounded text-right ${
+                                    fieldErrors[
+                                      `repairs.${idx}.parts.${pIdx}.quantity`
+                                    ]
+                                      ? "border-red-500"
+                                      : ""
+                                  }`}
+                                  min={QUOTE_LIMITS.quantity.min}
+                                  max={QUOTE_LIMITS.quantity.max}
+                                />
+                              </td>
+                              <td className="pr-1 py-0.5 text-right">
+                                <input
+                                  type="number"
+                                  value={part.unitCost}
+                                  onChange={(e) =>
+                                    handlePartChange(idx, pIdx, {
+                                      unitCost: Number(e.target.value) || 0,
+                                    })
+                                  }
+                                  className={`w-20 p-1 border rounded text-right ${
+                                    fieldErrors[
+                                      `repairs.${idx}.parts.${pIdx}.unitCost`
+                                    ]
+                                      ? "border-red-500"
+                                      : ""
+                                  }`}
+                                  min={QUOTE_LIMITS.unitCost.min}
+                                  max={QUOTE_LIMITS.unitCost.max}
+                                />
+                              </td>
+                              <td className="pr-1 py-0.5 text-right">
+                                <input
+                                  type="number"
+                                  value={part.coreCharge}
+                                  onChange={(e) =>
+                                    handlePartChange(idx, pIdx, {
+                                      coreCharge: Number(e.target.value) || 0,
+                                    })
+                                  }
+                                  className={`w-16 p-1 border rounded text-right ${
+                                    fieldErrors[
+                                      `repairs.${idx}.parts.${pIdx}.coreCharge`
+                                    ]
+                                      ? "border-red-500"
+                                      : ""
+                                  }`}
+                                  min={QUOTE_LIMITS.coreCharge.min}
+                                  max={QUOTE_LIMITS.coreCharge.max}
+                                />
+                              </td>
+                              <td className="pr-1 py-0.5 text-right">
+                                <input
+                                  type="number"
+                                  value={part.markupPercent}
+                                  onChange={(e) =>
+                                    handlePartChange(idx, pIdx, {
+                                      markupPercent:
+                                        Number(e.target.value) || 0,
+                                    })
+                                  }
+                                  className={`w-14 p-1 border rounded text-right ${
+                                    fieldErrors[
+                                      `repairs.${idx}.parts.${pIdx}.markupPercent`
+                                    ]
+                                      ? "border-red-500"
+                                      : ""
+                                  }`}
+                                  min={QUOTE_LIMITS.markupPercent.min}
+                                  max={QUOTE_LIMITS.markupPercent.max}
+                                />
+                              </td>
+                              <td className="pr-1 py-0.5 text-right">
+                                {fmt.money(part.extendedPrice)}
+                              </td>
+                              <td className="py-0.5 text-right print:hidden">
+                                <button
+                                  onClick={() => handleRemovePart(idx, pIdx)}
+                                  className="text-red-600 hover:underline"
+                                >
+                                  Remove
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {r.parts.map((_, pIdx) =>
+                      (
+                        [
+                          "quantity",
+                          "unitCost",
+                          "coreCharge",
+                          "markupPercent",
+                        ] as const
+                      ).map((key) => (
+                        <FieldMessage
+                          key={`${pIdx}.${key}`}
+                          message={
+                            fieldErrors[`repairs.${idx}.parts.${pIdx}.${key}`]
+                          }
+                        />
+                      ))
+                    )}
+                    <button
+                      onClick={() => handleAddPart(idx)}
+                      className="text-xs text-blue-600 hover:underline print:hidden"
+                    >
+                      + Add part
+                    </button>
+                  </div>
                 </div>
               ))}
 
               {!editableRepairs.length && (
                 <p className="text-sm text-gray-500">
                   No line items loaded. Click &ldquo;Get Repair Quote&rdquo; to
-                  generate mock operations.
+                  load catalog operations for this vehicle.
                 </p>
               )}
             </div>
 
+            {editableRepairs.length > 0 && (
+              <div className="mb-4 text-sm print:hidden">
+                {!templateOpen ? (
+                  <button
+                    onClick={() => setTemplateOpen(true)}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    Save these lines as a template
+                  </button>
+                ) : (
+                  <div className="border rounded-lg p-3 space-y-2">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <input
+                        type="text"
+                        value={templateName}
+                        onChange={(e) => setTemplateName(e.target.value)}
+                        placeholder="Template name, e.g. Cascadia PM B"
+                        className="p-2 border rounded-md"
+                      />
+                      <input
+                        type="number"
+                        value={templateFixedPrice}
+                        onChange={(e) => setTemplateFixedPrice(e.target.value)}
+                        placeholder="Fixed price (optional)"
+                        className="p-2 border rounded-md"
+                        min={0}
+                      />
+                    </div>
+                    {quote.vehicleDetails?.make && (
+                      <label className="flex items-center gap-2 text-xs">
+                        <input
+                          type="checkbox"
+                          checked={templateForModel}
+                          onChange={(e) =>
+                            setTemplateForModel(e.target.checked)
+                          }
+                        />
+                        Only offer it for {quote.vehicleDetails.make}{" "}
+                        {quote.vehicleDetails.model}
+                      </label>
+                    )}
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleSaveTemplate}
+                        disabled={!templateName.trim()}
+                        className="text-xs bg-blue-600 text-white px-3 py-1 rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+                      >
+                        Save Template
+                      </button>
+                      <button
+                        onClick={() => setTemplateOpen(false)}
+                        className="text-xs text-gray-600 hover:underline"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Totals */}
             <div className="bg-blue-50 rounded-lg p-3 text-sm space-y-1">
               <div className="flex justify-between">
-                <span>Base Labor Total:</span>
-                <span>${computedTotals.laborCost.toFixed(2)}</span>
+                <span>{fmt.t("baseLabor")}:</span>
+                <span>{fmt.money(computedTotals.laborCost)}</span>
               </div>
               <div className="flex justify-between">
-                <span>Base Parts Total:</span>
-                <span>${computedTotals.partsCost.toFixed(2)}</span>
+                <span>{fmt.t("baseParts")}:</span>
+                <span>{fmt.money(computedTotals.partsCost)}</span>
               </div>
               <div className="flex justify-between">
-                <span>
-                  Parts with Markup ({partsMarkupPercent || 0}%):
-                </span>
-                <span>${computedTotals.partsWithMarkup.toFixed(2)}</span>
+                <span>{fmt.t("partsWithMarkup")}:</span>
+                <span>{fmt.money(computedTotals.partsWithMarkup)}</span>
               </div>
+              {computedTotals.coreCharges > 0 && (
+                <div className="flex justify-between">
+                  <span>{fmt.t("coreCharges")}:</span>
+                  <span>{fmt.money(computedTotals.coreCharges)}</span>
+                </div>
+              )}
+              {computedTotals.partsDiscount > 0 && (
+                <div className="flex justify-between">
+                  <span>
+                    {fmt.t("partsDiscount", {
+                      percent: fmt.percent(partsDiscountPercent),
+                    })}
+                    :
+                  </span>
+                  <span>{fmt.money(-computedTotals.partsDiscount)}</span>
+                </div>
+              )}
               <div className="flex justify-between font-semibold">
-                <span>Subtotal (Labor + Marked-up Parts):</span>
-                <span>${computedTotals.baseGrandTotal.toFixed(2)}</span>
+                <span>{fmt.t("subtotal")}:</span>
+                <span>{fmt.money(computedTotals.baseGrandTotal)}</span>
               </div>
               <div className="flex justify-between">
-                <span>Additional Margin ({marginPercent || 0}%):</span>
                 <span>
-                  $
-                  {(
+                  {fmt.t("margin", {
+                    percent: fmt.percent(marginPercent || 0),
+                  })}
+                  :
+                </span>
+                <span>
+                  {fmt.money(
                     computedTotals.finalGrandTotal -
-                    computedTotals.baseGrandTotal
-                  ).toFixed(2)}
+                      computedTotals.baseGrandTotal
+                  )}
                 </span>
               </div>
+              <div className="flex justify-between font-semibold">
+                <span>{fmt.t("beforeFees")}:</span>
+                <span>{fmt.money(computedTotals.finalGrandTotal)}</span>
+              </div>
+              {computedTotals.shopSupplies > 0 && (
+                <div className="flex justify-between">
+                  <span>{fmt.t("shopSupplies")}:</span>
+                  <span>{fmt.money(computedTotals.shopSupplies)}</span>
+                </div>
+              )}
+              {computedTotals.fees.map((fee) => (
+                <div key={fee.code} className="flex justify-between">
+                  <span>{fee.name}:</span>
+                  <span>{fmt.money(fee.amount)}</span>
+                </div>
+              ))}
+              {taxExempt ? (
+                <div className="flex justify-between">
+                  <span>{fmt.t("salesTax")}:</span>
+                  <span>{fmt.t("exempt")}</span>
+                </div>
+              ) : (
+                <>
+                  {computedTotals.partsTax > 0 && (
+                    <div className="flex justify-between">
+                      <span>
+                        {fmt.t("partsTax")} (
+                        {fmt.percent(settings?.fees.taxRates.parts ?? 0)}):
+                      </span>
+                      <span>{fmt.money(computedTotals.partsTax)}</span>
+                    </div>
+                  )}
+                  {computedTotals.laborTax > 0 && (
+                    <div className="flex justify-between">
+                      <span>
+                        {fmt.t("laborTax")} (
+                        {fmt.percent(settings?.fees.taxRates.labor ?? 0)}):
+                      </span>
+                      <span>{fmt.money(computedTotals.laborTax)}</span>
+                    </div>
+                  )}
+                  {computedTotals.feesTax > 0 && (
+                    <div className="flex justify-between">
+                      <span>{fmt.t("feesTax")}:</span>
+                      <span>{fmt.money(computedTotals.feesTax)}</span>
+                    </div>
+                  )}
+                </>
+              )}
               <div className="flex justify-between font-semibold text-lg">
-                <span>Final Quote Total:</span>
-                <span>${computedTotals.finalGrandTotal.toFixed(2)}</span>
+                <span>{fmt.t("quoteTotal")}:</span>
+                <span>{fmt.money(computedTotals.quoteTotal)}</span>
               </div>
             </div>
 
             {/* Terms display */}
             <div className="mt-4 text-xs text-gray-500 border-t pt-3">
-              <div className="font-semibold mb-1">Terms &amp; Conditions</div>
+              <div className="font-semibold mb-1">{fmt.t("terms")}</div>
               <p className="whitespace-pre-wrap">{terms}</p>
             </div>
           </div>
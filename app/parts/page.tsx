@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useShopFormat } from "@/app/use-shop-format";
+import { PRICE_LIST_COLUMNS } from "@/lib/parts/price-list";
+import type { ImportResult, PartRecord } from "@/lib/parts/types";
+
+export default function PartsCatalog() {
+  const [search, setSearch] = useState("");
+  const [parts, setParts] = useState<PartRecord[]>([]);
+  const fmt = useShopFormat();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/parts?q=${encodeURIComponent(search)}`, {
+        signal: controller.signal,
+      })
+        .then((res) => {
+          if (!res.ok) throw new Error("Failed to load parts.");
+          return res.json() as Promise<{ parts: PartRecord[] }>;
+        })
+        .then((data) => {
+          setParts(data.parts);
+          setError(null);
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          console.error(err);
+          setError("Something went wrong while loading parts.");
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [search, reloadKey]);
+
+  async function handleImport(file: File) {
+    setImporting(true);
+    setImportResult(null);
+    setError(null);
+
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/parts", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Could not import the price list.");
+        return;
+      }
+      setImportResult(data as ImportResult);
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while importing the price list.");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function handleDelete(p: PartRecord) {
+    if (!window.confirm(`Delete part ${p.partNumber}?`)) return;
+
+    const res = await fetch(`/api/parts/${encodeURIComponent(p.partNumber)}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) {
+      setError(`Could not delete ${p.partNumber}.`);
+      return;
+    }
+    setParts((prev) => prev.filter((item) => item.id !== p.id));
+  }
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-5xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Parts Catalog</h1>
+            <p className="text-gray-600 text-sm">
+              The shop&apos;s price list. Quotes pull cost and core charges from
+              here by part number.
+            </p>
+          </div>
+          <Link href="/" className="text-xs text-blue-600 underline">
+            Back to quotes
+          </Link>
+        </div>
+
+        <div className="mb-6 p-4 border rounded-lg bg-gray-50">
+          <label className="block mb-2 font-medium">Import Price List</label>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            disabled={importing}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+            className="text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-2">
+            CSV with a header row:{" "}
+            <span className="font-mono">{PRICE_LIST_COLUMNS.join(",")}</span>.
+            Only part_number and unit_cost are required. Existing part numbers
+            are updated.
+          </p>
+          {importing && (
+            <p className="text-sm text-gray-600 mt-2">Importing...</p>
+          )}
+          {importResult && (
+            <div className="text-sm mt-2">
+              <p>
+                {importResult.created} created, {importResult.updated} updated
+                {importResult.errors.length > 0 &&
+                  `, ${importResult.errors.length} skipped`}
+                .
+              </p>
+              {importResult.errors.length > 0 && (
+                <ul className="text-xs text-red-600 mt-1 list-disc pl-5">
+                  {importResult.errors.map((e, idx) => (
+                    <li key={idx}>
+                      Row {e.row}: {e.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by part number, description, or vendor..."
+          className="w-full p-3 border rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500 text-sm text-center">Loading parts...</p>
+        ) : !parts.length ? (
+          <p className="text-gray-500 text-sm text-center">
+            {search
+              ? "No parts match your search."
+              : "No parts yet. Import a price list to get started."}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2">Part #</th>
+                <th className="py-2 pr-2">Description</th>
+                <th className="py-2 pr-2">Vendor</th>
+                <th className="py-2 pr-2 text-right">Cost</th>
+                <th className="py-2 pr-2 text-right">Core</th>
+                <th className="py-2 pr-2 text-right">On Hand</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {parts.map((p) => (
+                <tr key={p.id} className="border-b align-top">
+                  <td className="py-2 pr-2 font-mono text-xs">
+                    {p.partNumber}
+                  </td>
+                  <td className="py-2 pr-2">{p.description || "—"}</td>
+                  <td className="py-2 pr-2">{p.vendor || "—"}</td>
+                  <td className="py-2 pr-2 text-right">
+                    {fmt.money(p.unitCost)}
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    {p.coreCharge > 0 ? fmt.money(p.coreCharge) : "—"}
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    {p.quantityOnHand ?? "—"}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => handleDelete(p)}
+                      className="text-red-600 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </main>
+  );
+}
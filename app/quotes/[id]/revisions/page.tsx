@@ -0,0 +1,217 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { createFormatter, type Formatter } from "@/lib/i18n/format";
+import type {
+  LineFieldChange,
+  QuoteDiff,
+  RevisionSummary,
+} from "@/lib/quotes/types";
+
+const FIELD_LABELS: Record<LineFieldChange["field"], string> = {
+  srtHours: "SRT hours",
+  laborRate: "Labor rate",
+  partsCost: "Parts cost",
+  totalCost: "Line total",
+};
+
+function formatterFor(r: RevisionSummary | undefined): Formatter {
+  return createFormatter({
+    currency: r?.currency ?? undefined,
+    locale: r?.locale ?? undefined,
+  });
+}
+
+function formatField(
+  fmt: Formatter,
+  field: LineFieldChange["field"],
+  value: number
+): string {
+  return field === "srtHours" ? fmt.hours(value) : fmt.money(value);
+}
+
+function signedMoney(fmt: Formatter, value: number): string {
+  return `${value < 0 ? "-" : "+"}${fmt.money(Math.abs(value))}`;
+}
+
+export default function QuoteRevisions() {
+  const { id } = useParams<{ id: string }>();
+
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<QuoteDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/quotes/${encodeURIComponent(id)}/revisions`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Quote not found.");
+        return res.json() as Promise<{ revisions: RevisionSummary[] }>;
+      })
+      .then((data) => {
+        const latest = data.revisions[data.revisions.length - 1].revision;
+        setRevisions(data.revisions);
+        setTo(latest);
+        setFrom(Math.max(1, latest - 1));
+      })
+      .catch((err) => {
+        console.error(err);
+        setError("Could not load this quote's revisions.");
+      });
+  }, [id]);
+
+  useEffect(() => {
+    if (from === null || to === null) return;
+
+    fetch(`/api/quotes/${encodeURIComponent(id)}/diff?from=${from}&to=${to}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Could not compare revisions.");
+        return res.json() as Promise<QuoteDiff>;
+      })
+      .then(setDiff)
+      .catch((err) => {
+        console.error(err);
+        setError("Could not compare these revisions.");
+      });
+  }, [id, from, to]);
+
+  // The diff is shown the way the later revision was quoted.
+  const fmt = formatterFor(revisions.find((r) => r.revision === to));
+
+  const revisionSelect = (
+    value: number | null,
+    onChange: (n: number) => void
+  ) => (
+    <select
+      value={value ?? ""}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="p-2 border rounded-lg"
+    >
+      {revisions.map((r) => (
+        <option key={r.revision} value={r.revision}>
+          Rev {r.revision} – {new Date(r.createdAt).toLocaleDateString()} –{" "}
+          {formatterFor(r).money(r.quoteTotal)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-4xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Quote Revisions</h1>
+            <p className="text-gray-600 text-sm">
+              Every saved change is kept as its own revision. Pick two to see
+              what changed.
+            </p>
+          </div>
+          <Link
+            href={`/?quote=${id}`}
+            className="text-xs text-blue-600 underline"
+          >
+            Back to quote
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {revisions.length === 1 && (
+          <p className="text-gray-500 text-sm mb-4">
+            Only one revision so far – save a change to the quote to start a
+            second.
+          </p>
+        )}
+
+        {revisions.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+            <span>Compare</span>
+            {revisionSelect(from, setFrom)}
+            <span>with</span>
+            {revisionSelect(to, setTo)}
+          </div>
+        )}
+
+        {diff && revisions.length > 1 && (
+          <>
+            {!diff.lines.length ? (
+              <p className="text-gray-500 text-sm mb-4">
+                No line items changed between these revisions.
+              </p>
+            ) : (
+              <ul className="space-y-2 mb-6">
+                {diff.lines.map((d, idx) => (
+                  <li
+                    key={idx}
+                    className={`border rounded-lg p-3 text-sm ${
+                      d.kind === "added"
+                        ? "bg-green-50 border-green-200"
+                        : d.kind === "removed"
+                        ? "bg-red-50 border-red-200"
+                        : "bg-yellow-50 border-yellow-200"
+                    }`}
+                  >
+                    <div className="flex justify-between gap-2">
+                      <span className="font-semibold">
+                        {d.kind === "added"
+                          ? "Added"
+                          : d.kind === "removed"
+                          ? "Removed"
+                          : "Changed"}
+                        : {d.line.operation}
+                      </span>
+                      {d.kind !== "changed" && (
+                        <span>
+                          {fmt.hours(d.line.srtHours)} hrs ·{" "}
+                          {fmt.money(d.line.totalCost)}
+                        </span>
+                      )}
+                    </div>
+                    {d.kind === "changed" && (
+                      <ul className="mt-1 text-xs text-gray-700">
+                        {d.changes.map((c) => (
+                          <li key={c.field}>
+                            {FIELD_LABELS[c.field]}:{" "}
+                            {formatField(fmt, c.field, c.from)} →{" "}
+                            {formatField(fmt, c.field, c.to)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="border-t pt-3 text-sm flex justify-between">
+              <span className="font-semibold">Quote total</span>
+              <span>
+                {fmt.money(diff.quoteTotal.from)} →{" "}
+                {fmt.money(diff.quoteTotal.to)}{" "}
+                <span
+                  className={
+                    diff.quoteTotal.change > 0
+                      ? "text-red-600"
+                      : diff.quoteTotal.change < 0
+                      ? "text-green-700"
+                      : "text-gray-500"
+                  }
+                >
+                  ({signedMoney(fmt, diff.quoteTotal.change)})
+                </span>
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useCurrentUser } from "@/app/auth-gate";
+import { can } from "@/lib/auth/roles";
+import { createFormatter } from "@/lib/i18n/format";
+import { STATUS_LABELS } from "@/lib/quotes/status";
+import type { QuoteSummary } from "@/lib/quotes/types";
+
+function quoteTotal(q: QuoteSummary): string {
+  return createFormatter({
+    currency: q.currency ?? undefined,
+    locale: q.locale ?? undefined,
+  }).money(q.quoteTotal);
+}
+
+export default function QuoteHistory() {
+  const [search, setSearch] = useState("");
+  const [quotes, setQuotes] = useState<QuoteSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const user = useCurrentUser();
+  const canDelete = !!user && can(user.role, "quotes:delete");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/quotes?q=${encodeURIComponent(search)}`, {
+        signal: controller.signal,
+      })
+        .then((res) => {
+          if (!res.ok) throw new Error("Failed to load quotes.");
+          return res.json() as Promise<{ quotes: QuoteSummary[] }>;
+        })
+        .then((data) => {
+          setQuotes(data.quotes);
+          setError(null);
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          console.error(err);
+          setError("Something went wrong while loading quotes.");
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [search]);
+
+  async function handleDelete(q: QuoteSummary) {
+    if (!window.confirm(`Delete quote ${q.quoteNumber}?`)) return;
+
+    const res = await fetch(`/api/quotes/${q.id}`, { method: "DELETE" });
+    if (!res.ok) {
+      setError(`Could not delete quote ${q.quoteNumber}.`);
+      return;
+    }
+    setQuotes((prev) => prev.filter((item) => item.id !== q.id));
+  }
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-5xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Quote History</h1>
+            <p className="text-gray-600 text-sm">
+              Search saved quotes by VIN, customer, unit number, or quote
+              number.
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-blue-700"
+          >
+            New Quote
+          </Link>
+        </div>
+
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search quotes..."
+          className="w-full p-3 border rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500 text-sm text-center">Loading quotes...</p>
+        ) : !quotes.length ? (
+          <p className="text-gray-500 text-sm text-center">
+            {search ? "No quotes match your search." : "No saved quotes yet."}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2">Quote #</th>
+                <th className="py-2 pr-2">Updated</th>
+                <th className="py-2 pr-2">Status</th>
+                <th className="py-2 pr-2">Customer</th>
+                <th className="py-2 pr-2">Unit</th>
+                <th className="py-2 pr-2">VIN / Vehicle</th>
+                <th className="py-2 pr-2 text-right">Total</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {quotes.map((q) => (
+                <tr key={q.id} className="border-b align-top">
+                  <td className="py-2 pr-2">
+                    <div className="font-semibold">{q.quoteNumber}</div>
+                    {q.revision > 1 && (
+                      <Link
+                        href={`/quotes/${q.id}/revisions`}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Rev {q.revision}
+                      </Link>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2 text-gray-600">
+                    {new Date(q.updatedAt).toLocaleDateString()}
+                    {q.updatedBy && (
+                      <div className="text-xs text-gray-500">
+                        by {q.updatedBy.name}
+                        {q.createdBy && q.createdBy.id !== q.updatedBy.id
+                          ? ` (created by ${q.createdBy.name})`
+                          : ""}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2">
+                    {STATUS_LABELS[q.status]}
+                    {q.status === "sent" && q.expiresAt && (
+                      <div className="text-xs text-gray-500">
+                        until {new Date(q.expiresAt).toLocaleDateString()}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2">{q.customerName || "—"}</td>
+                  <td className="py-2 pr-2">{q.unitNumber || "—"}</td>
+                  <td className="py-2 pr-2">
+                    <div className="font-mono text-xs">{q.vin}</div>
+                    <div className="text-gray-600">{q.vehicle}</div>
+                  </td>
+                  <td className="py-2 pr-2 text-right">{quoteTotal(q)}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <Link
+                      href={`/?quote=${q.id}`}
+                      className="text-blue-600 hover:underline mr-3"
+                    >
+                      Open
+                    </Link>
+                    {canDelete && (
+                      <button
+                        onClick={() => handleDelete(q)}
+                        className="text-red-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { createFormatter } from "@/lib/i18n/format";
+import type { CurrencyCode } from "@/lib/i18n/locales";
+import { STATUS_LABELS } from "@/lib/quotes/status";
+import type { QuoteStatus } from "@/lib/quotes/types";
+import type { QuoteAnalytics, ReportName } from "@/lib/reports/types";
+
+const TOP_ROWS = 10;
+
+function percent(value: number | null): string {
+  return value === null ? "–" : `${value.toFixed(1)}%`;
+}
+
+function CsvLink({ query, report }: { query: string; report: ReportName }) {
+  return (
+    <a
+      href={`/api/reports?${query}&format=csv&report=${report}`}
+      className="text-xs text-blue-600 underline"
+    >
+      Download CSV
+    </a>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="border rounded-lg p-3">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-xl font-semibold">{value}</div>
+    </div>
+  );
+}
+
+export default function Reports() {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [status, setStatus] = useState<QuoteStatus | "">("");
+  const [currency, setCurrency] = useState<CurrencyCode | "">("");
+  const [report, setReport] = useState<QuoteAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = new URLSearchParams({ from, to, status, currency }).toString();
+
+  useEffect(() => {
+    fetch(`/api/reports?${query}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load reports.");
+        return res.json() as Promise<QuoteAnalytics>;
+      })
+      .then((data) => {
+        setReport(data);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error(err);
+        setError("Could not load reports. Only managers can view them.");
+      });
+  }, [query]);
+
+  const { money } = createFormatter({ currency: report?.currency });
+
+  const sectionHeader = (title: string, name: ReportName) => (
+    <div className="flex justify-between items-center mb-2">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      <CsvLink query={query} report={name} />
+    </div>
+  );
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-5xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Reports</h1>
+            <p className="text-gray-600 text-sm">
+              Close rate, quote value, revenue and what we quote most, from
+              saved quotes. Dates are when the quote was created.
+            </p>
+          </div>
+          <Link href="/" className="text-xs text-blue-600 underline">
+            Back to quotes
+          </Link>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3 mb-6 text-sm">
+          <label>
+            <span className="block text-gray-600 mb-1">From</span>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="p-2 border rounded-lg"
+            />
+          </label>
+          <label>
+            <span className="block text-gray-600 mb-1">To</span>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="p-2 border rounded-lg"
+            />
+          </label>
+          <label>
+            <span className="block text-gray-600 mb-1">Status</span>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as QuoteStatus | "")}
+              className="p-2 border rounded-lg"
+            >
+              <option value="">All statuses</option>
+              {(Object.keys(STATUS_LABELS) as QuoteStatus[]).map((s) => (
+                <option key={s} value={s}>
+                  {STATUS_LABELS[s]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {report && report.currencies.length > 1 && (
+            <label>
+              <span className="block text-gray-600 mb-1">Currency</span>
+              <select
+                value={report.currency}
+                onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+                className="p-2 border rounded-lg"
+              >
+                {report.currencies.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {!report ? (
+          !error && (
+            <p className="text-gray-500 text-sm text-center">
+              Loading reports...
+            </p>
+          )
+        ) : (
+          <>
+            {sectionHeader("Summary", "summary")}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+              <Stat label="Quotes" value={String(report.quotes)} />
+              <Stat label="Average quote" value={money(report.averageQuote)} />
+              <Stat
+                label="Approval rate"
+                value={percent(report.approval.rate)}
+              />
+              <Stat label="Won revenue" value={money(report.revenue.total)} />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+              <Stat label="Labor" value={money(report.revenue.labor)} />
+              <Stat label="Parts" value={money(report.revenue.parts)} />
+              <Stat
+                label="Cores, fees & tax"
+                value={money(
+                  report.revenue.coreCharges + report.revenue.feesAndTax
+                )}
+              />
+              <Stat
+                label="Margin entered / realized"
+                value={`${percent(report.margin.averageEntered)} / ${percent(
+                  report.margin.averageRealized
+                )}`}
+              />
+            </div>
+            <p className="text-xs text-gray-500 mb-8">
+              {report.approval.won} won, {report.approval.declined} declined,{" "}
+              {report.approval.expired} expired. Revenue and margin cover won
+              quotes (approved or converted), counting only the lines the
+              customer approved. Realized margin is what was billed over list
+              price, after discounts.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
+              <div>
+                {sectionHeader("By status", "status")}
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-2">Status</th>
+                      <th className="py-2 pr-2 text-right">Quotes</th>
+                      <th className="py-2 text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.byStatus.map((s) => (
+                      <tr key={s.status} className="border-b">
+                        <td className="py-2 pr-2">{STATUS_LABELS[s.status]}</td>
+                        <td className="py-2 pr-2 text-right">{s.quotes}</td>
+                        <td className="py-2 text-right">
+                          {money(s.quoteTotal)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                {sectionHeader("By month", "months")}
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-2">Month</th>
+                      <th className="py-2 pr-2 text-right">Quotes</th>
+                      <th className="py-2 pr-2 text-right">Won</th>
+                      <th className="py-2 text-right">Revenue</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.byMonth.map((m) => (
+                      <tr key={m.month} className="border-b">
+                        <td className="py-2 pr-2">{m.month}</td>
+                        <td className="py-2 pr-2 text-right">{m.quotes}</td>
+                        <td className="py-2 pr-2 text-right">{m.won}</td>
+                        <td className="py-2 text-right">{money(m.revenue)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="mb-8">
+              {sectionHeader("Top operations", "operations")}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-2">Operation</th>
+                    <th className="py-2 pr-2 text-right">Quoted</th>
+                    <th className="py-2 pr-2 text-right">Approved</th>
+                    <th className="py-2 pr-2 text-right">SRT hrs</th>
+                    <th className="py-2 text-right">Approved value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.operations.slice(0, TOP_ROWS).map((o) => (
+                    <tr
+                      key={o.operationCode || o.operation}
+                      className="border-b"
+                    >
+                      <td className="py-2 pr-2">
+                        {o.operation}
+                        {o.operationCode && (
+                          <span className="text-xs text-gray-500 font-mono">
+                            {" "}
+                            {o.operationCode}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-right">{o.quoted}</td>
+                      <td className="py-2 pr-2 text-right">{o.approved}</td>
+                      <td className="py-2 pr-2 text-right">
+                        {o.srtHours.toFixed(2)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {money(o.approvedValue)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              {sectionHeader("Top makes & models", "vehicles")}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-2">Vehicle</th>
+                    <th className="py-2 pr-2 text-right">Quotes</th>
+                    <th className="py-2 pr-2 text-right">Won</th>
+                    <th className="py-2 text-right">Total quoted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.vehicles.slice(0, TOP_ROWS).map((v) => (
+                    <tr key={`${v.make}|${v.model}`} className="border-b">
+                      <td className="py-2 pr-2">
+                        {v.make} {v.model}
+                      </td>
+                      <td className="py-2 pr-2 text-right">{v.quotes}</td>
+                      <td className="py-2 pr-2 text-right">{v.won}</td>
+                      <td className="py-2 text-right">{money(v.quoteTotal)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
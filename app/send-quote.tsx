@@ -0,0 +1,211 @@
+"use client";
+
+import { useState } from "react";
+import type { Customer } from "@/lib/customers/types";
+import {
+  TEMPLATE_PLACEHOLDERS,
+  channelTemplates,
+  renderTemplate,
+  type TemplateValues,
+} from "@/lib/messaging/templates";
+import type { Channel, Delivery } from "@/lib/messaging/types";
+import type { SavedQuote } from "@/lib/quotes/types";
+import type { MessageTemplates } from "@/lib/settings/types";
+
+// "Send quote" for the editor's status panel: email or text the saved quote
+// to the customer from the shop's templates, with a log of past sends.
+
+type Props = {
+  quoteId: string;
+  customer: Customer | null;
+  templates: MessageTemplates;
+  /** Preview values; the server fills in the real ones when sending. */
+  values: TemplateValues;
+  deliveries: Delivery[];
+  onSent(quote: SavedQuote): void;
+};
+
+function recipientFor(channel: Channel, customer: Customer | null): string {
+  const contacts = customer?.contacts ?? [];
+  const match = contacts.find((c) => (channel === "email" ? c.email : c.phone));
+  return (channel === "email" ? match?.email : match?.phone) ?? "";
+}
+
+export default function SendQuote({
+  quoteId,
+  customer,
+  templates,
+  values,
+  deliveries,
+  onSent,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const [channel, setChannel] = useState<Channel>("email");
+  const [to, setTo] = useState("");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [attachPdf, setAttachPdf] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  function startMessage(next: Channel) {
+    const template = channelTemplates(next, templates);
+    setChannel(next);
+    setTo(recipientFor(next, customer));
+    setSubject(template.subject);
+    setBody(template.body);
+    setError(null);
+  }
+
+  function handleOpen() {
+    startMessage(channel);
+    setMessage(null);
+    setOpen(true);
+  }
+
+  async function handleSend() {
+    setSending(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/quotes/${quoteId}/send`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channel, to, subject, body, attachPdf }),
+      });
+      const data = await res.json();
+      // A failed delivery is still logged on the quote.
+      if (data?.quote) onSent(data.quote as SavedQuote);
+      if (!res.ok) {
+        setError(data?.error || "Could not send the quote.");
+        return;
+      }
+      setMessage(`Sent to ${to}.`);
+      setOpen(false);
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while sending the quote.");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  const preview = {
+    ...values,
+    approvalLink: values.approvalLink || "(approval link, created on send)",
+  };
+
+  return (
+    <div className="mb-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold">Send to customer:</span>
+        {!open && (
+          <button onClick={handleOpen} className="text-blue-600 underline">
+            Send quote
+          </button>
+        )}
+        {message && <span className="text-green-700">{message}</span>}
+      </div>
+
+      {open && (
+        <div className="mt-2 border rounded-lg bg-white p-3 space-y-2">
+          {error && (
+            <div className="text-red-600 bg-red-50 p-2 rounded">{error}</div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={channel}
+              onChange={(e) => startMessage(e.target.value as Channel)}
+              className="p-2 border rounded-md bg-white"
+            >
+              <option value="email">Email</option>
+              <option value="sms">Text message</option>
+            </select>
+            <input
+              type={channel === "email" ? "email" : "tel"}
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder={
+                channel === "email" ? "customer@example.com" : "+1 555 123 4567"
+              }
+              className="flex-1 min-w-[200px] p-2 border rounded-md"
+            />
+          </div>
+          {channel === "email" && (
+            <input
+              type="text"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="Subject"
+              className="w-full p-2 border rounded-md"
+            />
+          )}
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="w-full p-2 border rounded-md min-h-[100px]"
+          />
+          <p className="text-xs text-gray-500">
+            Placeholders: {TEMPLATE_PLACEHOLDERS}. Sends the last saved version
+            of the quote; a draft is marked sent.
+          </p>
+          <div className="text-xs bg-gray-50 border rounded p-2 whitespace-pre-wrap">
+            {channel === "email" && (
+              <div className="font-semibold mb-1">
+                {renderTemplate(subject, preview)}
+              </div>
+            )}
+            {renderTemplate(body, preview)}
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            {channel === "email" && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={attachPdf}
+                  onChange={(e) => setAttachPdf(e.target.checked)}
+                />
+                Attach PDF
+              </label>
+            )}
+            <button
+              onClick={handleSend}
+              disabled={sending}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-3 py-1 rounded-lg font-semibold"
+            >
+              {sending ? "Sending..." : "Send"}
+            </button>
+            <button
+              onClick={() => setOpen(false)}
+              className="text-gray-600 underline"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {deliveries.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {[...deliveries].reverse().map((d) => (
+            <li key={d.id} className="text-xs text-gray-600">
+              <span className="font-mono">
+                {new Date(d.at).toLocaleString()}
+              </span>{" "}
+              · {d.channel === "email" ? "Email" : "Text"} to {d.to}
+              {d.by && ` by ${d.by.name}`} ·{" "}
+              {d.status === "sent" ? (
+                <span className="text-green-700">Sent</span>
+              ) : (
+                <span className="text-red-600" title={d.error ?? undefined}>
+                  Failed
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,944 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  CURRENCIES,
+  LOCALES,
+  type CurrencyCode,
+  type LocaleCode,
+} from "@/lib/i18n/locales";
+import { TEMPLATE_PLACEHOLDERS } from "@/lib/messaging/templates";
+import { QUOTE_LIMITS } from "@/lib/quotes/schema";
+import { formatQuoteNumber } from "@/lib/settings/numbering";
+import { BASE_RATE_CLASS } from "@/lib/settings/rate-classes";
+import type {
+  FeeSettings,
+  FlatFee,
+  GlAccounts,
+  LaborRateClass,
+  MarkupTier,
+  MessageTemplates,
+  SettingsResponse,
+} from "@/lib/settings/types";
+
+const GL_ACCOUNT_LABELS: Record<keyof GlAccounts, string> = {
+  receivable: "Accounts receivable",
+  labor: "Labor",
+  parts: "Parts",
+  coreCharges: "Core charges",
+  shopSupplies: "Shop supplies",
+  fees: "Other fees",
+  salesTax: "Sales tax",
+};
+
+const inputClass =
+  "w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function ShopSettingsPage() {
+  const [settings, setSettings] = useState<SettingsResponse | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/settings")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load settings.");
+        return res.json() as Promise<SettingsResponse>;
+      })
+      .then(setSettings)
+      .catch((err) => {
+        console.error(err);
+        setError("Something went wrong while loading shop settings.");
+      });
+  }, []);
+
+  function update<K extends keyof SettingsResponse>(
+    field: K,
+    value: SettingsResponse[K]
+  ) {
+    setSettings((prev) => (prev ? { ...prev, [field]: value } : prev));
+    setMessage(null);
+  }
+
+  function updateNumbering<K extends keyof SettingsResponse["quoteNumbering"]>(
+    field: K,
+    value: SettingsResponse["quoteNumbering"][K]
+  ) {
+    setSettings((prev) =>
+      prev
+        ? {
+            ...prev,
+            quoteNumbering: { ...prev.quoteNumbering, [field]: value },
+          }
+        : prev
+    );
+    setMessage(null);
+  }
+
+  function updateRateClass(index: number, patch: Partial<LaborRateClass>) {
+    setSettings((prev) => {
+      if (!prev) return prev;
+      const laborRateClasses = [...prev.laborRateClasses];
+      laborRateClasses[index] = { ...laborRateClasses[index], ...patch };
+      return { ...prev, laborRateClasses };
+    });
+    setMessage(null);
+  }
+
+  function addRateClass() {
+    setSettings((prev) =>
+      prev
+        ? {
+            ...prev,
+            laborRateClasses: [
+              ...prev.laborRateClasses,
+              { code: "", name: "New Rate", rate: prev.defaultLaborRate },
+            ],
+          }
+        : prev
+    );
+    setMessage(null);
+  }
+
+  function removeRateClass(index: number) {
+    setSettings((prev) =>
+      prev
+        ? {
+            ...prev,
+            laborRateClasses: prev.laborRateClasses.filter(
+              (_, i) => i !== index
+            ),
+          }
+        : prev
+    );
+    setMessage(null);
+  }
+
+  function updateMarkupTier(index: number, patch: Partial<MarkupTier>) {
+    setSettings((prev) => {
+      if (!prev) return prev;
+      const partsMarkupMatrix = [...prev.partsMarkupMatrix];
+      partsMarkupMatrix[index] = { ...partsMarkupMatrix[index], ...patch };
+      return { ...prev, partsMarkupMatrix };
+    });
+    setMessage(null);
+  }
+
+  // New tiers go just below the open-ended tier, starting above the last
+  // bounded one.
+  function addMarkupTier() {
+    setSettings((prev) => {
+      if (!prev) return prev;
+      const bounded = prev.partsMarkupMatrix.filter((t) => t.upTo !== null);
+      const open = prev.partsMarkupMatrix.filter((t) => t.upTo === null);
+      const lastUpTo = bounded.at(-1)?.upTo ?? 0;
+      return {
+        ...prev,
+        partsMarkupMatrix: [
+          ...bounded,
+          {
+            upTo: lastUpTo ? lastUpTo * 2 : 50,
+            markupPercent: open[0]?.markupPercent ?? 0,
+          },
+          ...open,
+        ],
+      };
+    });
+    setMessage(null);
+  }
+
+  function removeMarkupTier(index: number) {
+    setSettings((prev) =>
+      prev
+        ? {
+            ...prev,
+            partsMarkupMatrix: prev.partsMarkupMatrix.filter(
+              (_, i) => i !== index
+            ),
+          }
+        : prev
+    );
+    setMessage(null);
+  }
+
+  function updateFees(patch: Partial<FeeSettings>) {
+    setSettings((prev) =>
+      prev ? { ...prev, fees: { ...prev.fees, ...patch } } : prev
+    );
+    setMessage(null);
+  }
+
+  function updateTemplates(patch: Partial<MessageTemplates>) {
+    setSettings((prev) =>
+      prev
+        ? {
+            ...prev,
+            messageTemplates: { ...prev.messageTemplates, ...patch },
+          }
+        : prev
+    );
+    setMessage(null);
+  }
+
+  function updateGlAccounts(patch: Partial<GlAccounts>) {
+    setSettings((prev) =>
+      prev ? { ...prev, glAccounts: { ...prev.glAccounts, ...patch } } : prev
+    );
+    setMessage(null);
+  }
+
+  function updateFlatFee(index: number, patch: Partial<FlatFee>) {
+    if (!settings) return;
+    const flatFees = [...settings.fees.flatFees];
+    flatFees[index] = { ...flatFees[index], ...patch };
+    updateFees({ flatFees });
+  }
+
+  async function handleSave() {
+    if (!settings) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      if (!res.ok) throw new Error("Failed to save settings.");
+
+      setSettings((await res.json()) as SettingsResponse);
+      setMessage("Shop settings saved.");
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while saving shop settings.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleLogoUpload(file: File | undefined) {
+    if (!file) return;
+
+    const form = new FormData();
+    form.append("logo", file);
+
+    setUploading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/settings/logo", {
+        method: "POST",
+        body: form,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || "Logo upload failed.");
+        return;
+      }
+      setSettings(data as SettingsResponse);
+      setMessage("Logo uploaded.");
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while uploading the logo.");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function handleLogoRemove() {
+    const res = await fetch("/api/settings/logo", { method: "DELETE" });
+    if (res.ok) {
+      setSettings((await res.json()) as SettingsResponse);
+      setMessage("Logo removed.");
+    }
+  }
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-3xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Shop Settings</h1>
+            <p className="text-gray-600 text-sm">
+              Defaults used for every new quote.
+            </p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 underline">
+            Back to quotes
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {!settings ? (
+          !error && (
+            <p className="text-gray-500 text-sm text-center">
+              Loading settings...
+            </p>
+          )
+        ) : (
+          <>
+            <h2 className="text-lg font-semibold mb-3">Shop</h2>
+
+            <div className="mb-4">
+              <label className="block mb-2 font-medium">Shop Name</label>
+              <input
+                type="text"
+                value={settings.shopName}
+                onChange={(e) => update("shopName", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="mb-4">
+              <label className="block mb-2 font-medium">Address</label>
+              <textarea
+                value={settings.address}
+                onChange={(e) => update("address", e.target.value)}
+                placeholder={"123 Service Rd\nSpringfield, OH 45501"}
+                className={`${inputClass} min-h-[80px]`}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block mb-2 font-medium">Phone</label>
+                <input
+                  type="tel"
+                  value={settings.phone}
+                  onChange={(e) => update("phone", e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">Email</label>
+                <input
+                  type="email"
+                  value={settings.email}
+                  onChange={(e) => update("email", e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="mb-6">
+              <label className="block mb-2 font-medium">Logo</label>
+              <div className="flex items-center gap-4">
+                {settings.logoUrl ? (
+                  <img
+                    src={settings.logoUrl}
+                    alt="Shop logo"
+                    className="h-12 w-auto border rounded p-1"
+                  />
+                ) : (
+                  <span className="text-sm text-gray-500">No logo</span>
+                )}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg"
+                  disabled={uploading}
+                  onChange={(e) => handleLogoUpload(e.target.files?.[0])}
+                  className="text-sm"
+                />
+                {settings.logoUrl && (
+                  <button
+                    onClick={handleLogoRemove}
+                    className="text-xs text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                PNG or JPEG, up to 1 MB. Appears on the quote and its PDF.
+              </p>
+            </div>
+
+            <h2 className="text-lg font-semibold mb-3">Pricing defaults</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+              <div>
+                <label className="block mb-2 font-medium">
+                  Labor Rate ($/hr)
+                </label>
+                <input
+                  type="number"
+                  value={settings.defaultLaborRate}
+                  onChange={(e) =>
+                    update("defaultLaborRate", Number(e.target.value))
+                  }
+                  className={inputClass}
+                  min={QUOTE_LIMITS.laborRate.min}
+                  max={QUOTE_LIMITS.laborRate.max}
+                />
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">
+                  Additional Margin (%)
+                </label>
+                <input
+                  type="number"
+                  value={settings.defaultMarginPercent}
+                  onChange={(e) =>
+                    update("defaultMarginPercent", Number(e.target.value))
+                  }
+                  className={inputClass}
+                  min={QUOTE_LIMITS.marginPercent.min}
+                  max={QUOTE_LIMITS.marginPercent.max}
+                />
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">
+                  Minimum Margin (%)
+                </label>
+                <input
+                  type="number"
+                  value={settings.minimumMarginPercent}
+                  onChange={(e) =>
+                    update("minimumMarginPercent", Number(e.target.value))
+                  }
+                  className={inputClass}
+                  min={QUOTE_LIMITS.marginPercent.min}
+                  max={QUOTE_LIMITS.marginPercent.max}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Service writers need a manager&apos;s approval to quote a
+                  lower margin or change labor rates and markups.
+                </p>
+              </div>
+            </div>
+
+            <div className="mb-6">
+              <div className="flex justify-between items-center mb-2">
+                <label className="font-medium">Parts Markup Matrix</label>
+                <button
+                  onClick={addMarkupTier}
+                  className="text-sm bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700"
+                >
+                  + Add Tier
+                </button>
+              </div>
+              <div className="space-y-2">
+                {settings.partsMarkupMatrix.map((tier, idx) => (
+                  <div key={idx} className="flex items-center gap-2 text-sm">
+                    {tier.upTo === null ? (
+                      <div className="w-48 p-2 text-gray-500">
+                        {idx ? "Everything above" : "All parts"}
+                      </div>
+                    ) : (
+                      <>
+                        <span className="text-gray-500">Unit cost up to $</span>
+                        <input
+                          type="number"
+                          value={tier.upTo}
+                          onChange={(e) =>
+                            updateMarkupTier(idx, {
+                              upTo: Number(e.target.value),
+                            })
+                          }
+                          className="w-24 p-2 border rounded-md"
+                          min={0}
+                        />
+                      </>
+                    )}
+                    <input
+                      type="number"
+                      value={tier.markupPercent}
+                      onChange={(e) =>
+                        updateMarkupTier(idx, {
+                          markupPercent: Number(e.target.value),
+                        })
+                      }
+                      className="w-24 p-2 border rounded-md"
+                      min={QUOTE_LIMITS.markupPercent.min}
+                      max={QUOTE_LIMITS.markupPercent.max}
+                    />
+                    <span className="text-gray-500">% markup</span>
+                    <button
+                      onClick={() => removeMarkupTier(idx)}
+                      disabled={tier.upTo === null}
+                      className="text-xs text-red-600 hover:underline disabled:invisible"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Each part is marked up by the first tier its unit cost fits
+                under. Tiers are sorted by cost when you save.
+              </p>
+            </div>
+
+            <div className="mb-6">
+              <div className="flex justify-between items-center mb-2">
+                <label className="font-medium">Labor Rate Classes</label>
+                <button
+                  onClick={addRateClass}
+                  className="text-sm bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700"
+                >
+                  + Add Rate Class
+                </button>
+              </div>
+              <div className="space-y-2">
+                {settings.laborRateClasses.map((c, idx) => (
+                  <div key={c.code || idx} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={c.name}
+                      onChange={(e) =>
+                        updateRateClass(idx, { name: e.target.value })
+                      }
+                      className="flex-1 p-2 border rounded-md text-sm"
+                    />
+                    {c.code === BASE_RATE_CLASS ? (
+                      <div className="w-40 p-2 text-sm text-gray-500">
+                        Base labor rate
+                      </div>
+                    ) : (
+                      <input
+                        type="number"
+                        value={c.rate ?? ""}
+                        onChange={(e) =>
+                          updateRateClass(idx, {
+                            rate: e.target.value
+                              ? Number(e.target.value)
+                              : null,
+                          })
+                        }
+                        placeholder="Base rate"
+                        className="w-40 p-2 border rounded-md text-sm"
+                        min={0}
+                        max={QUOTE_LIMITS.lineLaborRate.max}
+                      />
+                    )}
+                    <button
+                      onClick={() => removeRateClass(idx)}
+                      disabled={c.code === BASE_RATE_CLASS}
+                      className="text-xs text-red-600 hover:underline disabled:invisible"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                $/hr for each class. Mechanical always bills at the quote&apos;s
+                base labor rate.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block mb-2 font-medium">Currency</label>
+                <select
+                  value={settings.currency}
+                  onChange={(e) =>
+                    update("currency", e.target.value as CurrencyCode)
+                  }
+                  className={`${inputClass} bg-white`}
+                >
+                  {CURRENCIES.map((c) => (
+                    <option key={c.code} value={c.code}>
+                      {c.code} – {c.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">
+                  Language &amp; Format
+                </label>
+                <select
+                  value={settings.locale}
+                  onChange={(e) =>
+                    update("locale", e.target.value as LocaleCode)
+                  }
+                  className={`${inputClass} bg-white`}
+                >
+                  {LOCALES.map((l) => (
+                    <option key={l.code} value={l.code}>
+                      {l.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  New quotes start in this currency and language; each quote can
+                  override them.
+                </p>
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <label className="block mb-2 font-medium">
+                Default Terms & Conditions
+              </label>
+              <textarea
+                value={settings.defaultTerms}
+                onChange={(e) => update("defaultTerms", e.target.value)}
+                className={`${inputClass} min-h-[100px] text-sm`}
+              />
+            </div>
+
+            <div className="mb-4">
+              <label className="block mb-2 font-medium">
+                Quote Email &amp; Text Messages
+              </label>
+              <input
+                type="text"
+                value={settings.messageTemplates.emailSubject}
+                onChange={(e) =>
+                  updateTemplates({ emailSubject: e.target.value })
+                }
+                placeholder="Email subject"
+                className={`${inputClass} mb-2 text-sm`}
+              />
+              <textarea
+                value={settings.messageTemplates.emailBody}
+                onChange={(e) => updateTemplates({ emailBody: e.target.value })}
+                placeholder="Email message"
+                className={`${inputClass} min-h-[120px] mb-2 text-sm`}
+              />
+              <textarea
+                value={settings.messageTemplates.sms}
+                onChange={(e) => updateTemplates({ sms: e.target.value })}
+                placeholder="Text message"
+                className={`${inputClass} min-h-[60px] text-sm`}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Used by &ldquo;Send quote&rdquo;. {TEMPLATE_PLACEHOLDERS} are
+                filled in from the quote.
+              </p>
+            </div>
+
+            <div className="mb-6">
+              <label className="block mb-2 font-medium">
+                Quote Valid For (days)
+              </label>
+              <input
+                type="number"
+                value={settings.quoteValidityDays}
+                onChange={(e) =>
+                  update("quoteValidityDays", Number(e.target.value))
+                }
+                className={`${inputClass} md:w-40`}
+                min={1}
+                max={365}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Sent quotes expire this many days after sending and can no
+                longer be approved online. Keep it in step with your terms.
+              </p>
+            </div>
+
+            <h2 className="text-lg font-semibold mb-3">Fees &amp; tax</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-2">
+              <div>
+                <label className="block mb-2 font-medium">
+                  Shop Supplies (% of labor)
+                </label>
+                <input
+                  type="number"
+                  value={settings.fees.shopSupplies.percentOfLabor}
+                  onChange={(e) =>
+                    updateFees({
+                      shopSupplies: {
+                        ...settings.fees.shopSupplies,
+                        percentOfLabor: Number(e.target.value),
+                      },
+                    })
+                  }
+                  className={inputClass}
+                  min={0}
+                  step={0.5}
+                />
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">
+                  Shop Supplies Cap ($)
+                </label>
+                <input
+                  type="number"
+                  value={settings.fees.shopSupplies.cap ?? ""}
+                  onChange={(e) =>
+                    updateFees({
+                      shopSupplies: {
+                        ...settings.fees.shopSupplies,
+                        cap: e.target.value ? Number(e.target.value) : null,
+                      },
+                    })
+                  }
+                  placeholder="No cap"
+                  className={inputClass}
+                  min={0}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm md:mt-8">
+                <input
+                  type="checkbox"
+                  checked={settings.fees.shopSupplies.taxable}
+                  onChange={(e) =>
+                    updateFees({
+                      shopSupplies: {
+                        ...settings.fees.shopSupplies,
+                        taxable: e.target.checked,
+                      },
+                    })
+                  }
+                />
+                Shop supplies are taxable
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block mb-2 font-medium">
+                  Parts Tax Rate (%)
+                </label>
+                <input
+                  type="number"
+                  value={settings.fees.taxRates.parts}
+                  onChange={(e) =>
+                    updateFees({
+                      taxRates: {
+                        ...settings.fees.taxRates,
+                        parts: Number(e.target.value),
+                      },
+                    })
+                  }
+                  className={inputClass}
+                  min={0}
+                  step={0.01}
+                />
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">
+                  Labor Tax Rate (%)
+                </label>
+                <input
+                  type="number"
+                  value={settings.fees.taxRates.labor}
+                  onChange={(e) =>
+                    updateFees({
+                      taxRates: {
+                        ...settings.fees.taxRates,
+                        labor: Number(e.target.value),
+                      },
+                    })
+                  }
+                  className={inputClass}
+                  min={0}
+                  step={0.01}
+                />
+              </div>
+            </div>
+
+            <div className="mb-6">
+              <div className="flex justify-between items-center mb-2">
+                <label className="font-medium">Flat Fees</label>
+                <button
+                  onClick={() =>
+                    updateFees({
+                      flatFees: [
+                        ...settings.fees.flatFees,
+                        {
+                          code: "",
+                          name: "New Fee",
+                          amount: 0,
+                          taxable: false,
+                          autoApply: false,
+                        },
+                      ],
+                    })
+                  }
+                  className="text-sm bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700"
+                >
+                  + Add Fee
+                </button>
+              </div>
+              <div className="space-y-2">
+                {settings.fees.flatFees.map((fee, idx) => (
+                  <div
+                    key={fee.code || idx}
+                    className="flex flex-wrap items-center gap-2 text-sm"
+                  >
+                    <input
+                      type="text"
+                      value={fee.name}
+                      onChange={(e) =>
+                        updateFlatFee(idx, { name: e.target.value })
+                      }
+                      className="flex-1 p-2 border rounded-md"
+                    />
+                    <input
+                      type="number"
+                      value={fee.amount}
+                      onChange={(e) =>
+                        updateFlatFee(idx, { amount: Number(e.target.value) })
+                      }
+                      className="w-28 p-2 border rounded-md"
+                      min={0}
+                    />
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={fee.taxable}
+                        onChange={(e) =>
+                          updateFlatFee(idx, { taxable: e.target.checked })
+                        }
+                      />
+                      Taxable
+                    </label>
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={fee.autoApply}
+                        onChange={(e) =>
+                          updateFlatFee(idx, { autoApply: e.target.checked })
+                        }
+                      />
+                      Add to new quotes
+                    </label>
+                    <button
+                      onClick={() =>
+                        updateFees({
+                          flatFees: settings.fees.flatFees.filter(
+                            (_, i) => i !== idx
+                          ),
+                        })
+                      }
+                      className="text-xs text-red-600 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Disposal, DEF, and other per-quote charges. Taxable fees use the
+                parts tax rate. Customers marked tax exempt pay no tax.
+              </p>
+            </div>
+
+            <h2 className="text-lg font-semibold mb-3">Accounting export</h2>
+
+            <div className="mb-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {(Object.keys(GL_ACCOUNT_LABELS) as (keyof GlAccounts)[]).map(
+                  (key) => (
+                    <div key={key}>
+                      <label className="block mb-2 font-medium">
+                        {GL_ACCOUNT_LABELS[key]}
+                      </label>
+                      <input
+                        type="text"
+                        value={settings.glAccounts[key]}
+                        onChange={(e) =>
+                          updateGlAccounts({ [key]: e.target.value })
+                        }
+                        className={inputClass}
+                      />
+                    </div>
+                  )
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                GL accounts the{" "}
+                <Link href="/accounting" className="text-blue-600 underline">
+                  accounting export
+                </Link>{" "}
+                posts each part of an invoice to. Use the names from your chart
+                of accounts.
+              </p>
+            </div>
+
+            <h2 className="text-lg font-semibold mb-3">Quote numbering</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-2">
+              <div>
+                <label className="block mb-2 font-medium">Prefix</label>
+                <input
+                  type="text"
+                  value={settings.quoteNumbering.prefix}
+                  onChange={(e) => updateNumbering("prefix", e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">
+                  Start numbering at
+                </label>
+                <input
+                  type="number"
+                  value={settings.quoteNumbering.startAt}
+                  onChange={(e) =>
+                    updateNumbering("startAt", Number(e.target.value))
+                  }
+                  className={inputClass}
+                  min={1}
+                />
+              </div>
+              <div>
+                <label className="block mb-2 font-medium">Zero-pad to</label>
+                <input
+                  type="number"
+                  value={settings.quoteNumbering.padding}
+                  onChange={(e) =>
+                    updateNumbering("padding", Number(e.target.value))
+                  }
+                  className={inputClass}
+                  min={0}
+                  max={10}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm mb-2">
+              <input
+                type="checkbox"
+                checked={settings.quoteNumbering.includeYear}
+                onChange={(e) =>
+                  updateNumbering("includeYear", e.target.checked)
+                }
+              />
+              Include the year (e.g. Q-2026-1001)
+            </label>
+
+            <p className="text-xs text-gray-500 mb-6">
+              Next quote looks like{" "}
+              <span className="font-mono">
+                {formatQuoteNumber(
+                  settings.quoteNumbering,
+                  settings.quoteNumbering.startAt
+                )}
+              </span>
+              . Numbers never go backwards; raising the start skips ahead.
+            </p>
+
+            {message && (
+              <div className="mb-4 text-sm text-green-700 bg-green-50 p-3 rounded-lg">
+                {message}
+              </div>
+            )}
+
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white p-3 rounded-lg font-semibold"
+            >
+              {saving ? "Saving..." : "Save Settings"}
+            </button>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,23 @@
+import { useEffect, useMemo, useState } from "react";
+import { createFormatter, type Formatter } from "@/lib/i18n/format";
+import type { QuoteFormat } from "@/lib/i18n/locales";
+import type { SettingsResponse } from "@/lib/settings/types";
+
+// Amounts that don't belong to one quote – price lists, packages, customer
+// rates – in the shop's own currency and locale from settings.
+
+export function useShopFormat(): Formatter {
+  const [format, setFormat] = useState<QuoteFormat | null>(null);
+
+  useEffect(() => {
+    fetch("/api/settings")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load shop settings.");
+        return res.json() as Promise<SettingsResponse>;
+      })
+      .then((s) => setFormat({ currency: s.currency, locale: s.locale }))
+      .catch((err) => console.error(err));
+  }, []);
+
+  return useMemo(() => createFormatter(format ?? {}), [format]);
+}
@@ -0,0 +1,85 @@
+import { useCallback, useState } from "react";
+
+// State with undo/redo, for the quote editor's line items. Edits tagged
+// with the same group in quick succession (typing in one field) undo as
+// one step.
+
+const LIMIT = 100;
+const GROUP_MS = 1000;
+
+type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  group: string | null;
+  at: number;
+};
+
+function fresh<T>(value: T): History<T> {
+  return { past: [], present: value, future: [], group: null, at: 0 };
+}
+
+export function useUndoable<T>(initial: T) {
+  const [history, setHistory] = useState<History<T>>(() => fresh(initial));
+
+  const set = useCallback(
+    (update: (prev: T) => T, group: string | null = null) => {
+      setHistory((h) => {
+        const next = update(h.present);
+        if (next === h.present) return h;
+        const now = Date.now();
+        const merge =
+          group !== null && group === h.group && now - h.at < GROUP_MS;
+        return {
+          past: merge ? h.past : [...h.past, h.present].slice(-LIMIT),
+          present: next,
+          future: [],
+          group,
+          at: now,
+        };
+      });
+    },
+    []
+  );
+
+  /** Replace the value and forget the history (a new or reloaded quote). */
+  const reset = useCallback((value: T) => setHistory(fresh(value)), []);
+
+  const undo = useCallback(() => {
+    setHistory((h) =>
+      h.past.length
+        ? {
+            past: h.past.slice(0, -1),
+            present: h.past[h.past.length - 1],
+            future: [h.present, ...h.future],
+            group: null,
+            at: 0,
+          }
+        : h
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((h) =>
+      h.future.length
+        ? {
+            past: [...h.past, h.present],
+            present: h.future[0],
+            future: h.future.slice(1),
+            group: null,
+            at: 0,
+          }
+        : h
+    );
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
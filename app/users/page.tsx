@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { MIN_PASSWORD_LENGTH } from "@/lib/auth/input";
+import { ROLE_LABELS, ROLES } from "@/lib/auth/roles";
+import type { PublicUser, UserInput } from "@/lib/auth/types";
+
+const EMPTY_FORM: UserInput = {
+  username: "",
+  name: "",
+  role: "service_writer",
+  password: "",
+  active: true,
+};
+
+export default function Users() {
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<UserInput>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/users")
+      .then((res) => {
+        if (!res.ok) throw new Error("Failed to load users.");
+        return res.json() as Promise<{ users: PublicUser[] }>;
+      })
+      .then((data) => setUsers(data.users))
+      .catch((err) => {
+        console.error(err);
+        setError("Only managers can manage user accounts.");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  function update<K extends keyof UserInput>(key: K, value: UserInput[K]) {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  }
+
+  function handleEdit(u: PublicUser) {
+    setEditingId(u.id);
+    setForm({
+      username: u.username,
+      name: u.name,
+      role: u.role,
+      password: "",
+      active: u.active,
+    });
+    setError(null);
+  }
+
+  function handleCancel() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  }
+
+  async function handleSave() {
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await fetch(
+        editingId
+          ? `/api/users/${encodeURIComponent(editingId)}`
+          : "/api/users",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(form),
+        }
+      );
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(body?.error || "Could not save the user.");
+        return;
+      }
+
+      const saved = body as PublicUser;
+      setUsers((prev) =>
+        editingId
+          ? prev.map((u) => (u.id === saved.id ? saved : u))
+          : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      handleCancel();
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while saving the user.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const inputClass = "w-full p-2 border rounded-lg";
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-4xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Users</h1>
+            <p className="text-gray-600 text-sm">
+              Service writers quote and manage customers; pricing overrides need
+              a manager. Technicians clock time on work orders.
+            </p>
+          </div>
+          <Link href="/" className="text-xs text-blue-600 underline">
+            Back to quotes
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500 text-sm text-center">Loading users...</p>
+        ) : (
+          <table className="w-full text-sm mb-8">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2">Name</th>
+                <th className="py-2 pr-2">Username</th>
+                <th className="py-2 pr-2">Role</th>
+                <th className="py-2 pr-2">Status</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((u) => (
+                <tr key={u.id} className="border-b">
+                  <td className="py-2 pr-2 font-semibold">{u.name}</td>
+                  <td className="py-2 pr-2 font-mono text-xs">{u.username}</td>
+                  <td className="py-2 pr-2">{ROLE_LABELS[u.role]}</td>
+                  <td className="py-2 pr-2">
+                    {u.active ? (
+                      "Active"
+                    ) : (
+                      <span className="text-gray-400">Inactive</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => handleEdit(u)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      Edit
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <h2 className="text-lg font-semibold mb-3">
+          {editingId ? `Edit ${form.name || "user"}` : "Add a user"}
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block mb-1 font-medium">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => update("name", e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block mb-1 font-medium">Username</label>
+            <input
+              type="text"
+              value={form.username}
+              onChange={(e) => update("username", e.target.value)}
+              className={inputClass}
+              autoComplete="off"
+            />
+          </div>
+          <div>
+            <label className="block mb-1 font-medium">Role</label>
+            <select
+              value={form.role}
+              onChange={(e) =>
+                update("role", e.target.value as UserInput["role"])
+              }
+              className={inputClass}
+            >
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block mb-1 font-medium">
+              {editingId ? "New password" : "Password"}
+            </label>
+            <input
+              type="password"
+              value={form.password}
+              onChange={(e) => update("password", e.target.value)}
+              className={inputClass}
+              autoComplete="new-password"
+              placeholder={
+                editingId
+                  ? "Leave blank to keep"
+                  : `At least ${MIN_PASSWORD_LENGTH} characters`
+              }
+            />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 mb-4 text-sm">
+          <input
+            type="checkbox"
+            checked={form.active}
+            onChange={(e) => update("active", e.target.checked)}
+          />
+          Active (inactive users can&apos;t sign in)
+        </label>
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-semibold"
+          >
+            {saving ? "Saving..." : editingId ? "Save Changes" : "Add User"}
+          </button>
+          {editingId && (
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 rounded-lg border hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,389 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useCurrentUser } from "@/app/auth-gate";
+import {
+  WORK_ORDER_STATUS_LABELS,
+  entryHours,
+  lineActualHours,
+  lineVariance,
+  workOrderHours,
+} from "@/lib/workorders/hours";
+import type {
+  ClockAction,
+  WorkOrder,
+  WorkOrderLine,
+  WorkOrderUpdate,
+} from "@/lib/workorders/types";
+
+// Remembered per browser so a tech at a shared terminal only types it once.
+const TECHNICIAN_KEY = "vinquoter.technician";
+
+function signedHours(hours: number): string {
+  return `${hours > 0 ? "+" : ""}${hours.toFixed(2)}`;
+}
+
+export default function WorkOrderDetail() {
+  const { id } = useParams<{ id: string }>();
+
+  const [workOrder, setWorkOrder] = useState<WorkOrder | null>(null);
+  const [technician, setTechnician] = useState("");
+  const [now, setNow] = useState(() => new Date());
+  const [error, setError] = useState<string | null>(null);
+
+  // Technicians always clock as themselves; others can clock for anyone.
+  const user = useCurrentUser();
+  const ownClockOnly = user?.role === "technician";
+  const clockingAs = ownClockOnly ? user.name : technician;
+
+  useEffect(() => {
+    fetch(`/api/work-orders/${encodeURIComponent(id)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Work order not found.");
+        return res.json() as Promise<WorkOrder>;
+      })
+      .then((data) => {
+        setWorkOrder(data);
+        setTechnician(window.localStorage.getItem(TECHNICIAN_KEY) ?? "");
+      })
+      .catch((err) => {
+        console.error(err);
+        setError("Could not load this work order.");
+      });
+  }, [id]);
+
+  // Keep running clocks ticking.
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  function handleTechnicianChange(name: string) {
+    setTechnician(name);
+    window.localStorage.setItem(TECHNICIAN_KEY, name);
+  }
+
+  function editLine(lineId: string, patch: Partial<WorkOrderLine>) {
+    setWorkOrder((prev) =>
+      prev
+        ? {
+            ...prev,
+            lines: prev.lines.map((l) =>
+              l.id === lineId ? { ...l, ...patch } : l
+            ),
+          }
+        : prev
+    );
+  }
+
+  async function save(update: WorkOrderUpdate) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/work-orders/${encodeURIComponent(id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body?.error || "Could not save the work order.");
+        return;
+      }
+      setWorkOrder(body as WorkOrder);
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while saving the work order.");
+    }
+  }
+
+  async function handleClock(line: WorkOrderLine, action: ClockAction) {
+    if (!clockingAs.trim()) {
+      setError("Enter your name before clocking in or out.");
+      return;
+    }
+
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/work-orders/${encodeURIComponent(id)}/clock`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            lineId: line.id,
+            action,
+            technician: clockingAs,
+          }),
+        }
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body?.error || "Could not update the time clock.");
+        return;
+      }
+      setWorkOrder(body as WorkOrder);
+      setNow(new Date());
+    } catch (err) {
+      console.error(err);
+      setError("Something went wrong while updating the time clock.");
+    }
+  }
+
+  if (!workOrder) {
+    return (
+      <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+        <p className="text-gray-500 text-sm">
+          {error ?? "Loading work order..."}
+        </p>
+      </main>
+    );
+  }
+
+  const totals = workOrderHours(workOrder, now);
+  const isMine = (name: string) =>
+    name.toLowerCase() === clockingAs.trim().toLowerCase();
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-5xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">
+              Work Order {workOrder.workOrderNumber}
+            </h1>
+            <p className="text-gray-600 text-sm">
+              {WORK_ORDER_STATUS_LABELS[workOrder.status]}
+              {workOrder.completedAt &&
+                ` ${new Date(workOrder.completedAt).toLocaleString()}`}{" "}
+              · from quote{" "}
+              <Link
+                href={`/?quote=${workOrder.quoteId}`}
+                className="text-blue-600 underline"
+              >
+                {workOrder.quoteNumber}
+              </Link>
+            </p>
+          </div>
+          <Link href="/work-orders" className="text-xs text-blue-600 underline">
+            All work orders
+          </Link>
+        </div>
+
+        <div className="mb-4 text-sm">
+          <p>
+            <span className="font-semibold">Customer:</span>{" "}
+            {workOrder.customerName || "—"}
+            {workOrder.unitNumber && ` · Unit ${workOrder.unitNumber}`}
+          </p>
+          <p>
+            {workOrder.vehicle} ·{" "}
+            <span className="font-mono text-gray-600">{workOrder.vin}</span>
+          </p>
+        </div>
+
+        <div className="mb-4">
+          <label className="block mb-2 font-medium">Technician</label>
+          <input
+            type="text"
+            value={clockingAs}
+            onChange={(e) => handleTechnicianChange(e.target.value)}
+            readOnly={ownClockOnly}
+            placeholder="Your name, to clock in and out"
+            className="w-full md:w-80 p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-3 mb-4">
+          {workOrder.lines.map((line) => {
+            const clockedIn = line.time.some(
+              (e) => !e.clockOut && isMine(e.technician)
+            );
+            const running = line.time.filter((e) => !e.clockOut);
+            const variance = lineVariance(line, now);
+
+            return (
+              <div
+                key={line.id}
+                className={`border rounded-lg p-4 ${
+                  line.done ? "bg-gray-50" : ""
+                }`}
+              >
+                <div className="flex flex-wrap justify-between items-start gap-2 mb-3">
+                  <div>
+                    <div className="font-semibold">{line.operation}</div>
+                    {line.operationCode && (
+                      <div className="text-xs text-gray-500 font-mono">
+                        {line.operationCode}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 text-sm">
+                    {!line.done && (
+                      <button
+                        onClick={() =>
+                          handleClock(line, clockedIn ? "out" : "in")
+                        }
+                        className={`px-3 py-1 rounded-lg text-white text-xs font-semibold ${
+                          clockedIn
+                            ? "bg-red-600 hover:bg-red-700"
+                            : "bg-green-600 hover:bg-green-700"
+                        }`}
+                      >
+                        {clockedIn ? "Clock Out" : "Clock In"}
+                      </button>
+                    )}
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={line.done}
+                        onChange={(e) =>
+                          save({
+                            lines: [{ id: line.id, done: e.target.checked }],
+                          })
+                        }
+                      />
+                      Done
+                    </label>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm mb-3">
+                  <div>
+                    <div className="text-xs text-gray-500 mb-1">
+                      Assigned To
+                    </div>
+                    <input
+                      type="text"
+                      value={line.technician}
+                      onChange={(e) =>
+                        editLine(line.id, { technician: e.target.value })
+                      }
+                      onBlur={(e) =>
+                        save({
+                          lines: [{ id: line.id, technician: e.target.value }],
+                        })
+                      }
+                      placeholder="Unassigned"
+                      className="w-full p-2 border rounded-md"
+                    />
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500 mb-1">SRT Hours</div>
+                    <div className="p-2">{line.srtHours.toFixed(2)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500 mb-1">
+                      Actual Hours
+                    </div>
+                    <div className="p-2">
+                      {lineActualHours(line, now).toFixed(2)}
+                      {running.length > 0 && (
+                        <span className="text-xs text-green-700">
+                          {" "}
+                          (on the clock:{" "}
+                          {running.map((e) => e.technician).join(", ")})
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500 mb-1">
+                      Actual vs SRT
+                    </div>
+                    <div
+                      className={`p-2 ${
+                        variance > 0 ? "text-red-600" : "text-green-700"
+                      }`}
+                    >
+                      {line.time.length ? signedHours(variance) : "—"}
+                    </div>
+                  </div>
+                </div>
+
+                <textarea
+                  value={line.techNotes}
+                  onChange={(e) =>
+                    editLine(line.id, { techNotes: e.target.value })
+                  }
+                  onBlur={(e) =>
+                    save({
+                      lines: [{ id: line.id, techNotes: e.target.value }],
+                    })
+                  }
+                  placeholder="Tech notes for this operation (shop only)..."
+                  className="w-full p-2 border rounded-md text-sm"
+                  rows={2}
+                />
+
+                {line.time.length > 0 && (
+                  <details className="mt-2 text-xs text-gray-600">
+                    <summary className="cursor-pointer">
+                      Time entries ({line.time.length})
+                    </summary>
+                    <ul className="mt-1 space-y-0.5">
+                      {line.time.map((entry, idx) => (
+                        <li key={idx}>
+                          {entry.technician}:{" "}
+                          {new Date(entry.clockIn).toLocaleString()} –{" "}
+                          {entry.clockOut
+                            ? new Date(entry.clockOut).toLocaleTimeString()
+                            : "now"}{" "}
+                          ({entryHours(entry, now).toFixed(2)} hrs)
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end gap-6 text-sm mb-4">
+          <span>
+            <span className="font-semibold">SRT:</span>{" "}
+            {totals.srtHours.toFixed(2)} hrs
+          </span>
+          <span>
+            <span className="font-semibold">Actual:</span>{" "}
+            {totals.actualHours.toFixed(2)} hrs
+          </span>
+          <span
+            className={
+              totals.actualHours > totals.srtHours
+                ? "text-red-600"
+                : "text-green-700"
+            }
+          >
+            {signedHours(totals.actualHours - totals.srtHours)} hrs
+          </span>
+        </div>
+
+        <div>
+          <label className="block mb-2 font-medium">Tech Notes</label>
+          <textarea
+            value={workOrder.techNotes}
+            onChange={(e) =>
+              setWorkOrder({ ...workOrder, techNotes: e.target.value })
+            }
+            onBlur={(e) => save({ techNotes: e.target.value })}
+            placeholder="Findings, parts used, follow-ups... (shop only)"
+            className="w-full p-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[80px]"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Tech notes stay in the shop; they never appear on the customer
+            quote, PDF, or approval page.
+          </p>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { WORK_ORDER_STATUS_LABELS } from "@/lib/workorders/hours";
+import type { WorkOrderSummary } from "@/lib/workorders/types";
+
+export default function WorkOrderList() {
+  const [search, setSearch] = useState("");
+  const [workOrders, setWorkOrders] = useState<WorkOrderSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/work-orders?q=${encodeURIComponent(search)}`, {
+        signal: controller.signal,
+      })
+        .then((res) => {
+          if (!res.ok) throw new Error("Failed to load work orders.");
+          return res.json() as Promise<{ workOrders: WorkOrderSummary[] }>;
+        })
+        .then((data) => {
+          setWorkOrders(data.workOrders);
+          setError(null);
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          console.error(err);
+          setError("Something went wrong while loading work orders.");
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [search]);
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gray-100 p-6">
+      <div className="bg-white shadow-xl rounded-xl p-8 w-full max-w-5xl">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Work Orders</h1>
+            <p className="text-gray-600 text-sm">
+              Approved quotes in the shop. Search by work order or quote number,
+              customer, unit, VIN, or technician.
+            </p>
+          </div>
+          <Link href="/" className="text-xs text-blue-600 underline">
+            Back to quotes
+          </Link>
+        </div>
+
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search work orders..."
+          className="w-full p-3 border rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500 text-sm text-center">
+            Loading work orders...
+          </p>
+        ) : !workOrders.length ? (
+          <p className="text-gray-500 text-sm text-center">
+            {search
+              ? "No work orders match your search."
+              : "No work orders yet. Convert an approved quote to start one."}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2">WO #</th>
+                <th className="py-2 pr-2">Status</th>
+                <th className="py-2 pr-2">Customer / Unit</th>
+                <th className="py-2 pr-2">Vehicle</th>
+                <th className="py-2 pr-2">Technicians</th>
+                <th className="py-2 text-right">Actual / SRT Hrs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {workOrders.map((wo) => (
+                <tr key={wo.id} className="border-b align-top">
+                  <td className="py-2 pr-2">
+                    <Link
+                      href={`/work-orders/${wo.id}`}
+                      className="font-semibold text-blue-600 hover:underline"
+                    >
+                      {wo.workOrderNumber}
+                    </Link>
+                    <div className="text-xs text-gray-500">
+                      Quote {wo.quoteNumber}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-2">
+                    {WORK_ORDER_STATUS_LABELS[wo.status]}
+                  </td>
+                  <td className="py-2 pr-2">
+                    {wo.customerName || "—"}
+                    {wo.unitNumber && (
+                      <div className="text-xs text-gray-500">
+                        Unit {wo.unitNumber}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2">
+                    <div className="font-mono text-xs">{wo.vin}</div>
+                    <div className="text-gray-600">{wo.vehicle}</div>
+                  </td>
+                  <td className="py-2 pr-2">
+                    {wo.technicians.join(", ") || "Unassigned"}
+                  </td>
+                  <td
+                    className={`py-2 text-right ${
+                      wo.actualHours > wo.srtHours ? "text-red-600" : ""
+                    }`}
+                  >
+                    {wo.actualHours.toFixed(2)} / {wo.srtHours.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,186 @@
+import { toCsv } from "@/lib/csv";
+import type { AccountingInvoice, ExportFormat, InvoiceLineKind } from "./types";
+
+// Export adapters: the same invoices written out for different systems.
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "iif"];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV (one row per invoice line)",
+  json: "JSON",
+  iif: "QuickBooks IIF",
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  iif: "text/plain; charset=utf-8",
+};
+
+export function exportContentType(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+const CSV_HEADER = [
+  "invoice_number",
+  "invoice_date",
+  "work_order_number",
+  "customer_id",
+  "customer_name",
+  "unit_number",
+  "vin",
+  "vehicle",
+  "currency",
+  "receivable_account",
+  "line_type",
+  "description",
+  "account",
+  "quantity",
+  "unit_price",
+  "amount",
+  "taxable",
+  "invoice_total",
+];
+
+function invoicesCsv(invoices: AccountingInvoice[]): string {
+  return toCsv([
+    CSV_HEADER,
+    ...invoices.flatMap((inv) =>
+      inv.lines.map((l) => [
+        inv.invoiceNumber,
+        inv.date,
+        inv.workOrderNumber ?? "",
+        inv.customerId ?? "",
+        inv.customerName,
+        inv.unitNumber,
+        inv.vin,
+        inv.vehicle,
+        inv.currency,
+        inv.receivableAccount,
+        l.kind,
+        l.description,
+        l.account,
+        l.quantity,
+        l.unitPrice.toFixed(2),
+        l.amount.toFixed(2),
+        l.taxable ? "Y" : "N",
+        inv.total.toFixed(2),
+      ])
+    ),
+  ]);
+}
+
+function invoicesJson(
+  invoices: AccountingInvoice[],
+  batchNumber: string,
+  exportedAt: string
+): string {
+  return (
+    JSON.stringify(
+      { schema: "vinquoter.invoices.v1", batchNumber, exportedAt, invoices },
+      null,
+      2
+    ) + "\n"
+  );
+}
+
+// QuickBooks items the IIF lines are booked against; fees use their names.
+const IIF_ITEMS: Record<Exclude<InvoiceLineKind, "fee">, string> = {
+  labor: "Labor",
+  parts: "Parts",
+  core: "Core Charge",
+  shop_supplies: "Shop Supplies",
+  tax: "Sales Tax",
+};
+
+// IIF is tab-separated with one record per line, so neither may appear in
+// a field.
+function iifField(value: string | number): string {
+  return String(value).replace(/[\t\r\n]+/g, " ");
+}
+
+function iifDate(isoDay: string): string {
+  const [year, month, day] = isoDay.split("-");
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * One INVOICE transaction per quote: the receivable on the TRNS line, and
+ * a SPL line per invoice line with income as negative amounts.
+ */
+function invoicesIif(invoices: AccountingInvoice[]): string {
+  const rows: (string | number)[][] = [
+    ["!TRNS", "TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"],
+    [
+      "!SPL",
+      "TRNSTYPE",
+      "DATE",
+      "ACCNT",
+      "NAME",
+      "AMOUNT",
+      "DOCNUM",
+      "MEMO",
+      "QNTY",
+      "PRICE",
+      "INVITEM",
+      "TAXABLE",
+    ],
+    ["!ENDTRNS"],
+  ];
+
+  for (const inv of invoices) {
+    const date = iifDate(inv.date);
+    const name = inv.customerName || "Cash Customer";
+    rows.push([
+      "TRNS",
+      "INVOICE",
+      date,
+      inv.receivableAccount,
+      name,
+      inv.total.toFixed(2),
+      inv.invoiceNumber,
+      [inv.vehicle, inv.unitNumber && `Unit ${inv.unitNumber}`, inv.vin]
+        .filter(Boolean)
+        .join(" / "),
+    ]);
+    for (const l of inv.lines) {
+      rows.push([
+        "SPL",
+        "INVOICE",
+        date,
+        l.account,
+        name,
+        (-l.amount).toFixed(2),
+        inv.invoiceNumber,
+        l.description,
+        -l.quantity,
+        l.unitPrice.toFixed(2),
+        l.kind === "fee" ? l.description : IIF_ITEMS[l.kind],
+        l.taxable ? "Y" : "N",
+      ]);
+    }
+    rows.push(["ENDTRNS"]);
+  }
+
+  return rows.map((r) => r.map(iifField).join("\t")).join("\r\n") + "\r\n";
+}
+
+export function renderExport(
+  format: ExportFormat,
+  invoices: AccountingInvoice[],
+  batchNumber: string,
+  exportedAt: string
+): string {
+  switch (format) {
+    case "csv":
+      return invoicesCsv(invoices);
+    case "json":
+      return invoicesJson(invoices, batchNumber, exportedAt);
+    case "iif":
+      return invoicesIif(invoices);
+  }
+}
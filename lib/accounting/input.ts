@@ -0,0 +1,33 @@
+import { isExportFormat } from "./formats";
+import type { ExportRequest } from "./types";
+
+// Coerce a JSON request body into an ExportRequest. A missing format means
+// CSV; one that isn't supported is rejected rather than guessed.
+
+export function parseExportInput(
+  body: Record<string, unknown>
+): ExportRequest | { error: string } {
+  if (body.format !== undefined && !isExportFormat(body.format)) {
+    return { error: `Unknown export format "${String(body.format)}".` };
+  }
+  const ids = Array.isArray(body.quoteIds)
+    ? body.quoteIds.filter((id): id is string => typeof id === "string")
+    : null;
+  return {
+    format: isExportFormat(body.format) ? body.format : "csv",
+    quoteIds: ids && [...new Set(ids)],
+    reexport: body.reexport === true,
+  };
+}
+
+/** Problems that should block an export, as user-facing messages. */
+export function exportErrors(input: ExportRequest): string[] {
+  const errors: string[] = [];
+  if (input.quoteIds && !input.quoteIds.length) {
+    errors.push("Pick at least one quote to export.");
+  }
+  if (input.reexport && !input.quoteIds) {
+    errors.push("Pick the quotes to export again.");
+  }
+  return errors;
+}
@@ -0,0 +1,170 @@
+import { DEFAULT_FORMAT } from "@/lib/i18n/locales";
+import { roundCents, spreadCents } from "@/lib/pricing/money";
+import { billedLaborOf, isFixedPrice, priceQuote } from "@/lib/pricing/pricing";
+import type { SavedQuote } from "@/lib/quotes/types";
+import { wonLines } from "@/lib/reports/analytics";
+import type { FeeSettings, GlAccounts } from "@/lib/settings/types";
+import type { AccountingInvoice, InvoiceLine } from "./types";
+
+// Approved quote → invoice. Pure, so every export format is built from the
+// same lines.
+
+function line(
+  kind: InvoiceLine["kind"],
+  description: string,
+  account: string,
+  amount: number,
+  quantity: number,
+  taxable: boolean
+): InvoiceLine {
+  return {
+    kind,
+    description,
+    account,
+    quantity,
+    unitPrice: quantity ? roundCents(amount / quantity) : amount,
+    amount,
+    taxable,
+  };
+}
+
+/**
+ * A partly approved quote is re-priced with the fees it was quoted with,
+ * the same way the approval did; a fully approved one keeps its saved
+ * totals. `shopFees` only stands in for quotes saved before fees were kept.
+ */
+export function buildInvoice(
+  q: SavedQuote,
+  shopFees: FeeSettings,
+  accounts: GlAccounts,
+  workOrderNumber: string | null
+): AccountingInvoice {
+  const fees = q.feeSettings ?? shopFees;
+  const won = wonLines(q);
+  const totals =
+    won.length === q.repairs.length
+      ? q.totals
+      : priceQuote(won, {
+          partsDiscountPercent: q.partsDiscountPercent,
+          marginPercent: q.marginPercent,
+          fees,
+          taxExempt: q.taxExempt,
+          feeCodes: q.feeCodes,
+        }).totals;
+  // Warranty and campaign work is billed to the OEM, not on this invoice.
+  const repairs = won.filter((r) => !r.warranty);
+
+  // Same split as priceQuote: margin spread over labor and parts, the parts
+  // discount on parts only, core charges at cost, fixed-price lines as is.
+  const margin = 1 + q.marginPercent / 100;
+  const discount = 1 - (q.partsDiscountPercent ?? 0) / 100;
+  const billedLabor = billedLaborOf(repairs, q.marginPercent);
+  const billedParts = roundCents(
+    totals.finalGrandTotal - billedLabor - totals.coreCharges
+  );
+  const laborTaxable = totals.laborTax > 0;
+  const partsTaxable = totals.partsTax > 0;
+
+  const laborAmounts = spreadCents(
+    repairs.map((r) => (isFixedPrice(r) ? r.laborCost : r.laborCost * margin)),
+    billedLabor
+  );
+  const parts = repairs.flatMap((r) => r.parts);
+  const partAmounts = spreadCents(
+    repairs.flatMap((r) =>
+      r.parts.map((p) =>
+        isFixedPrice(r) ? p.extendedPrice : p.extendedPrice * discount * margin
+      )
+    ),
+    billedParts
+  );
+  const cores = parts.filter((p) => p.coreCharge > 0);
+  const coreAmounts = spreadCents(
+    cores.map((p) => p.quantity * p.coreCharge),
+    totals.coreCharges
+  );
+
+  const lines: InvoiceLine[] = [
+    // A fixed-price line bills as one unit rather than hours.
+    ...repairs.map((r, i) =>
+      line(
+        "labor",
+        r.operation,
+        accounts.labor,
+        laborAmounts[i],
+        r.fixedLabor !== undefined || !r.srtHours ? 1 : r.srtHours,
+        laborTaxable
+      )
+    ),
+    ...parts.map((p, i) =>
+      line(
+        "parts",
+        [p.partNumber, p.description].filter(Boolean).join(" ") || "Part",
+        accounts.parts,
+        partAmounts[i],
+        p.quantity,
+        partsTaxable
+      )
+    ),
+    ...cores.map((p, i) =>
+      line(
+        "core",
+        `Core charge ${p.partNumber || p.description}`.trim(),
+        accounts.coreCharges,
+        coreAmounts[i],
+        p.quantity,
+        partsTaxable
+      )
+    ),
+  ];
+
+  if (totals.shopSupplies > 0) {
+    lines.push(
+      line(
+        "shop_supplies",
+        "Shop supplies",
+        accounts.shopSupplies,
+        totals.shopSupplies,
+        1,
+        !q.taxExempt && fees.shopSupplies.taxable
+      )
+    );
+  }
+  for (const fee of totals.fees) {
+    const setting = fees.flatFees.find((f) => f.code === fee.code);
+    lines.push(
+      line(
+        "fee",
+        fee.name,
+        accounts.fees,
+        fee.amount,
+        1,
+        !q.taxExempt && !!setting?.taxable
+      )
+    );
+  }
+  if (totals.taxTotal > 0) {
+    lines.push(
+      line("tax", "Sales tax", accounts.salesTax, totals.taxTotal, 1, false)
+    );
+  }
+
+  return {
+    invoiceNumber: q.quoteNumber,
+    date: (q.approval?.signedAt ?? q.updatedAt).slice(0, 10),
+    quoteId: q.id,
+    revision: q.revision,
+    workOrderNumber,
+    customerId: q.customerId ?? null,
+    customerName: q.customerName,
+    unitNumber: q.unitNumber,
+    vin: q.vin,
+    vehicle: q.vehicle,
+    currency: q.currency ?? DEFAULT_FORMAT.currency,
+    receivableAccount: accounts.receivable,
+    lines: lines.filter((l) => l.amount !== 0),
+    subtotal: roundCents(totals.quoteTotal - totals.taxTotal),
+    tax: totals.taxTotal,
+    total: totals.quoteTotal,
+  };
+}
@@ -0,0 +1,193 @@
+import { randomUUID } from "crypto";
+import type { UserRef } from "@/lib/auth/types";
+import { searchQuotes } from "@/lib/quotes/repository";
+import type { SavedQuote } from "@/lib/quotes/types";
+import { isWon } from "@/lib/reports/analytics";
+import { getSettings } from "@/lib/settings/settings";
+import { mutateFile, readFileValue } from "@/lib/store/json-store";
+import { searchWorkOrders } from "@/lib/workorders/repository";
+import { buildInvoice } from "./invoice";
+import { renderExport } from "./formats";
+import type {
+  ExportBatch,
+  ExportBatchSummary,
+  ExportCandidate,
+  ExportOverview,
+  ExportRequest,
+} from "./types";
+
+// Export batches, kept in one file. Picking the quotes and recording the
+// batch happen in a single write, so two exports running at once can't both
+// take the same quote.
+
+const FILE = "accounting-exports";
+
+export type ExportResult =
+  | { batch: ExportBatchSummary; skipped: string[] }
+  | { error: string };
+
+function toBatchSummary(batch: ExportBatch): ExportBatchSummary {
+  return {
+    id: batch.id,
+    batchNumber: batch.batchNumber,
+    format: batch.format,
+    filename: batch.filename,
+    quoteIds: batch.quoteIds,
+    quoteNumbers: batch.quoteNumbers,
+    revisions: batch.revisions,
+    reexport: batch.reexport,
+    exportedAt: batch.exportedAt,
+    exportedBy: batch.exportedBy,
+  };
+}
+
+function listBatches(): Promise<ExportBatch[]> {
+  return readFileValue<ExportBatch[]>(FILE, []);
+}
+
+export async function getExportBatch(id: string): Promise<ExportBatch | null> {
+  return (await listBatches()).find((b) => b.id === id) ?? null;
+}
+
+type LastExport = { batch: ExportBatch; revision: number | null };
+
+/** The last batch each quote went out in, and at which revision. */
+function lastExports(batches: ExportBatch[]): Map<string, LastExport> {
+  const last = new Map<string, LastExport>();
+  for (const batch of batches) {
+    batch.quoteIds.forEach((id, i) =>
+      last.set(id, { batch, revision: batch.revisions?.[i] ?? null })
+    );
+  }
+  return last;
+}
+
+/**
+ * Exported at an older revision: edited and approved again since, so the
+ * books don't have it as it stands. Batches without revisions are taken
+ * as current.
+ */
+function isStale(q: SavedQuote, last: LastExport): boolean {
+  return last.revision !== null && last.revision !== q.revision;
+}
+
+function isExported(q: SavedQuote, last: Map<string, LastExport>): boolean {
+  const previous = last.get(q.id);
+  return !!previous && !isStale(q, previous);
+}
+
+function approvedOn(q: SavedQuote): string {
+  return (q.approval?.signedAt ?? q.updatedAt).slice(0, 10);
+}
+
+async function wonQuotes(): Promise<SavedQuote[]> {
+  return (await searchQuotes())
+    .filter((q) => isWon(q.status))
+    .sort((a, b) => approvedOn(a).localeCompare(approvedOn(b)));
+}
+
+export async function exportOverview(): Promise<ExportOverview> {
+  const [quotes, batches] = await Promise.all([wonQuotes(), listBatches()]);
+  const last = lastExports(batches);
+  const candidates: ExportCandidate[] = quotes.map((q) => {
+    const previous = last.get(q.id);
+    return {
+      id: q.id,
+      quoteNumber: q.quoteNumber,
+      customerName: q.customerName,
+      vehicle: q.vehicle,
+      status: q.status,
+      currency: q.currency,
+      date: approvedOn(q),
+      total: q.approval?.approvedTotal ?? q.totals.quoteTotal,
+      lastExport: previous
+        ? {
+            id: previous.batch.id,
+            batchNumber: previous.batch.batchNumber,
+            format: previous.batch.format,
+            exportedAt: previous.batch.exportedAt,
+            revision: previous.revision,
+            stale: isStale(q, previous),
+          }
+        : null,
+    };
+  });
+  return {
+    quotes: candidates,
+    batches: batches.map(toBatchSummary).reverse(),
+  };
+}
+
+/**
+ * Write the requested approved quotes into a new batch. Quotes already in
+ * a batch at their current revision are skipped (and reported) unless
+ * `reexport` is set.
+ */
+export async function exportQuotes(
+  request: ExportRequest,
+  by: UserRef | null
+): Promise<ExportResult> {
+  const [quotes, settings, workOrders] = await Promise.all([
+    wonQuotes(),
+    getSettings(),
+    searchWorkOrders(),
+  ]);
+
+  const selected = request.quoteIds
+    ? quotes.filter((q) => request.quoteIds?.includes(q.id))
+    : quotes;
+  if (request.quoteIds && selected.length !== request.quoteIds.length) {
+    return { error: "Only approved quotes can be exported." };
+  }
+
+  return mutateFile<ExportBatch[], ExportResult>(FILE, [], (batches) => {
+    const last = lastExports(batches);
+    const fresh = request.reexport
+      ? selected
+      : selected.filter((q) => !isExported(q, last));
+    if (!fresh.length) {
+      return {
+        next: batches,
+        result: {
+          error: request.quoteIds
+            ? "Those quotes have already been exported."
+            : "There are no new approved quotes to export.",
+        },
+      };
+    }
+
+    const batchNumber = String(batches.length + 1).padStart(4, "0");
+    const exportedAt = new Date().toISOString();
+    const invoices = fresh.map((q) =>
+      buildInvoice(
+        q,
+        settings.fees,
+        settings.glAccounts,
+        workOrders.find((wo) => wo.quoteId === q.id)?.workOrderNumber ?? null
+      )
+    );
+    const batch: ExportBatch = {
+      id: randomUUID(),
+      batchNumber,
+      format: request.format,
+      filename: `invoices-${batchNumber}.${request.format}`,
+      quoteIds: fresh.map((q) => q.id),
+      quoteNumbers: fresh.map((q) => q.quoteNumber),
+      revisions: fresh.map((q) => q.revision),
+      reexport: fresh.some((q) => last.has(q.id)),
+      exportedAt,
+      exportedBy: by,
+      content: renderExport(request.format, invoices, batchNumber, exportedAt),
+    };
+
+    return {
+      next: [...batches, batch],
+      result: {
+        batch: toBatchSummary(batch),
+        skipped: selected
+          .filter((q) => !fresh.includes(q))
+          .map((q) => q.quoteNumber),
+      },
+    };
+  });
+}
@@ -0,0 +1,109 @@
+import type { UserRef } from "@/lib/auth/types";
+import type { CurrencyCode } from "@/lib/i18n/locales";
+import type { SavedQuote } from "@/lib/quotes/types";
+
+/** csv and json are VINQuoter's own invoice schema; iif is for QuickBooks. */
+export type ExportFormat = "csv" | "json" | "iif";
+
+export type InvoiceLineKind =
+  | "labor"
+  | "parts"
+  | "core"
+  | "shop_supplies"
+  | "fee"
+  | "tax";
+
+export type InvoiceLine = {
+  kind: InvoiceLineKind;
+  description: string;
+  /** GL account from the shop's settings. */
+  account: string;
+  quantity: number;
+  unitPrice: number;
+  /** Billed amount, with margin and discount applied. */
+  amount: number;
+  taxable: boolean;
+};
+
+/**
+ * An approved quote as an invoice: the approved lines only, split into
+ * labor, parts, core charges, fees and tax. Lines add up to `total`.
+ */
+export type AccountingInvoice = {
+  /** The quote number, so the books point straight back at the quote. */
+  invoiceNumber: string;
+  /** yyyy-mm-dd the customer (or the shop) approved it. */
+  date: string;
+  quoteId: string;
+  revision: number;
+  workOrderNumber: string | null;
+  customerId: string | null;
+  customerName: string;
+  unitNumber: string;
+  vin: string;
+  vehicle: string;
+  currency: CurrencyCode;
+  receivableAccount: string;
+  lines: InvoiceLine[];
+  subtotal: number;
+  tax: number;
+  total: number;
+};
+
+/** One export run. The file is kept so it can be downloaded again. */
+export type ExportBatch = {
+  id: string;
+  batchNumber: string;
+  format: ExportFormat;
+  filename: string;
+  quoteIds: string[];
+  quoteNumbers: string[];
+  /**
+   * The revision each quote went out at, in quoteIds order. Missing on
+   * batches from before revisions were tracked.
+   */
+  revisions?: number[];
+  /** True when quotes already in an earlier batch were exported again. */
+  reexport: boolean;
+  exportedAt: string;
+  exportedBy: UserRef | null;
+  content: string;
+};
+
+export type ExportBatchSummary = Omit<ExportBatch, "content">;
+
+/**
+ * POST /api/accounting/exports. No quote ids means every unexported one; a
+ * quote edited and re-approved since its last export counts as unexported.
+ */
+export type ExportRequest = {
+  format: ExportFormat;
+  quoteIds: string[] | null;
+  /** Export quotes again even if an earlier batch has them. */
+  reexport: boolean;
+};
+
+/** An approved quote on the export page, and the last batch it went out in. */
+export type ExportCandidate = Pick<
+  SavedQuote,
+  "id" | "quoteNumber" | "customerName" | "vehicle" | "status" | "currency"
+> & {
+  date: string;
+  total: number;
+  lastExport:
+    | (Pick<
+        ExportBatchSummary,
+        "id" | "batchNumber" | "format" | "exportedAt"
+      > & {
+        revision: number | null;
+        /** The quote has a newer revision than the one exported. */
+        stale: boolean;
+      })
+    | null;
+};
+
+/** GET /api/accounting/exports */
+export type ExportOverview = {
+  quotes: ExportCandidate[];
+  batches: ExportBatchSummary[];
+};
@@ -0,0 +1,22 @@
+import type { NextResponse } from "next/server";
+import { SESSION_COOKIE, sessionHours } from "./sessions";
+
+// Not marked Secure: most shops run VINQuoter over plain HTTP on the LAN.
+
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge: sessionHours() * 60 * 60,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0,
+  });
+}
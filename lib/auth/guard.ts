@@ -0,0 +1,43 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { can, type Permission } from "./roles";
+import { SESSION_COOKIE, sessionUserId } from "./sessions";
+import type { PublicUser } from "./types";
+import { getUser } from "./users";
+
+// Route-handler helpers. Every API route except the public approval link
+// starts with requireUser().
+
+export async function currentUser(): Promise<PublicUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const userId = token ? await sessionUserId(token) : null;
+  const user = userId ? await getUser(userId) : null;
+  return user?.active ? user : null;
+}
+
+/**
+ * The signed-in user, or the 401/403 response to send back. Without a
+ * permission any signed-in user passes.
+ */
+export async function requireUser(
+  permission?: Permission
+): Promise<{ user: PublicUser } | { response: NextResponse }> {
+  const user = await currentUser();
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { error: "Sign in to continue." },
+        { status: 401 }
+      ),
+    };
+  }
+  if (permission && !can(user.role, permission)) {
+    return {
+      response: NextResponse.json(
+        { error: "Your role isn't allowed to do that." },
+        { status: 403 }
+      ),
+    };
+  }
+  return { user };
+}
@@ -0,0 +1,45 @@
+import { isRole } from "./roles";
+import type { UserInput } from "./types";
+
+// Coerce a JSON request body into a UserInput.
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+function str(value: unknown): string {
+  return typeof value === "string" ? value : value == null ? "" : String(value);
+}
+
+export function normalizeUsername(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export function parseUserInput(body: Record<string, unknown>): UserInput {
+  return {
+    username: normalizeUsername(str(body.username)),
+    name: str(body.name).trim(),
+    role: isRole(body.role) ? body.role : "technician",
+    password: str(body.password),
+    active: body.active !== false,
+  };
+}
+
+/**
+ * Problems that should block a save, as user-facing messages. New users
+ * need a password; existing ones keep theirs when it's left blank.
+ */
+export function userErrors(input: UserInput, isNew: boolean): string[] {
+  const errors: string[] = [];
+  if (!/^[a-z0-9._-]{2,32}$/.test(input.username)) {
+    errors.push(
+      "Username must be 2–32 letters, numbers, dots, dashes or underscores."
+    );
+  }
+  if (!input.name) errors.push("Name is required.");
+  if (
+    (isNew || input.password) &&
+    input.password.length < MIN_PASSWORD_LENGTH
+  ) {
+    errors.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+  return errors;
+}
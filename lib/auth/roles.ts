@@ -0,0 +1,58 @@
+import type { Role } from "./types";
+
+// What each role may do. Reading is open to every signed-in user; these
+// gate the writes.
+
+export type Permission =
+  | "quotes:write"
+  | "quotes:delete"
+  /** Labor rates, markups below the matrix and margins below the minimum. */
+  | "pricing:override"
+  | "customers:write"
+  | "catalog:write"
+  | "packages:write"
+  | "settings:write"
+  | "users:manage"
+  | "reports:view"
+  /** Sending approved quotes to the accounting system. */
+  | "accounting:export"
+  | "workorders:write";
+
+export const ROLES: Role[] = ["manager", "service_writer", "technician"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  manager: "Manager",
+  service_writer: "Service Writer",
+  technician: "Technician",
+};
+
+const PERMISSIONS: Record<Role, Permission[]> = {
+  manager: [
+    "quotes:write",
+    "quotes:delete",
+    "pricing:override",
+    "customers:write",
+    "catalog:write",
+    "packages:write",
+    "settings:write",
+    "users:manage",
+    "reports:view",
+    "accounting:export",
+    "workorders:write",
+  ],
+  service_writer: [
+    "quotes:write",
+    "customers:write",
+    "packages:write",
+    "workorders:write",
+  ],
+  technician: ["workorders:write"],
+};
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function can(role: Role, permission: Permission): boolean {
+  return PERMISSIONS[role].includes(permission);
+}
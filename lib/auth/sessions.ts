@@ -0,0 +1,70 @@
+import { createHash, randomBytes } from "crypto";
+import { mutateFile, readFileValue } from "@/lib/store/json-store";
+import type { Session } from "./types";
+
+// Sign-in sessions. The browser holds a random token in an HttpOnly cookie;
+// the server keeps only its hash.
+
+export const SESSION_COOKIE = "vinquoter_session";
+
+export function sessionHours(): number {
+  const hours = Number(process.env.SESSION_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : 12;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Start a session and return the token for the cookie. */
+export async function createSession(userId: string): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+  const session: Session = {
+    id: hashToken(token),
+    userId,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(
+      now.getTime() + sessionHours() * 60 * 60 * 1000
+    ).toISOString(),
+  };
+
+  await mutateFile<Session[], void>("sessions", [], (items) => ({
+    // Expired sessions are dropped whenever someone signs in.
+    next: [...items.filter((s) => new Date(s.expiresAt) > now), session],
+    result: undefined,
+  }));
+  return token;
+}
+
+/** The signed-in user id for a cookie token, or null once it's expired. */
+export async function sessionUserId(token: string): Promise<string | null> {
+  const id = hashToken(token);
+  const sessions = await readFileValue<Session[]>("sessions", []);
+  const session = sessions.find((s) => s.id === id);
+  return session && new Date(session.expiresAt) > new Date()
+    ? session.userId
+    : null;
+}
+
+export function endSession(token: string): Promise<void> {
+  const id = hashToken(token);
+  return mutateFile<Session[], void>("sessions", [], (items) => {
+    const next = items.filter((s) => s.id !== id);
+    return {
+      next: next.length === items.length ? items : next,
+      result: undefined,
+    };
+  });
+}
+
+/** Sign a user out everywhere, e.g. when they're deactivated. */
+export function endUserSessions(userId: string): Promise<void> {
+  return mutateFile<Session[], void>("sessions", [], (items) => {
+    const next = items.filter((s) => s.userId !== userId);
+    return {
+      next: next.length === items.length ? items : next,
+      result: undefined,
+    };
+  });
+}
@@ -0,0 +1,43 @@
+export type Role = "manager" | "service_writer" | "technician";
+
+export type User = {
+  id: string;
+  /** Sign-in name, stored lowercase. */
+  username: string;
+  /** Shown on quotes, audit trails and work orders. */
+  name: string;
+  role: Role;
+  /** scrypt hash; never leaves the server. */
+  passwordHash: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PublicUser = Omit<User, "passwordHash">;
+
+/** Who did something, as recorded on quotes. */
+export type UserRef = Pick<User, "id" | "name">;
+
+/** Everything the user admin form sends; a blank password keeps the old one. */
+export type UserInput = {
+  username: string;
+  name: string;
+  role: Role;
+  password: string;
+  active: boolean;
+};
+
+export type Session = {
+  /** SHA-256 of the cookie token, so a leaked data file can't be replayed. */
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+/** A manager's sign-off, sent along with a save that overrides pricing. */
+export type ManagerApproval = { username: string; password: string };
+
+/** GET /api/auth/session when nobody is signed in. */
+export type SignedOut = { error: string; needsSetup: boolean };
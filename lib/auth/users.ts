@@ -0,0 +1,113 @@
+import { randomUUID } from "crypto";
+import { createCollection, mutateFile } from "@/lib/store/json-store";
+import { normalizeUsername } from "./input";
+import { hashPassword, verifyPassword } from "./password";
+import type { PublicUser, User, UserInput, UserRef } from "./types";
+
+const users = createCollection<User>("users");
+
+export type UserChange = { user: PublicUser } | { error: string };
+
+export function toPublicUser(user: User): PublicUser {
+  const copy: Partial<User> = { ...user };
+  delete copy.passwordHash;
+  return copy as PublicUser;
+}
+
+export function userRef(user: Pick<User, "id" | "name">): UserRef {
+  return { id: user.id, name: user.name };
+}
+
+export async function hasUsers(): Promise<boolean> {
+  return (await users.list()).length > 0;
+}
+
+export async function listUsers(): Promise<PublicUser[]> {
+  const all = await users.list();
+  return all.sort((a, b) => a.name.localeCompare(b.name)).map(toPublicUser);
+}
+
+export async function getUser(id: string): Promise<PublicUser | null> {
+  const user = await users.get(id);
+  return user && toPublicUser(user);
+}
+
+/** The active user for a username and password, or null. */
+export async function verifyCredentials(
+  username: string,
+  password: string
+): Promise<PublicUser | null> {
+  const wanted = normalizeUsername(username);
+  const user = (await users.list()).find((u) => u.username === wanted);
+  if (!user || !user.active) return null;
+  return (await verifyPassword(password, user.passwordHash))
+    ? toPublicUser(user)
+    : null;
+}
+
+/**
+ * Add a user. With `onlyIfEmpty` this is the first-run setup: it fails once
+ * any account exists, so the setup form can't mint a second manager later.
+ */
+export async function createUser(
+  input: UserInput,
+  onlyIfEmpty = false
+): Promise<UserChange> {
+  const passwordHash = await hashPassword(input.password);
+  const now = new Date().toISOString();
+
+  return mutateFile<User[], UserChange>("users", [], (items) => {
+    const fail = (error: string) => ({ next: items, result: { error } });
+    if (onlyIfEmpty && items.length) return fail("Setup is already done.");
+    if (items.some((u) => u.username === input.username)) {
+      return fail(`The username "${input.username}" is taken.`);
+    }
+
+    const user: User = {
+      id: randomUUID(),
+      username: input.username,
+      name: input.name,
+      role: input.role,
+      passwordHash,
+      active: input.active,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return { next: [...items, user], result: { user: toPublicUser(user) } };
+  });
+}
+
+/** Update a user; the shop always keeps at least one active manager. */
+export async function updateUser(
+  id: string,
+  input: UserInput
+): Promise<UserChange | null> {
+  const passwordHash = input.password
+    ? await hashPassword(input.password)
+    : null;
+
+  return mutateFile<User[], UserChange | null>("users", [], (items) => {
+    const index = items.findIndex((u) => u.id === id);
+    if (index === -1) return { next: items, result: null };
+    const fail = (error: string) => ({ next: items, result: { error } });
+
+    if (items.some((u) => u.id !== id && u.username === input.username)) {
+      return fail(`The username "${input.username}" is taken.`);
+    }
+    const updated: User = {
+      ...items[index],
+      username: input.username,
+      name: input.name,
+      role: input.role,
+      active: input.active,
+      passwordHash: passwordHash ?? items[index].passwordHash,
+      updatedAt: new Date().toISOString(),
+    };
+    const next = [...items];
+    next[index] = updated;
+    if (!next.some((u) => u.active && u.role === "manager")) {
+      return fail("There must be at least one active manager.");
+    }
+    return { next, result: { user: toPublicUser(updated) } };
+  });
+}
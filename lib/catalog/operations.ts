@@ -0,0 +1,270 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { parseCsvRecords } from "@/lib/csv";
+import { BASE_RATE_CLASS } from "@/lib/settings/rate-classes";
+
+// Repair operations catalog, loaded from data/catalog:
+//   operations.json       – operation definitions + default parts (list
+//                           prices; the shop's price list overrides them)
+//   srt.csv               – SRT hours keyed by make/model/engine family/years
+//   engine-families.json  – maps decoded engine strings to a family
+
+export type CatalogPart = {
+  partNumber?: string;
+  description: string;
+  quantity: number;
+  unitCost: number;
+  coreCharge?: number;
+  vendor?: string;
+};
+
+export type Applicability = {
+  makes?: string[];
+  models?: string[];
+  engineFamilies?: string[];
+  yearFrom?: number;
+  yearTo?: number;
+};
+
+export type CatalogOperation = {
+  code: string;
+  name: string;
+  category: string;
+  default?: boolean;
+  /** Labor rate class code; mechanical when omitted. */
+  rateClass?: string;
+  appliesTo?: Applicability;
+  parts: CatalogPart[];
+};
+
+export type SrtEntry = {
+  code: string;
+  make: string | null;
+  model: string | null;
+  engineFamily: string | null;
+  yearFrom: number | null;
+  yearTo: number | null;
+  hours: number;
+};
+
+type EngineFamily = {
+  family: string;
+  patterns: string[];
+};
+
+export type Catalog = {
+  operations: CatalogOperation[];
+  srt: SrtEntry[];
+  engineFamilies: EngineFamily[];
+};
+
+/** The vehicle attributes the catalog is keyed on. */
+export type VehicleKey = {
+  make: string | null;
+  model: string | null;
+  engineFamily: string | null;
+  modelYear: number | null;
+};
+
+export type CatalogLine = {
+  operationCode: string;
+  operation: string;
+  rateClass: string;
+  srtHours: number;
+  parts: CatalogPart[];
+};
+
+const CATALOG_DIR = path.join(process.cwd(), "data", "catalog");
+
+let catalogPromise: Promise<Catalog> | null = null;
+
+export function loadCatalog(): Promise<Catalog> {
+  if (!catalogPromise) {
+    catalogPromise = readCatalog().catch((e) => {
+      catalogPromise = null;
+      throw e;
+    });
+  }
+  return catalogPromise;
+}
+
+async function readCatalog(): Promise<Catalog> {
+  const [operationsJson, srtCsv, familiesJson] = await Promise.all([
+    readFile(path.join(CATALOG_DIR, "operations.json"), "utf8"),
+    readFile(path.join(CATALOG_DIR, "srt.csv"), "utf8"),
+    readFile(path.join(CATALOG_DIR, "engine-families.json"), "utf8"),
+  ]);
+
+  const srt = parseCsvRecords(srtCsv).map(
+    (r): SrtEntry => ({
+      code: r.code,
+      make: r.make || null,
+      model: r.model || null,
+      engineFamily: r.engine_family || null,
+      yearFrom: r.year_from ? Number(r.year_from) : null,
+      yearTo: r.year_to ? Number(r.year_to) : null,
+      hours: Number(r.hours),
+    })
+  );
+
+  return {
+    operations: JSON.parse(operationsJson) as CatalogOperation[],
+    srt: srt.filter((r) => r.code && Number.isFinite(r.hours)),
+    engineFamilies: JSON.parse(familiesJson) as EngineFamily[],
+  };
+}
+
+function same(a: string | null, b: string | null): boolean {
+  return Boolean(a && b && a.toLowerCase() === b.toLowerCase());
+}
+
+export function engineFamilyFor(
+  catalog: Catalog,
+  engine: string | null
+): string | null {
+  if (!engine) return null;
+  const normalized = engine.toUpperCase();
+  const match = catalog.engineFamilies.find((f) =>
+    f.patterns.some((p) => normalized.includes(p.toUpperCase()))
+  );
+  return match?.family ?? null;
+}
+
+export function vehicleKeyFor(
+  catalog: Catalog,
+  vehicle: {
+    make: string | null;
+    model: string | null;
+    engine: string | null;
+    modelYear: number | null;
+  }
+): VehicleKey {
+  return {
+    make: vehicle.make,
+    model: vehicle.model,
+    engineFamily: engineFamilyFor(catalog, vehicle.engine),
+    modelYear: vehicle.modelYear,
+  };
+}
+
+/** Unknown vehicle attributes never rule an operation (or package) out. */
+export function appliesToVehicle(
+  a: Applicability | undefined,
+  key: VehicleKey
+): boolean {
+  if (!a) return true;
+
+  const listAllows = (list: string[] | undefined, value: string | null) =>
+    !list?.length || !value || list.some((item) => same(item, value));
+
+  if (!listAllows(a.makes, key.make)) return false;
+  if (!listAllows(a.models, key.model)) return false;
+  if (!listAllows(a.engineFamilies, key.engineFamily)) return false;
+
+  if (key.modelYear !== null) {
+    if (a.yearFrom !== undefined && key.modelYear < a.yearFrom) return false;
+    if (a.yearTo !== undefined && key.modelYear > a.yearTo) return false;
+  }
+
+  return true;
+}
+
+export function operationApplies(
+  op: CatalogOperation,
+  key: VehicleKey
+): boolean {
+  return appliesToVehicle(op.appliesTo, key);
+}
+
+/**
+ * Pick the most specific SRT row for the vehicle. A row only matches when
+ * every column it fills in matches; blank columns are wildcards.
+ */
+export function resolveSrtHours(
+  catalog: Catalog,
+  code: string,
+  key: VehicleKey
+): number | null {
+  let best: { entry: SrtEntry; score: number } | null = null;
+
+  for (const entry of catalog.srt) {
+    if (entry.code !== code) continue;
+
+    let score = 0;
+    if (entry.make) {
+      if (!same(entry.make, key.make)) continue;
+      score++;
+    }
+    if (entry.model) {
+      if (!same(entry.model, key.model)) continue;
+      score++;
+    }
+    if (entry.engineFamily) {
+      if (!same(entry.engineFamily, key.engineFamily)) continue;
+      score++;
+    }
+    if (entry.yearFrom !== null || entry.yearTo !== null) {
+      if (key.modelYear === null) continue;
+      if (entry.yearFrom !== null && key.modelYear < entry.yearFrom) continue;
+      if (entry.yearTo !== null && key.modelYear > entry.yearTo) continue;
+      score++;
+    }
+
+    if (!best || score > best.score) {
+      best = { entry, score };
+    }
+  }
+
+  return best?.entry.hours ?? null;
+}
+
+export function findOperation(
+  catalog: Catalog,
+  code: string
+): CatalogOperation | undefined {
+  return catalog.operations.find(
+    (op) => op.code.toLowerCase() === code.toLowerCase()
+  );
+}
+
+export function buildCatalogLine(
+  catalog: Catalog,
+  op: CatalogOperation,
+  key: VehicleKey
+): CatalogLine {
+  return {
+    operationCode: op.code,
+    operation: op.name,
+    rateClass: op.rateClass ?? BASE_RATE_CLASS,
+    srtHours: resolveSrtHours(catalog, op.code, key) ?? 0,
+    parts: op.parts,
+  };
+}
+
+/**
+ * Operations for a quote: the requested codes when given, otherwise the
+ * catalog's default operations that apply to this vehicle.
+ */
+export function selectOperations(
+  catalog: Catalog,
+  key: VehicleKey,
+  codes?: string[]
+): { operations: CatalogOperation[]; unknownCodes: string[] } {
+  if (!codes?.length) {
+    return {
+      operations: catalog.operations.filter(
+        (op) => op.default && operationApplies(op, key)
+      ),
+      unknownCodes: [],
+    };
+  }
+
+  const operations: CatalogOperation[] = [];
+  const unknownCodes: string[] = [];
+  for (const code of codes) {
+    const op = findOperation(catalog, code);
+    if (op) operations.push(op);
+    else unknownCodes.push(code);
+  }
+  return { operations, unknownCodes };
+}
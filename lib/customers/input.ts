@@ -0,0 +1,80 @@
+import { normalizeVin, validateVin } from "@/lib/vin/decode";
+import type { CustomerContact, CustomerInput, FleetUnit } from "./types";
+
+// Coerce a JSON request body into a CustomerInput. Unit ids are kept when
+// present; the repository assigns ids to new units.
+
+function str(value: unknown): string {
+  return typeof value === "string" ? value : value == null ? "" : String(value);
+}
+
+function optionalNum(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function objects(value: unknown): Record<string, unknown>[] {
+  return (Array.isArray(value) ? value : []).filter(
+    (item): item is Record<string, unknown> =>
+      !!item && typeof item === "object"
+  );
+}
+
+function parseContact(raw: Record<string, unknown>): CustomerContact {
+  return {
+    name: str(raw.name).trim(),
+    role: str(raw.role).trim(),
+    email: str(raw.email).trim(),
+    phone: str(raw.phone).trim(),
+  };
+}
+
+function parseUnit(raw: Record<string, unknown>): FleetUnit {
+  return {
+    id: str(raw.id),
+    unitNumber: str(raw.unitNumber).trim(),
+    vin: raw.vin ? normalizeVin(str(raw.vin)) : "",
+    odometer: optionalNum(raw.odometer),
+    engineHours: optionalNum(raw.engineHours),
+  };
+}
+
+export function parseCustomerInput(
+  body: Record<string, unknown>
+): CustomerInput {
+  const discount = Number(body.partsDiscountPercent);
+
+  return {
+    name: str(body.name).trim(),
+    contacts: objects(body.contacts)
+      .map(parseContact)
+      .filter((c) => c.name || c.email || c.phone),
+    billingAddress: str(body.billingAddress),
+    taxExempt: body.taxExempt === true,
+    laborRate: optionalNum(body.laborRate) || null,
+    partsDiscountPercent:
+      Number.isFinite(discount) && discount > 0 ? Math.min(discount, 100) : 0,
+    notes: str(body.notes),
+    units: objects(body.units)
+      .map(parseUnit)
+      .filter((u) => u.unitNumber || u.vin),
+  };
+}
+
+/** Problems that should block a save, as user-facing messages. */
+export function customerErrors(input: CustomerInput): string[] {
+  const errors: string[] = [];
+  if (!input.name) errors.push("Customer name is required.");
+
+  for (const unit of input.units) {
+    if (!unit.vin) continue;
+    const vinErrors = validateVin(unit.vin);
+    if (vinErrors.length) {
+      errors.push(
+        `Unit ${unit.unitNumber || unit.vin}: ${vinErrors[0].message}`
+      );
+    }
+  }
+  return errors;
+}
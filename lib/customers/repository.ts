@@ -0,0 +1,75 @@
+import { randomUUID } from "crypto";
+import { createCollection } from "@/lib/store/json-store";
+import type { Customer, CustomerInput, CustomerSummary } from "./types";
+
+const customers = createCollection<Customer>("customers");
+
+function withUnitIds(input: CustomerInput): CustomerInput {
+  return {
+    ...input,
+    units: input.units.map((u) => ({ ...u, id: u.id || randomUUID() })),
+  };
+}
+
+export function toCustomerSummary(c: Customer): CustomerSummary {
+  const contact = c.contacts[0];
+  return {
+    id: c.id,
+    name: c.name,
+    taxExempt: c.taxExempt,
+    laborRate: c.laborRate,
+    updatedAt: c.updatedAt,
+    primaryContact: contact
+      ? contact.name || contact.email || contact.phone
+      : "",
+    unitCount: c.units.length,
+  };
+}
+
+/** Case-insensitive match on name, contacts, unit numbers and VINs. */
+export async function searchCustomers(query = ""): Promise<Customer[]> {
+  const needle = query.trim().toLowerCase();
+  const all = await customers.list();
+
+  const matches = needle
+    ? all.filter((c) =>
+        [
+          c.name,
+          ...c.contacts.flatMap((contact) => [contact.name, contact.email]),
+          ...c.units.flatMap((u) => [u.unitNumber, u.vin]),
+        ].some((field) => field.toLowerCase().includes(needle))
+      )
+    : all;
+
+  return matches.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getCustomer(id: string): Promise<Customer | null> {
+  return customers.get(id);
+}
+
+export function createCustomer(input: CustomerInput): Promise<Customer> {
+  const now = new Date().toISOString();
+  return customers.insert({
+    ...withUnitIds(input),
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export function updateCustomer(
+  id: string,
+  input: CustomerInput
+): Promise<Customer | null> {
+  return customers.update(id, (current) => ({
+    ...withUnitIds(input),
+    id,
+    createdAt: current.createdAt,
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+export function deleteCustomer(id: string): Promise<boolean> {
+  return customers.remove(id);
+}
@@ -0,0 +1,39 @@
+export type CustomerContact = {
+  name: string;
+  role: string;
+  email: string;
+  phone: string;
+};
+
+export type FleetUnit = {
+  id: string;
+  unitNumber: string;
+  vin: string;
+  odometer: number | null;
+  engineHours: number | null;
+};
+
+/** Everything the customer editor sends when saving. */
+export type CustomerInput = {
+  name: string;
+  contacts: CustomerContact[];
+  billingAddress: string;
+  taxExempt: boolean;
+  /** Negotiated base labor rate; the shop default when null. */
+  laborRate: number | null;
+  /** Taken off marked-up parts on every quote for this customer. */
+  partsDiscountPercent: number;
+  notes: string;
+  units: FleetUnit[];
+};
+
+export type Customer = CustomerInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CustomerSummary = Pick<
+  Customer,
+  "id" | "name" | "taxExempt" | "laborRate" | "updatedAt"
+> & { primaryContact: string; unitCount: number };
@@ -0,0 +1,52 @@
+import type { Dtc } from "./types";
+
+// Fault code parsing. Writers type codes the way the scan tool shows them:
+// J1939 as "SPN 3226 FMI 2", "3226/2" or "3226-2"; OBD-II as "P20EE". No fs
+// here, so the form checks codes with the same rules as the server.
+
+const J1939 =
+  /^(?:SPN\s*:?\s*)?(\d{1,6})(?:\s*(?:[/.,-]\s*)?(?:FMI\s*:?\s*)?(\d{1,2}))?$/;
+const OBD = /^[PBCU][0-9A-F]{4}$/;
+
+// SPNs are 19 bits; FMIs 5.
+const MAX_SPN = 524_287;
+const MAX_FMI = 31;
+
+export function parseDtc(raw: string): Dtc | null {
+  const text = raw.trim().toUpperCase().replace(/\s+/g, " ");
+  if (OBD.test(text)) return { code: text, kind: "obd", spn: null, fmi: null };
+
+  const m = J1939.exec(text);
+  if (!m) return null;
+  const spn = Number(m[1]);
+  const fmi = m[2] === undefined ? null : Number(m[2]);
+  if (spn > MAX_SPN || (fmi !== null && fmi > MAX_FMI)) return null;
+  return {
+    code: fmi === null ? `SPN ${spn}` : `SPN ${spn} FMI ${fmi}`,
+    kind: "j1939",
+    spn,
+    fmi,
+  };
+}
+
+/** Codes as typed into one box: separated by commas, semicolons or lines. */
+export function splitDtcList(text: string): string[] {
+  return text
+    .split(/[,;\n]+/)
+    .map((code) => code.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Rule patterns: "SPN 3226" takes any FMI, "SPN 3226 FMI 2" just that one,
+ * "P20EE" one OBD code and "P20*" any code starting with P20.
+ */
+export function dtcMatches(pattern: string, dtc: Dtc): boolean {
+  const p = pattern.trim().toUpperCase();
+  if (p.endsWith("*")) return dtc.code.startsWith(p.slice(0, -1));
+
+  const want = parseDtc(p);
+  if (!want || want.kind !== dtc.kind) return false;
+  if (want.kind === "obd") return want.code === dtc.code;
+  return want.spn === dtc.spn && (want.fmi === null || want.fmi === dtc.fmi);
+}
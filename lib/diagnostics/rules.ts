@@ -0,0 +1,110 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { appliesToVehicle, type VehicleKey } from "@/lib/catalog/operations";
+import { dtcMatches } from "./dtc";
+import type {
+  DiagnosticReadings,
+  Dtc,
+  DtcRule,
+  SuggestionConfidence,
+} from "./types";
+
+// Fault code → operation rules, loaded from data/catalog/dtc-rules.json.
+// Every rule whose codes, vehicle and readings match adds its operation;
+// rules that land on the same operation are merged, keeping the strongest
+// confidence.
+
+const RULES_FILE = path.join(
+  process.cwd(),
+  "data",
+  "catalog",
+  "dtc-rules.json"
+);
+
+let rulesPromise: Promise<DtcRule[]> | null = null;
+
+export function loadDtcRules(): Promise<DtcRule[]> {
+  if (!rulesPromise) {
+    rulesPromise = readFile(RULES_FILE, "utf8")
+      .then((text) => JSON.parse(text) as DtcRule[])
+      .catch((e) => {
+        rulesPromise = null;
+        throw e;
+      });
+  }
+  return rulesPromise;
+}
+
+/** A matched operation, before it's priced. */
+export type RuleMatch = {
+  operationCode: string;
+  confidence: SuggestionConfidence;
+  dtcs: string[];
+  notes: string[];
+};
+
+const RANK: Record<SuggestionConfidence, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+const isFallback = (rule: DtcRule) => rule.codes.includes("*");
+
+function readingAllows(min: number | undefined, value: number | null) {
+  return min === undefined || (value !== null && value >= min);
+}
+
+function ruleApplies(
+  rule: DtcRule,
+  key: VehicleKey,
+  readings: DiagnosticReadings
+): boolean {
+  return (
+    appliesToVehicle(rule.appliesTo, key) &&
+    readingAllows(rule.minOdometer, readings.odometer) &&
+    readingAllows(rule.minEngineHours, readings.engineHours)
+  );
+}
+
+/**
+ * Strongest first, then in the order the codes were entered. Fallback
+ * rules only see codes no other rule matched.
+ */
+export function matchDtcRules(
+  rules: DtcRule[],
+  dtcs: Dtc[],
+  key: VehicleKey,
+  readings: DiagnosticReadings
+): RuleMatch[] {
+  const applicable = rules.filter((r) => ruleApplies(r, key, readings));
+  const matches = new Map<string, RuleMatch>();
+
+  const add = (rule: DtcRule, dtc: Dtc) => {
+    const match = matches.get(rule.operationCode) ?? {
+      operationCode: rule.operationCode,
+      confidence: rule.confidence,
+      dtcs: [],
+      notes: [],
+    };
+    if (RANK[rule.confidence] > RANK[match.confidence]) {
+      match.confidence = rule.confidence;
+    }
+    if (!match.dtcs.includes(dtc.code)) match.dtcs.push(dtc.code);
+    if (!match.notes.includes(rule.note)) match.notes.push(rule.note);
+    matches.set(rule.operationCode, match);
+  };
+
+  for (const dtc of dtcs) {
+    const hits = applicable.filter(
+      (r) => !isFallback(r) && r.codes.some((p) => dtcMatches(p, dtc))
+    );
+    for (const rule of hits.length ? hits : applicable.filter(isFallback)) {
+      add(rule, dtc);
+    }
+  }
+
+  return [...matches.values()].sort(
+    (a, b) => RANK[b.confidence] - RANK[a.confidence]
+  );
+}
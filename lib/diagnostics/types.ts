@@ -0,0 +1,45 @@
+import type { Applicability } from "@/lib/catalog/operations";
+import type { RepairLine } from "@/lib/quotes/types";
+
+/** A fault code in its normalized form, e.g. "SPN 3226 FMI 2" or "P20EE". */
+export type Dtc = {
+  code: string;
+  kind: "j1939" | "obd";
+  spn: number | null;
+  fmi: number | null;
+};
+
+export type SuggestionConfidence = "high" | "medium" | "low";
+
+/** One line of data/catalog/dtc-rules.json. */
+export type DtcRule = {
+  id: string;
+  /** Code patterns (see dtcMatches); "*" on its own is a fallback rule. */
+  codes: string[];
+  appliesTo?: Applicability;
+  /** The rule only fires once the reading is known and at least this. */
+  minOdometer?: number;
+  minEngineHours?: number;
+  operationCode: string;
+  confidence: SuggestionConfidence;
+  note: string;
+};
+
+/** What a rule matches against besides the codes. */
+export type DiagnosticReadings = {
+  odometer: number | null;
+  engineHours: number | null;
+};
+
+/** An operation proposed from the fault codes, for the writer to accept. */
+export type OperationSuggestion = {
+  operationCode: string;
+  operation: string;
+  /** The strongest rule that led here. */
+  confidence: SuggestionConfidence;
+  /** Codes that led here, normalized. */
+  dtcs: string[];
+  notes: string[];
+  /** Priced the way it would go on the quote. */
+  line: RepairLine;
+};
@@ -0,0 +1,58 @@
+import { MESSAGES, type MessageKey } from "./messages";
+import { DEFAULT_FORMAT, languageOf, type QuoteFormat } from "./locales";
+
+// The one formatter for quote amounts, hours, dates and printed text, so the
+// editor, the approval page and the PDF all present a quote the same way.
+
+export type Formatter = {
+  format: QuoteFormat;
+  money(amount: number): string;
+  /** Labor rate, e.g. "$165.00/hr". */
+  rate(amount: number): string;
+  hours(value: number, digits?: number): string;
+  /** Odometer reading, e.g. "412,500 mi". */
+  miles(value: number): string;
+  /** `value` is already a percentage (10 means 10%). */
+  percent(value: number): string;
+  date(iso: string): string;
+  t(key: MessageKey, values?: Record<string, string | number>): string;
+};
+
+export function createFormatter(format: Partial<QuoteFormat> = {}): Formatter {
+  const resolved: QuoteFormat = {
+    currency: format.currency ?? DEFAULT_FORMAT.currency,
+    locale: format.locale ?? DEFAULT_FORMAT.locale,
+  };
+  const { currency, locale } = resolved;
+  const messages = MESSAGES[languageOf(locale)];
+
+  const moneyFormat = new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+  });
+  const percentFormat = new Intl.NumberFormat(locale, {
+    style: "percent",
+    maximumFractionDigits: 2,
+  });
+
+  const t: Formatter["t"] = (key, values = {}) =>
+    messages[key].replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in values ? String(values[name]) : match
+    );
+
+  return {
+    format: resolved,
+    money: (amount) => moneyFormat.format(amount),
+    rate: (amount) => t("perHour", { amount: moneyFormat.format(amount) }),
+    hours: (value, digits = 2) =>
+      new Intl.NumberFormat(locale, {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      }).format(value),
+    miles: (value) =>
+      t("miles", { miles: new Intl.NumberFormat(locale).format(value) }),
+    percent: (value) => percentFormat.format(value / 100),
+    date: (iso) => new Date(iso).toLocaleDateString(locale),
+    t,
+  };
+}
@@ -0,0 +1,39 @@
+// Currencies and locales a quote can be written in. The locale picks both
+// the number format and the language of the printed quote.
+
+export type CurrencyCode = "USD" | "CAD" | "MXN";
+
+export type LocaleCode = "en-US" | "en-CA" | "fr-CA" | "es-MX";
+
+export type Language = "en" | "fr" | "es";
+
+/** How one quote's amounts and printed text are presented. */
+export type QuoteFormat = { currency: CurrencyCode; locale: LocaleCode };
+
+export const CURRENCIES: { code: CurrencyCode; name: string }[] = [
+  { code: "USD", name: "US dollar" },
+  { code: "CAD", name: "Canadian dollar" },
+  { code: "MXN", name: "Mexican peso" },
+];
+
+export const LOCALES: { code: LocaleCode; name: string }[] = [
+  { code: "en-US", name: "English (US)" },
+  { code: "en-CA", name: "English (Canada)" },
+  { code: "fr-CA", name: "Français (Canada)" },
+  { code: "es-MX", name: "Español (México)" },
+];
+
+/** What quotes saved before currencies existed were written in. */
+export const DEFAULT_FORMAT: QuoteFormat = { currency: "USD", locale: "en-US" };
+
+export function isCurrency(value: unknown): value is CurrencyCode {
+  return CURRENCIES.some((c) => c.code === value);
+}
+
+export function isLocale(value: unknown): value is LocaleCode {
+  return LOCALES.some((l) => l.code === value);
+}
+
+export function languageOf(locale: LocaleCode): Language {
+  return locale.slice(0, 2) as Language;
+}
@@ -0,0 +1,186 @@
+import type { Language } from "./locales";
+
+// Static text of the printed quote (editor print view, PDF and approval
+// page). Placeholders in braces are filled in by the formatter.
+
+const en = {
+  estimateSubtitle: "Heavy-duty service estimate",
+  quoteNumber: "Quote #",
+  date: "Date",
+  revision: "Revision",
+  validUntil: "Valid until",
+  customer: "Customer",
+  unit: "Unit / Truck #",
+  vin: "VIN",
+  vehicle: "Vehicle",
+  odometer: "Odometer",
+  miles: "{miles} mi",
+  notAvailable: "N/A",
+  operation: "Operation",
+  srtHours: "SRT Hrs",
+  rate: "Rate",
+  labor: "Labor",
+  parts: "Parts",
+  lineTotal: "Line Total",
+  flat: "Flat",
+  perHour: "{amount}/hr",
+  partNumber: "Part #",
+  description: "Description",
+  vendor: "Vendor",
+  quantity: "Qty",
+  unitCost: "Unit Cost",
+  core: "Core",
+  markup: "Markup %",
+  price: "Price",
+  partLine: "{quantity} @ {price} = {total}",
+  corePerUnit: "+ core {amount} ea",
+  noLines: "No line items.",
+  warrantyNoCharge: "Warranty – no charge",
+  baseLabor: "Base Labor Total",
+  baseParts: "Base Parts Total",
+  partsWithMarkup: "Parts with Markup",
+  partsDiscount: "Customer Parts Discount ({percent})",
+  coreCharges: "Core Charges (refundable)",
+  subtotal: "Subtotal (Labor + Marked-up Parts)",
+  margin: "Additional Margin ({percent})",
+  beforeFees: "Total Before Fees & Tax",
+  shopSupplies: "Shop Supplies",
+  salesTax: "Sales Tax",
+  exempt: "Exempt",
+  partsTax: "Parts Tax",
+  laborTax: "Labor Tax",
+  feesTax: "Tax on Fees",
+  quoteTotal: "Final Quote Total",
+  terms: "Terms & Conditions",
+  poweredBy: "Powered by VINQuoter.ai",
+  page: "Page {page} of {pages}",
+  defaultTerms:
+    "This estimate is based on current parts pricing and standard repair times. " +
+    "Actual invoice may vary based on additional diagnostics, parts availability, " +
+    "and unforeseen repairs. Customer authorizes repairs as listed. " +
+    "Estimate valid for 30 days.",
+};
+
+export type MessageKey = keyof typeof en;
+
+const fr: Record<MessageKey, string> = {
+  estimateSubtitle: "Estimation d'entretien pour véhicules lourds",
+  quoteNumber: "Soumission no",
+  date: "Date",
+  revision: "Révision",
+  validUntil: "Valide jusqu'au",
+  customer: "Client",
+  unit: "Unité / Camion no",
+  vin: "NIV",
+  vehicle: "Véhicule",
+  odometer: "Odomètre",
+  miles: "{miles} mi",
+  notAvailable: "S.O.",
+  operation: "Opération",
+  srtHours: "Heures TRS",
+  rate: "Taux",
+  labor: "Main-d'œuvre",
+  parts: "Pièces",
+  lineTotal: "Total de ligne",
+  flat: "Forfait",
+  perHour: "{amount}/h",
+  partNumber: "No de pièce",
+  description: "Description",
+  vendor: "Fournisseur",
+  quantity: "Qté",
+  unitCost: "Coût unitaire",
+  core: "Consigne",
+  markup: "Majoration %",
+  price: "Prix",
+  partLine: "{quantity} × {price} = {total}",
+  corePerUnit: "+ consigne {amount} ch.",
+  noLines: "Aucune ligne.",
+  warrantyNoCharge: "Garantie – sans frais",
+  baseLabor: "Main-d'œuvre de base",
+  baseParts: "Pièces au coûtant",
+  partsWithMarkup: "Pièces avec majoration",
+  partsDiscount: "Remise client sur pièces ({percent})",
+  coreCharges: "Consignes (remboursables)",
+  subtotal: "Sous-total (main-d'œuvre + pièces majorées)",
+  margin: "Marge additionnelle ({percent})",
+  beforeFees: "Total avant frais et taxes",
+  shopSupplies: "Fournitures d'atelier",
+  salesTax: "Taxes de vente",
+  exempt: "Exonéré",
+  partsTax: "Taxes sur pièces",
+  laborTax: "Taxes sur main-d'œuvre",
+  feesTax: "Taxes sur frais",
+  quoteTotal: "Total de la soumission",
+  terms: "Modalités et conditions",
+  poweredBy: "Propulsé par VINQuoter.ai",
+  page: "Page {page} de {pages}",
+  defaultTerms:
+    "Cette estimation est fondée sur le prix actuel des pièces et les temps de réparation standards. " +
+    "La facture réelle peut varier selon les diagnostics supplémentaires, la disponibilité des pièces " +
+    "et les réparations imprévues. Le client autorise les réparations indiquées. " +
+    "Estimation valide pendant 30 jours.",
+};
+
+const es: Record<MessageKey, string> = {
+  estimateSubtitle: "Presupuesto de servicio para vehículos pesados",
+  quoteNumber: "Cotización n.º",
+  date: "Fecha",
+  revision: "Revisión",
+  validUntil: "Válida hasta",
+  customer: "Cliente",
+  unit: "Unidad / Camión n.º",
+  vin: "NIV",
+  vehicle: "Vehículo",
+  odometer: "Odómetro",
+  miles: "{miles} mi",
+  notAvailable: "N/D",
+  operation: "Operación",
+  srtHours: "Horas SRT",
+  rate: "Tarifa",
+  labor: "Mano de obra",
+  parts: "Refacciones",
+  lineTotal: "Total de línea",
+  flat: "Fijo",
+  perHour: "{amount}/h",
+  partNumber: "N.º de parte",
+  description: "Descripción",
+  vendor: "Proveedor",
+  quantity: "Cant.",
+  unitCost: "Costo unitario",
+  core: "Casco",
+  markup: "Margen %",
+  price: "Precio",
+  partLine: "{quantity} × {price} = {total}",
+  corePerUnit: "+ casco {amount} c/u",
+  noLines: "Sin conceptos.",
+  warrantyNoCharge: "Garantía – sin cargo",
+  baseLabor: "Mano de obra base",
+  baseParts: "Refacciones a costo",
+  partsWithMarkup: "Refacciones con margen",
+  partsDiscount: "Descuento al cliente en refacciones ({percent})",
+  coreCharges: "Depósito de cascos (reembolsable)",
+  subtotal: "Subtotal (mano de obra + refacciones)",
+  margin: "Margen adicional ({percent})",
+  beforeFees: "Total antes de cargos e impuestos",
+  shopSupplies: "Insumos de taller",
+  salesTax: "Impuestos",
+  exempt: "Exento",
+  partsTax: "Impuesto sobre refacciones",
+  laborTax: "Impuesto sobre mano de obra",
+  feesTax: "Impuesto sobre cargos",
+  quoteTotal: "Total de la cotización",
+  terms: "Términos y condiciones",
+  poweredBy: "Con tecnología de VINQuoter.ai",
+  page: "Página {page} de {pages}",
+  defaultTerms:
+    "Este presupuesto se basa en los precios actuales de refacciones y en tiempos estándar de reparación. " +
+    "La factura final puede variar por diagnósticos adicionales, disponibilidad de refacciones " +
+    "y reparaciones imprevistas. El cliente autoriza las reparaciones indicadas. " +
+    "Presupuesto válido por 30 días.",
+};
+
+export const MESSAGES: Record<Language, Record<MessageKey, string>> = {
+  en,
+  fr,
+  es,
+};
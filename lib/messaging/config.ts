@@ -0,0 +1,16 @@
+// Environment settings shared by the transports.
+
+export function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const n = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isFinite(n) && n > 0
+    ? n
+    : fallback;
+}
+
+/** A required setting, with an error that says which one is missing. */
+export function requiredEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is not set.`);
+  return value;
+}
@@ -0,0 +1,44 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { dataDir } from "@/lib/store/json-store";
+import type { Transport } from "./types";
+
+// Writes each message to <data dir>/outbox instead of sending it, for
+// testing and for shops that haven't set up email or SMS yet.
+
+export const fileTransport: Transport = {
+  name: "file",
+  async send(message) {
+    const id = `${new Date().toISOString().replace(/[:.]/g, "-")}-${
+      message.channel
+    }-${randomUUID().slice(0, 8)}`;
+    const dir = path.join(dataDir(), "outbox");
+    await mkdir(dir, { recursive: true });
+
+    const files = await Promise.all(
+      message.attachments.map(async (a) => {
+        const name = `${id}-${a.filename}`;
+        await writeFile(path.join(dir, name), a.content);
+        return name;
+      })
+    );
+    await writeFile(
+      path.join(dir, `${id}.json`),
+      JSON.stringify(
+        {
+          channel: message.channel,
+          to: message.to,
+          subject: message.subject,
+          body: message.body,
+          attachments: files,
+        },
+        null,
+        2
+      )
+    );
+
+    console.info(`Outbox: ${message.channel} to ${message.to} saved as ${id}`);
+    return { providerId: id };
+  },
+};
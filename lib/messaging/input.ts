@@ -0,0 +1,44 @@
+import type { Channel, SendInput } from "./types";
+
+// Coerce a JSON request body into a SendInput.
+
+function str(value: unknown): string {
+  return typeof value === "string" ? value : value == null ? "" : String(value);
+}
+
+function isChannel(value: unknown): value is Channel {
+  return value === "email" || value === "sms";
+}
+
+/** Phone numbers keep digits and a leading +, for the SMS gateway. */
+export function normalizePhone(value: string): string {
+  const digits = value.replace(/\D/g, "");
+  return value.trim().startsWith("+") ? `+${digits}` : digits;
+}
+
+export function parseSendInput(body: Record<string, unknown>): SendInput {
+  const channel = isChannel(body.channel) ? body.channel : "email";
+  const to = str(body.to).trim();
+  return {
+    channel,
+    to: channel === "sms" ? normalizePhone(to) : to,
+    subject: channel === "email" ? str(body.subject).trim() : "",
+    body: str(body.body),
+    attachPdf: channel === "email" && body.attachPdf !== false,
+  };
+}
+
+/** Problems that should block a send, as user-facing messages. */
+export function sendErrors(input: SendInput): string[] {
+  const errors: string[] = [];
+  if (input.channel === "email") {
+    if (!/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(input.to)) {
+      errors.push("Enter a valid email address.");
+    }
+    if (!input.subject) errors.push("Subject is required.");
+  } else if (!/^\+?\d{10,15}$/.test(input.to)) {
+    errors.push("Enter a mobile number with 10–15 digits.");
+  }
+  if (!input.body.trim()) errors.push("Message is required.");
+  return errors;
+}
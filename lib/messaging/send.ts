@@ -0,0 +1,66 @@
+import { randomUUID } from "crypto";
+import type { UserRef } from "@/lib/auth/types";
+import { quotePdfFilename, renderShopQuotePdf } from "@/lib/pdf/shop-quote";
+import { recordDelivery } from "@/lib/quotes/repository";
+import type { SavedQuote } from "@/lib/quotes/types";
+import { renderTemplate, templateValues } from "./templates";
+import { activeTransport } from "./transport";
+import type { Attachment, Delivery, SendInput } from "./types";
+
+/**
+ * Fill in the templates, hand the message to the channel's transport and
+ * log the attempt on the quote. A failed send is logged too, never thrown.
+ */
+export async function sendQuote(
+  quote: SavedQuote,
+  input: SendInput,
+  origin: string,
+  by: UserRef | null
+): Promise<{ delivery: Delivery; quote: SavedQuote }> {
+  const values = templateValues(quote, origin);
+  const subject = renderTemplate(input.subject, values);
+  const body = renderTemplate(input.body, values);
+  const transport = activeTransport(input.channel);
+
+  let providerId: string | null = null;
+  let error: string | null = null;
+  try {
+    const attachments: Attachment[] = input.attachPdf
+      ? [
+          {
+            filename: quotePdfFilename(quote),
+            contentType: "application/pdf",
+            content: await renderShopQuotePdf(quote),
+          },
+        ]
+      : [];
+    ({ providerId } = await transport.send({
+      channel: input.channel,
+      to: input.to,
+      subject,
+      body,
+      attachments,
+    }));
+  } catch (e) {
+    console.error(`Sending quote ${quote.quoteNumber} failed:`, e);
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  const delivery: Delivery = {
+    id: randomUUID(),
+    channel: input.channel,
+    to: input.to,
+    subject,
+    body,
+    transport: transport.name,
+    status: error ? "failed" : "sent",
+    providerId,
+    error,
+    at: new Date().toISOString(),
+    by,
+  };
+  return {
+    delivery,
+    quote: (await recordDelivery(quote.id, delivery)) ?? quote,
+  };
+}
@@ -0,0 +1,39 @@
+import { requiredEnv } from "./config";
+import type { Transport } from "./types";
+
+// A generic HTTP SMS gateway: the message is POSTed as JSON
+// ({ from, to, body }) with the token as a bearer credential. Most
+// providers accept this shape directly or through a small relay.
+
+const TIMEOUT_MS = 10_000;
+
+export const smsGatewayTransport: Transport = {
+  name: "sms-gateway",
+  async send(message) {
+    const url = requiredEnv("SMS_GATEWAY_URL");
+    const token = process.env.SMS_GATEWAY_TOKEN;
+
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify({
+        from: process.env.SMS_FROM || undefined,
+        to: message.to,
+        body: message.body,
+      }),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      throw new Error(
+        data?.error || data?.message || `SMS gateway answered ${res.status}.`
+      );
+    }
+
+    const id = data?.id ?? data?.sid ?? data?.messageId;
+    return { providerId: id == null ? null : String(id) };
+  },
+};
@@ -0,0 +1,227 @@
+import { randomUUID } from "crypto";
+import net from "net";
+import os from "os";
+import tls from "tls";
+import { envNumber, requiredEnv } from "./config";
+import type { OutgoingMessage, Transport } from "./types";
+
+// A small SMTP client: EHLO, STARTTLS when the server offers it (or TLS
+// from the start with SMTP_SECURE=on), AUTH PLAIN over TLS only (unless
+// SMTP_ALLOW_PLAINTEXT_AUTH=on), one recipient per message. Enough for a
+// shop's mail provider without another dependency.
+
+const TIMEOUT_MS = 15_000;
+
+type Reply = { code: number; text: string };
+
+type Connection = {
+  socket: net.Socket;
+  next(): Promise<Reply>;
+  detach(): void;
+};
+
+function connection(socket: net.Socket): Connection {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: Reply[] = [];
+  let failure: Error | null = null;
+  let waiting: { resolve(r: Reply): void; reject(e: Error): void } | null =
+    null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      // "250-..." continues a reply; "250 ..." ends it.
+      if (line[3] === "-") continue;
+      replies.push({ code: Number(line.slice(0, 3)), text: lines.join("\n") });
+      lines = [];
+    }
+    if (waiting && replies.length) {
+      const { resolve } = waiting;
+      waiting = null;
+      resolve(replies.shift() as Reply);
+    }
+  };
+  const onError = (e: Error) => {
+    failure ??= e;
+    waiting?.reject(failure);
+    waiting = null;
+  };
+  const onClose = () =>
+    onError(new Error("The mail server closed the connection."));
+  const onTimeout = () =>
+    socket.destroy(new Error("The mail server timed out."));
+
+  socket.setTimeout(TIMEOUT_MS);
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+  socket.on("timeout", onTimeout);
+
+  return {
+    socket,
+    next() {
+      if (replies.length) return Promise.resolve(replies.shift() as Reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+      });
+    },
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+      socket.off("timeout", onTimeout);
+    },
+  };
+}
+
+/** Send a command (if any) and check the reply code. */
+async function expect(
+  conn: Connection,
+  codes: number[],
+  command?: string,
+  what = command?.split(/[ :]/)[0] ?? "the connection"
+): Promise<Reply> {
+  if (command) conn.socket.write(`${command}\r\n`);
+  const reply = await conn.next();
+  if (!codes.includes(reply.code)) {
+    throw new Error(
+      `Mail server rejected ${what}: ${reply.code} ${reply.text}`
+    );
+  }
+  return reply;
+}
+
+function startTls(conn: Connection, host: string): Promise<Connection> {
+  conn.detach();
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket: conn.socket, servername: host }, () =>
+      resolve(connection(secure))
+    );
+    secure.once("error", reject);
+  });
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(content: Uint8Array | string): string {
+  const encoded = Buffer.from(content).toString("base64");
+  return encoded.replace(/.{1,76}/g, "$&\r\n");
+}
+
+/** "Shop <shop@example.com>" → "shop@example.com" */
+function address(from: string): string {
+  return from.replace(/^.*<|>.*$/g, "");
+}
+
+/** The message as MIME: a text part plus any attachments. */
+function buildMime(from: string, message: OutgoingMessage): string {
+  const domain = address(from).split("@")[1] || os.hostname();
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+  const text = [
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.body),
+  ].join("\r\n");
+
+  if (!message.attachments.length) {
+    return [...headers, text].join("\r\n");
+  }
+
+  const boundary = `vinquoter-${randomUUID()}`;
+  const parts = [
+    text,
+    ...message.attachments.map((a) =>
+      [
+        `Content-Type: ${a.contentType}; name="${a.filename}"`,
+        "Content-Transfer-Encoding: base64",
+        `Content-Disposition: attachment; filename="${a.filename}"`,
+        "",
+        base64Lines(a.content),
+      ].join("\r\n")
+    ),
+  ];
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+export const smtpTransport: Transport = {
+  name: "smtp",
+  async send(message) {
+    const host = requiredEnv("SMTP_HOST");
+    const from = requiredEnv("SMTP_FROM");
+    const secure = process.env.SMTP_SECURE === "on";
+    const port = envNumber("SMTP_PORT", secure ? 465 : 587);
+    const user = process.env.SMTP_USER;
+
+    let conn = connection(
+      secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port })
+    );
+    try {
+      await expect(conn, [220]);
+      const ehlo = await expect(conn, [250], `EHLO ${os.hostname()}`);
+
+      let encrypted = secure;
+      if (!secure && /^STARTTLS$/im.test(ehlo.text)) {
+        await expect(conn, [220], "STARTTLS");
+        conn = await startTls(conn, host);
+        encrypted = true;
+        await expect(conn, [250], `EHLO ${os.hostname()}`);
+      }
+      if (user) {
+        // The login is only base64, so it never goes over a plain connection
+        // unless the operator has said that's acceptable.
+        if (!encrypted && process.env.SMTP_ALLOW_PLAINTEXT_AUTH !== "on") {
+          throw new Error(
+            "The mail server does not offer STARTTLS, so the login was not sent. Set SMTP_SECURE=on, or SMTP_ALLOW_PLAINTEXT_AUTH=on to log in without TLS."
+          );
+        }
+        const credentials = Buffer.from(
+          `\0${user}\0${process.env.SMTP_PASSWORD ?? ""}`
+        ).toString("base64");
+        await expect(conn, [235], `AUTH PLAIN ${credentials}`);
+      }
+
+      await expect(conn, [250], `MAIL FROM:<${address(from)}>`);
+      await expect(conn, [250, 251], `RCPT TO:<${message.to}>`);
+      await expect(conn, [354], "DATA");
+      // Lines starting with a dot are doubled so they can't end the data.
+      const data = buildMime(from, message).replace(/^\./gm, "..");
+      conn.socket.write(`${data}\r\n.\r\n`);
+      const accepted = await expect(conn, [250], undefined, "the message");
+
+      conn.socket.write("QUIT\r\n");
+      return { providerId: accepted.text || null };
+    } finally {
+      conn.detach();
+      // Errors while hanging up don't change the outcome.
+      conn.socket.on("error", () => undefined);
+      conn.socket.end();
+    }
+  },
+};
@@ -0,0 +1,81 @@
+import { createFormatter } from "@/lib/i18n/format";
+import type { SavedQuote } from "@/lib/quotes/types";
+import type { MessageTemplates } from "@/lib/settings/types";
+import type { Channel } from "./types";
+
+// Filling in the shop's message templates. Client-safe, so the send form
+// can preview exactly what the server will send.
+
+export type TemplateValues = {
+  shopName: string;
+  quoteNumber: string;
+  customerName: string;
+  vehicle: string;
+  total: string;
+  approvalLink: string;
+};
+
+export const TEMPLATE_FIELDS: (keyof TemplateValues)[] = [
+  "shopName",
+  "quoteNumber",
+  "customerName",
+  "vehicle",
+  "total",
+  "approvalLink",
+];
+
+/** "{shopName}, {quoteNumber}, ..." for help text. */
+export const TEMPLATE_PLACEHOLDERS = TEMPLATE_FIELDS.map((f) => `{${f}}`).join(
+  ", "
+);
+
+/** `origin` is the app's base URL; the link only exists once sent. */
+export function templateValues(
+  quote: Pick<
+    SavedQuote,
+    | "shopName"
+    | "quoteNumber"
+    | "customerName"
+    | "vehicle"
+    | "totals"
+    | "currency"
+    | "locale"
+    | "approvalToken"
+  >,
+  origin: string
+): TemplateValues {
+  const fmt = createFormatter({
+    currency: quote.currency ?? undefined,
+    locale: quote.locale ?? undefined,
+  });
+  return {
+    shopName: quote.shopName,
+    quoteNumber: quote.quoteNumber,
+    customerName: quote.customerName || "customer",
+    vehicle: quote.vehicle,
+    total: fmt.money(quote.totals.quoteTotal),
+    approvalLink: quote.approvalToken
+      ? `${origin}/approve/${quote.approvalToken}`
+      : "",
+  };
+}
+
+/** Unknown placeholders are left as typed so mistakes show up. */
+export function renderTemplate(
+  template: string,
+  values: TemplateValues
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? values[name as keyof TemplateValues] : match
+  );
+}
+
+/** The templates a channel starts from. SMS has no subject. */
+export function channelTemplates(
+  channel: Channel,
+  templates: MessageTemplates
+): { subject: string; body: string } {
+  return channel === "email"
+    ? { subject: templates.emailSubject, body: templates.emailBody }
+    : { subject: "", body: templates.sms };
+}
@@ -0,0 +1,23 @@
+import { fileTransport } from "./file";
+import { smsGatewayTransport } from "./sms-gateway";
+import { smtpTransport } from "./smtp";
+import type { Channel, Transport } from "./types";
+
+// Outgoing email and text messages. Configuration:
+//   EMAIL_TRANSPORT     smtp, or file (default) to write to the local outbox
+//   SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE (on for port 465),
+//   SMTP_USER, SMTP_PASSWORD, SMTP_FROM,
+//   SMTP_ALLOW_PLAINTEXT_AUTH (on to log in without TLS)
+//   SMS_TRANSPORT       gateway, or file (default)
+//   SMS_GATEWAY_URL, SMS_GATEWAY_TOKEN, SMS_FROM
+
+export function activeTransport(channel: Channel): Transport {
+  if (channel === "email") {
+    return process.env.EMAIL_TRANSPORT === "smtp"
+      ? smtpTransport
+      : fileTransport;
+  }
+  return process.env.SMS_TRANSPORT === "gateway"
+    ? smsGatewayTransport
+    : fileTransport;
+}
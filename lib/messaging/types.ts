@@ -0,0 +1,56 @@
+import type { UserRef } from "@/lib/auth/types";
+
+export type Channel = "email" | "sms";
+
+export type Attachment = {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+};
+
+/** One message as handed to a transport. SMS ignores subject and files. */
+export type OutgoingMessage = {
+  channel: Channel;
+  to: string;
+  subject: string;
+  body: string;
+  attachments: Attachment[];
+};
+
+export type TransportName = "smtp" | "sms-gateway" | "file";
+
+export type Transport = {
+  name: TransportName;
+  /**
+   * Resolve with the provider's message id (when it gives one); throw when
+   * the message couldn't be handed over.
+   */
+  send(message: OutgoingMessage): Promise<{ providerId: string | null }>;
+};
+
+/** What the "Send quote" form posts. Templates use {placeholders}. */
+export type SendInput = {
+  channel: Channel;
+  to: string;
+  subject: string;
+  body: string;
+  /** Email only: attach the quote PDF. */
+  attachPdf: boolean;
+};
+
+export type DeliveryStatus = "sent" | "failed";
+
+/** One send attempt, logged on the quote. */
+export type Delivery = {
+  id: string;
+  channel: Channel;
+  to: string;
+  subject: string;
+  body: string;
+  transport: TransportName;
+  status: DeliveryStatus;
+  providerId: string | null;
+  error: string | null;
+  at: string;
+  by: UserRef | null;
+};
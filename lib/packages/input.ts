@@ -0,0 +1,120 @@
+import type { Applicability, CatalogPart } from "@/lib/catalog/operations";
+import { QUOTE_LIMITS } from "@/lib/quotes/schema";
+import type { PackageInput, PackageLine } from "./types";
+
+// Coerce a JSON request body into a PackageInput. Fields a line leaves out
+// stay out, so they keep following the catalog.
+
+function str(value: unknown): string {
+  return typeof value === "string" ? value : value == null ? "" : String(value);
+}
+
+function optionalNum(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+function objects(value: unknown): Record<string, unknown>[] {
+  return (Array.isArray(value) ? value : []).filter(
+    (item): item is Record<string, unknown> =>
+      !!item && typeof item === "object"
+  );
+}
+
+function strings(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.map((v) => str(v).trim()).filter(Boolean);
+  return list.length ? list : undefined;
+}
+
+function parsePart(raw: Record<string, unknown>): CatalogPart {
+  return {
+    partNumber: str(raw.partNumber).trim() || undefined,
+    description: str(raw.description),
+    vendor: str(raw.vendor) || undefined,
+    quantity: optionalNum(raw.quantity) ?? 1,
+    unitCost: optionalNum(raw.unitCost) ?? 0,
+    coreCharge: optionalNum(raw.coreCharge),
+  };
+}
+
+function parseLine(raw: Record<string, unknown>): PackageLine {
+  const line: PackageLine = {};
+  if (raw.operationCode) line.operationCode = str(raw.operationCode).trim();
+  if (raw.operation) line.operation = str(raw.operation).trim();
+  if (raw.rateClass) line.rateClass = str(raw.rateClass);
+  const srtHours = optionalNum(raw.srtHours);
+  if (srtHours !== undefined) line.srtHours = srtHours;
+  if (Array.isArray(raw.parts)) line.parts = objects(raw.parts).map(parsePart);
+  return line;
+}
+
+function parseAppliesTo(value: unknown): Applicability | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const raw = value as Record<string, unknown>;
+  const a: Applicability = {
+    makes: strings(raw.makes),
+    models: strings(raw.models),
+    engineFamilies: strings(raw.engineFamilies),
+    yearFrom: optionalNum(raw.yearFrom),
+    yearTo: optionalNum(raw.yearTo),
+  };
+  const set = Object.entries(a).filter(([, v]) => v !== undefined);
+  return set.length ? Object.fromEntries(set) : undefined;
+}
+
+export function parsePackageInput(body: Record<string, unknown>): PackageInput {
+  return {
+    name: str(body.name).trim(),
+    description: str(body.description).trim(),
+    category: str(body.category).trim() || "custom",
+    appliesTo: parseAppliesTo(body.appliesTo),
+    fixedPrice: optionalNum(body.fixedPrice) ?? null,
+    lines: objects(body.lines).map(parseLine),
+  };
+}
+
+function outOfRange(
+  value: number | undefined,
+  limit: { min: number; max: number }
+): boolean {
+  return (
+    value !== undefined &&
+    !(Number.isFinite(value) && value >= limit.min && value <= limit.max)
+  );
+}
+
+function rangeMessage(limit: { label: string; min: number; max: number }) {
+  return `${limit.label} must be between ${limit.min} and ${limit.max}.`;
+}
+
+/** Problems that should block a save, as user-facing messages. */
+export function packageErrors(input: PackageInput): string[] {
+  const errors: string[] = [];
+  if (!input.name) errors.push("Package name is required.");
+  if (!input.lines.length) {
+    errors.push("A package needs at least one operation.");
+  }
+  if (outOfRange(input.fixedPrice ?? undefined, QUOTE_LIMITS.fixedPrice)) {
+    errors.push(rangeMessage(QUOTE_LIMITS.fixedPrice));
+  }
+
+  input.lines.forEach((line, i) => {
+    const label = `Line ${i + 1}`;
+    if (!line.operationCode && !line.operation) {
+      errors.push(`${label}: needs an operation code or name.`);
+    }
+    if (outOfRange(line.srtHours, QUOTE_LIMITS.srtHours)) {
+      errors.push(`${label}: ${rangeMessage(QUOTE_LIMITS.srtHours)}`);
+    }
+    for (const part of line.parts ?? []) {
+      for (const key of ["quantity", "unitCost", "coreCharge"] as const) {
+        if (outOfRange(part[key], QUOTE_LIMITS[key])) {
+          errors.push(`${label}: ${rangeMessage(QUOTE_LIMITS[key])}`);
+        }
+      }
+    }
+  });
+  return [...new Set(errors)];
+}
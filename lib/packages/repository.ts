@@ -0,0 +1,171 @@
+import { randomUUID } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import {
+  appliesToVehicle,
+  buildCatalogLine,
+  findOperation,
+  loadCatalog,
+  type VehicleKey,
+} from "@/lib/catalog/operations";
+import { roundCents } from "@/lib/pricing/money";
+import { priceLine } from "@/lib/pricing/pricing";
+import { shopLines, type EstimateTerms } from "@/lib/quotes/estimate";
+import type { RepairLine } from "@/lib/quotes/types";
+import { BASE_RATE_CLASS } from "@/lib/settings/rate-classes";
+import { createCollection } from "@/lib/store/json-store";
+import type { PackageInput, PackageSummary, ServicePackage } from "./types";
+
+// Service packages: the built-in set shipped in data/catalog/packages.json
+// plus templates the shop saves from its own quotes.
+
+const BUILT_IN_FILE = path.join(
+  process.cwd(),
+  "data",
+  "catalog",
+  "packages.json"
+);
+
+const templates = createCollection<ServicePackage>("packages");
+
+let builtInPromise: Promise<ServicePackage[]> | null = null;
+
+function loadBuiltIns(): Promise<ServicePackage[]> {
+  if (!builtInPromise) {
+    builtInPromise = readFile(BUILT_IN_FILE, "utf8")
+      .then((json) =>
+        (JSON.parse(json) as (PackageInput & { id: string })[]).map((p) => ({
+          ...p,
+          builtIn: true,
+          createdAt: null,
+        }))
+      )
+      .catch((e) => {
+        builtInPromise = null;
+        throw e;
+      });
+  }
+  return builtInPromise;
+}
+
+export async function listPackages(): Promise<ServicePackage[]> {
+  const [builtIns, saved] = await Promise.all([
+    loadBuiltIns(),
+    templates.list(),
+  ]);
+  return [...builtIns, ...saved.sort((a, b) => a.name.localeCompare(b.name))];
+}
+
+/** Packages offered for a vehicle; unknown attributes never rule one out. */
+export async function packagesForVehicle(
+  key: VehicleKey
+): Promise<ServicePackage[]> {
+  const all = await listPackages();
+  return all.filter((p) => appliesToVehicle(p.appliesTo, key));
+}
+
+export async function getPackage(id: string): Promise<ServicePackage | null> {
+  const builtIns = await loadBuiltIns();
+  return builtIns.find((p) => p.id === id) ?? templates.get(id);
+}
+
+export async function toPackageSummary(
+  pkg: ServicePackage
+): Promise<PackageSummary> {
+  const catalog = await loadCatalog();
+  return {
+    id: pkg.id,
+    name: pkg.name,
+    description: pkg.description,
+    category: pkg.category,
+    appliesTo: pkg.appliesTo,
+    fixedPrice: pkg.fixedPrice,
+    builtIn: pkg.builtIn,
+    operations: pkg.lines.map(
+      (l) =>
+        l.operation ||
+        (l.operationCode && findOperation(catalog, l.operationCode)?.name) ||
+        l.operationCode ||
+        ""
+    ),
+  };
+}
+
+export function createPackage(input: PackageInput): Promise<ServicePackage> {
+  return templates.insert({
+    ...input,
+    id: randomUUID(),
+    builtIn: false,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/** Only saved templates can be deleted; built-ins come back with the app. */
+export async function deletePackage(
+  id: string
+): Promise<{ ok: true } | { error: string } | null> {
+  const builtIns = await loadBuiltIns();
+  if (builtIns.some((p) => p.id === id)) {
+    return { error: "Built-in packages can't be deleted." };
+  }
+  return (await templates.remove(id)) ? { ok: true } : null;
+}
+
+/**
+ * Spread a package's fixed price over its lines as flat labor: parts and
+ * core charges keep their own price and labor makes up the rest, split by
+ * SRT hours. priceQuote leaves these lines out of margin and the parts
+ * discount, so the quote carries the package at exactly its price.
+ */
+function applyFixedPrice(
+  lines: RepairLine[],
+  fixedPrice: number,
+  packageId: string
+) {
+  const partsAndCores = lines.reduce(
+    (sum, l) => sum + l.partsPrice + l.coreCharges,
+    0
+  );
+  const labor = roundCents(Math.max(fixedPrice - partsAndCores, 0));
+  const hours = lines.reduce((sum, l) => sum + l.srtHours, 0);
+
+  let remaining = labor;
+  return lines.map((line, i) => {
+    const share =
+      i === lines.length - 1
+        ? remaining
+        : roundCents(
+            hours ? (labor * line.srtHours) / hours : labor / lines.length
+          );
+    remaining = roundCents(remaining - share);
+    return priceLine({ ...line, fixedLabor: share, packageId });
+  });
+}
+
+/** The package as priced repair lines for one vehicle. */
+export async function packageLines(
+  pkg: ServicePackage,
+  key: VehicleKey,
+  terms: Pick<EstimateTerms, "settings" | "laborRate" | "rateClasses">
+): Promise<RepairLine[]> {
+  const catalog = await loadCatalog();
+
+  const base = pkg.lines.map((line) => {
+    const op = line.operationCode
+      ? findOperation(catalog, line.operationCode)
+      : undefined;
+    const fromCatalog = op ? buildCatalogLine(catalog, op, key) : null;
+    return {
+      operationCode: fromCatalog?.operationCode ?? line.operationCode,
+      operation: line.operation || fromCatalog?.operation || "Custom Operation",
+      rateClass: line.rateClass || fromCatalog?.rateClass || BASE_RATE_CLASS,
+      srtHours: line.srtHours ?? fromCatalog?.srtHours ?? 0,
+      parts: line.parts ?? fromCatalog?.parts ?? [],
+    };
+  });
+
+  const lines = (await shopLines(base, terms)).map((l) => priceLine(l));
+  return pkg.fixedPrice !== null && lines.length
+    ? applyFixedPrice(lines, pkg.fixedPrice, pkg.id)
+    : lines;
+}
@@ -0,0 +1,66 @@
+import type { Applicability, CatalogPart } from "@/lib/catalog/operations";
+import type { RepairLine } from "@/lib/quotes/types";
+
+/**
+ * One operation in a package. Anything left out comes from the catalog
+ * operation, resolved for the vehicle the package is inserted into.
+ */
+export type PackageLine = {
+  operationCode?: string;
+  operation?: string;
+  rateClass?: string;
+  srtHours?: number;
+  /** Costs here are list prices; the shop's price list overrides them. */
+  parts?: CatalogPart[];
+};
+
+/** Everything the save-as-template form sends. */
+export type PackageInput = {
+  name: string;
+  description: string;
+  category: string;
+  /** Vehicles the package is offered for; every vehicle when omitted. */
+  appliesTo?: Applicability;
+  /**
+   * Labor, parts and core charges for the whole package, before fees and
+   * tax; null bills SRT × rate.
+   */
+  fixedPrice: number | null;
+  lines: PackageLine[];
+};
+
+export type ServicePackage = PackageInput & {
+  id: string;
+  /** Shipped with the catalog (read-only) rather than saved by the shop. */
+  builtIn: boolean;
+  createdAt: string | null;
+};
+
+export type PackageSummary = Pick<
+  ServicePackage,
+  | "id"
+  | "name"
+  | "description"
+  | "category"
+  | "appliesTo"
+  | "fixedPrice"
+  | "builtIn"
+> & { operations: string[] };
+
+/** Body of POST /api/packages/[id]/lines. */
+export type PackageLinesRequest = {
+  vehicle?: {
+    make: string | null;
+    model: string | null;
+    engine: string | null;
+    modelYear: number | null;
+  } | null;
+  customerId?: string;
+  laborRate?: number;
+  rateClasses?: Record<string, string>;
+};
+
+export type PackageLinesResponse = {
+  package: PackageSummary;
+  repairs: RepairLine[];
+};
@@ -0,0 +1,131 @@
+import type { CatalogPart } from "@/lib/catalog/operations";
+import { parseCsvRecords } from "@/lib/csv";
+import { markupForCost } from "@/lib/settings/markup-matrix";
+import type { MarkupTier } from "@/lib/settings/types";
+import type { PartInput } from "@/lib/quotes/types";
+import type { ImportError, PartRecord, PriceListRow } from "./types";
+
+// Price list CSV format, one part per row:
+//   part_number,description,vendor,unit_cost,core_charge,qty_on_hand
+// part_number and unit_cost are required; the rest may be blank.
+
+export const PRICE_LIST_COLUMNS = [
+  "part_number",
+  "description",
+  "vendor",
+  "unit_cost",
+  "core_charge",
+  "qty_on_hand",
+];
+
+/** Part numbers match regardless of case, spaces and dashes. */
+export function normalizePartNumber(partNumber: string): string {
+  return partNumber.replace(/[\s-]/g, "").toUpperCase();
+}
+
+function money(value: string | undefined): number | null {
+  if (!value) return 0;
+  const n = Number(value.replace(/[$,]/g, ""));
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export function parsePriceList(text: string): {
+  rows: PriceListRow[];
+  errors: ImportError[];
+} {
+  const rows: PriceListRow[] = [];
+  const errors: ImportError[] = [];
+  const records = parseCsvRecords(text);
+
+  if (records.length && !("part_number" in records[0])) {
+    return {
+      rows,
+      errors: [
+        {
+          row: 1,
+          message: `Missing part_number column. Expected: ${PRICE_LIST_COLUMNS.join(
+            ","
+          )}`,
+        },
+      ],
+    };
+  }
+
+  // Columns left out of the file keep whatever the catalog already has.
+  const has = (column: string) => records.length > 0 && column in records[0];
+
+  records.forEach((r, i) => {
+    // Row 1 is the header.
+    const row = i + 2;
+    const partNumber = (r.part_number ?? "").trim();
+    const unitCost = r.unit_cost ? money(r.unit_cost) : null;
+    const coreCharge = money(r.core_charge);
+    const onHand = r.qty_on_hand ? Number(r.qty_on_hand) : null;
+
+    if (!partNumber) {
+      errors.push({ row, message: "Part number is required." });
+    } else if (unitCost === null) {
+      errors.push({
+        row,
+        message: `${partNumber}: invalid or missing unit cost.`,
+      });
+    } else if (coreCharge === null) {
+      errors.push({ row, message: `${partNumber}: invalid core charge.` });
+    } else {
+      const parsed: PriceListRow = { partNumber, unitCost };
+      if (has("description")) parsed.description = r.description.trim();
+      if (has("vendor")) parsed.vendor = r.vendor.trim();
+      if (has("core_charge")) parsed.coreCharge = coreCharge;
+      if (has("qty_on_hand")) {
+        parsed.quantityOnHand =
+          onHand !== null && Number.isFinite(onHand) ? onHand : null;
+      }
+      rows.push(parsed);
+    }
+  });
+
+  return { rows, errors };
+}
+
+/** A quote part line for a price list entry, marked up per the matrix. */
+export function partFromRecord(
+  record: Pick<
+    PartRecord,
+    "partNumber" | "description" | "vendor" | "unitCost" | "coreCharge"
+  >,
+  matrix: MarkupTier[],
+  quantity = 1
+): PartInput {
+  return {
+    partNumber: record.partNumber,
+    description: record.description,
+    vendor: record.vendor,
+    quantity,
+    unitCost: record.unitCost,
+    coreCharge: record.coreCharge,
+    markupPercent: markupForCost(matrix, record.unitCost),
+  };
+}
+
+/** A catalog part at the shop's price list cost when the list has it. */
+export function partFromCatalog(
+  part: CatalogPart,
+  priceList: Map<string, PartRecord>,
+  matrix: MarkupTier[]
+): PartInput {
+  const record = part.partNumber
+    ? priceList.get(normalizePartNumber(part.partNumber))
+    : undefined;
+
+  return partFromRecord(
+    {
+      partNumber: record?.partNumber ?? part.partNumber ?? "",
+      description: record?.description || part.description,
+      vendor: record?.vendor || part.vendor || "",
+      unitCost: record?.unitCost ?? part.unitCost,
+      coreCharge: record?.coreCharge ?? part.coreCharge ?? 0,
+    },
+    matrix,
+    part.quantity
+  );
+}
@@ -0,0 +1,83 @@
+import { createCollection, mutateFile } from "@/lib/store/json-store";
+import { normalizePartNumber, parsePriceList } from "./price-list";
+import type { ImportResult, PartRecord } from "./types";
+
+const parts = createCollection<PartRecord>("parts");
+
+/** Case-insensitive match on part number, description or vendor. */
+export async function searchParts(
+  query = "",
+  limit = 100
+): Promise<PartRecord[]> {
+  const needle = query.trim().toLowerCase();
+  const partNeedle = normalizePartNumber(query);
+  const all = await parts.list();
+
+  const matches = needle
+    ? all.filter(
+        (p) =>
+          (partNeedle && p.id.includes(partNeedle)) ||
+          [p.description, p.vendor].some((field) =>
+            field.toLowerCase().includes(needle)
+          )
+      )
+    : all;
+
+  return matches
+    .sort((a, b) => a.partNumber.localeCompare(b.partNumber))
+    .slice(0, limit);
+}
+
+export function getPart(partNumber: string): Promise<PartRecord | null> {
+  return parts.get(normalizePartNumber(partNumber));
+}
+
+/** Look up many part numbers at once, keyed by normalized part number. */
+export async function findParts(
+  partNumbers: string[]
+): Promise<Map<string, PartRecord>> {
+  const wanted = new Set(partNumbers.map(normalizePartNumber));
+  const all = await parts.list();
+  return new Map(all.filter((p) => wanted.has(p.id)).map((p) => [p.id, p]));
+}
+
+/**
+ * Upsert a price list CSV. Good rows are saved even when others fail; the
+ * failures come back with their row numbers.
+ */
+export function importPriceList(text: string): Promise<ImportResult> {
+  const { rows, errors } = parsePriceList(text);
+  const now = new Date().toISOString();
+
+  return mutateFile<PartRecord[], ImportResult>("parts", [], (items) => {
+    const byId = new Map(items.map((p) => [p.id, p]));
+    let created = 0;
+    let updated = 0;
+
+    for (const row of rows) {
+      const id = normalizePartNumber(row.partNumber);
+      const existing = byId.get(id);
+      if (existing) updated++;
+      else created++;
+      byId.set(id, {
+        description: "",
+        vendor: "",
+        coreCharge: 0,
+        quantityOnHand: null,
+        ...existing,
+        ...row,
+        id,
+        updatedAt: now,
+      });
+    }
+
+    return {
+      next: rows.length ? [...byId.values()] : items,
+      result: { created, updated, errors },
+    };
+  });
+}
+
+export function deletePart(partNumber: string): Promise<boolean> {
+  return parts.remove(normalizePartNumber(partNumber));
+}
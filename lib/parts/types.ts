@@ -0,0 +1,26 @@
+/** One row of the shop's local inventory / vendor price list. */
+export type PartRecord = {
+  /** Normalized part number (see normalizePartNumber). */
+  id: string;
+  partNumber: string;
+  description: string;
+  vendor: string;
+  unitCost: number;
+  coreCharge: number;
+  quantityOnHand: number | null;
+  updatedAt: string;
+};
+
+/** A parsed CSV row; optional fields are absent when the column was. */
+export type PriceListRow = Pick<PartRecord, "partNumber" | "unitCost"> &
+  Partial<
+    Pick<PartRecord, "description" | "vendor" | "coreCharge" | "quantityOnHand">
+  >;
+
+export type ImportError = { row: number; message: string };
+
+export type ImportResult = {
+  created: number;
+  updated: number;
+  errors: ImportError[];
+};
@@ -0,0 +1,494 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  StandardFonts,
+  rgb,
+} from "pdf-lib";
+import { createFormatter, type Formatter } from "@/lib/i18n/format";
+import type { MessageKey } from "@/lib/i18n/messages";
+import type { PartLine, SavedQuote } from "@/lib/quotes/types";
+import { BASE_RATE_CLASS, rateClassName } from "@/lib/settings/rate-classes";
+import type { LaborRateClass } from "@/lib/settings/types";
+
+// Branded estimate PDF, rendered on the server so every copy looks the same
+// regardless of the browser. US Letter, standard Helvetica fonts.
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT = rgb(0.1, 0.1, 0.1);
+const MUTED = rgb(0.45, 0.45, 0.45);
+const RULE = rgb(0.8, 0.8, 0.8);
+const BAND = rgb(0.93, 0.95, 0.99);
+
+type Column = {
+  label: MessageKey;
+  width: number;
+  align: "left" | "right";
+};
+
+const LINE_COLUMNS: Column[] = [
+  { label: "operation", width: 212, align: "left" },
+  { label: "srtHours", width: 50, align: "right" },
+  { label: "rate", width: 60, align: "right" },
+  { label: "labor", width: 60, align: "right" },
+  { label: "parts", width: 60, align: "right" },
+  { label: "lineTotal", width: 70, align: "right" },
+];
+
+export type QuotePdfOptions = {
+  logo?: { bytes: Uint8Array; contentType: string } | null;
+  /** Address / phone / email lines printed under the shop name. */
+  shopContact?: string[];
+  /** Used to label lines billed at a non-mechanical rate. */
+  rateClasses?: LaborRateClass[];
+};
+
+type Writer = {
+  doc: PDFDocument;
+  page: PDFPage;
+  y: number;
+  regular: PDFFont;
+  bold: PDFFont;
+  fmt: Formatter;
+};
+
+/**
+ * Replace characters the standard fonts can't encode. French amounts group
+ * digits with a narrow no-break space, which becomes a regular one.
+ */
+function safe(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\r/g, "").replace(/\u202f/g, "\u00a0"))
+    .map((ch) => (supported.has(ch.codePointAt(0) ?? 0) ? ch : "?"))
+    .join("");
+}
+
+function wrap(font: PDFFont, text: string, size: number, width: number) {
+  const lines: string[] = [];
+  for (const paragraph of safe(font, text).split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function ensureSpace(w: Writer, height: number) {
+  if (w.y - height >= MARGIN) return;
+  w.page = w.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  w.y = PAGE_HEIGHT - MARGIN;
+}
+
+function text(
+  w: Writer,
+  value: string,
+  x: number,
+  opts: {
+    size?: number;
+    bold?: boolean;
+    color?: typeof TEXT;
+    width?: number;
+    align?: "left" | "right";
+  } = {}
+) {
+  const font = opts.bold ? w.bold : w.regular;
+  const size = opts.size ?? 10;
+  const str = safe(font, value);
+  const offset =
+    opts.align === "right" && opts.width
+      ? opts.width - font.widthOfTextAtSize(str, size)
+      : 0;
+  w.page.drawText(str, {
+    x: x + offset,
+    y: w.y,
+    size,
+    font,
+    color: opts.color ?? TEXT,
+  });
+}
+
+function rule(w: Writer) {
+  w.page.drawLine({
+    start: { x: MARGIN, y: w.y },
+    end: { x: PAGE_WIDTH - MARGIN, y: w.y },
+    thickness: 0.5,
+    color: RULE,
+  });
+}
+
+async function embedLogo(
+  doc: PDFDocument,
+  logo: QuotePdfOptions["logo"]
+): Promise<PDFImage | null> {
+  if (!logo) return null;
+  try {
+    if (logo.contentType.includes("png")) return await doc.embedPng(logo.bytes);
+    if (logo.contentType.includes("jpeg") || logo.contentType.includes("jpg")) {
+      return await doc.embedJpg(logo.bytes);
+    }
+  } catch (e) {
+    console.error("Could not embed shop logo:", e);
+  }
+  return null;
+}
+
+function drawHeader(
+  w: Writer,
+  quote: SavedQuote,
+  logo: PDFImage | null,
+  shopContact: string[]
+) {
+  const top = w.y;
+
+  if (logo) {
+    const scaled = logo.scaleToFit(160, 48);
+    w.page.drawImage(logo, {
+      x: MARGIN,
+      y: top - scaled.height,
+      width: scaled.width,
+      height: scaled.height,
+    });
+    w.y = top - scaled.height - 22;
+  } else {
+    w.y = top - 18;
+  }
+
+  text(w, quote.shopName || "Shop Name", MARGIN, { size: 20, bold: true });
+  w.y -= 16;
+  for (const line of shopContact) {
+    text(w, line, MARGIN, { size: 9 });
+    w.y -= 12;
+  }
+  if (shopContact.length) w.y -= 4;
+  text(w, w.fmt.t("estimateSubtitle"), MARGIN, { color: MUTED });
+  const leftBottom = w.y;
+
+  // Right-hand quote block
+  const rightX = PAGE_WIDTH - MARGIN - 200;
+  w.y = top - 18;
+  text(w, `${w.fmt.t("quoteNumber")} ${quote.quoteNumber}`, rightX, {
+    size: 12,
+    bold: true,
+    width: 200,
+    align: "right",
+  });
+  w.y -= 16;
+  text(w, `${w.fmt.t("date")}: ${w.fmt.date(quote.updatedAt)}`, rightX, {
+    color: MUTED,
+    width: 200,
+    align: "right",
+  });
+  w.y -= 14;
+  text(w, `${w.fmt.t("revision")}: ${quote.revision}`, rightX, {
+    color: MUTED,
+    width: 200,
+    align: "right",
+  });
+  if (quote.expiresAt && quote.status === "sent") {
+    w.y -= 14;
+    text(
+      w,
+      `${w.fmt.t("validUntil")}: ${w.fmt.date(quote.expiresAt)}`,
+      rightX,
+      { color: MUTED, width: 200, align: "right" }
+    );
+  }
+
+  w.y = Math.min(leftBottom, w.y) - 20;
+  rule(w);
+  w.y -= 18;
+}
+
+function drawCustomer(w: Writer, quote: SavedQuote) {
+  const { t } = w.fmt;
+  const rows: [string, string][] = [
+    [t("customer"), quote.customerName || t("notAvailable")],
+    [t("unit"), quote.unitNumber || t("notAvailable")],
+    [t("vin"), quote.vin],
+    [t("vehicle"), quote.vehicle],
+  ];
+  if (quote.odometer !== null) {
+    rows.push([t("odometer"), w.fmt.miles(quote.odometer)]);
+  }
+
+  for (const [label, value] of rows) {
+    text(w, `${label}:`, MARGIN, { bold: true });
+    text(w, value, MARGIN + 90);
+    w.y -= 14;
+  }
+  w.y -= 10;
+}
+
+function partLabel(fmt: Formatter, part: PartLine): string {
+  const name = [part.partNumber, part.description].filter(Boolean).join("  ");
+  const core =
+    part.coreCharge > 0
+      ? `  ${fmt.t("corePerUnit", { amount: fmt.money(part.coreCharge) })}`
+      : "";
+  return `${name}   ${fmt.t("partLine", {
+    quantity: part.quantity,
+    price: fmt.money(part.unitPrice),
+    total: fmt.money(part.extendedPrice),
+  })}${core}`;
+}
+
+function drawLineItems(
+  w: Writer,
+  quote: SavedQuote,
+  rateClasses: LaborRateClass[]
+) {
+  const drawHeaderRow = () => {
+    w.page.drawRectangle({
+      x: MARGIN,
+      y: w.y - 5,
+      width: CONTENT_WIDTH,
+      height: 18,
+      color: BAND,
+    });
+    let x = MARGIN + 4;
+    for (const col of LINE_COLUMNS) {
+      text(w, w.fmt.t(col.label), x, {
+        size: 9,
+        bold: true,
+        width: col.width - 8,
+        align: col.align,
+      });
+      x += col.width;
+    }
+    w.y -= 20;
+  };
+
+  const { fmt } = w;
+  ensureSpace(w, 60);
+  drawHeaderRow();
+
+  for (const line of quote.repairs) {
+    const label =
+      line.rateClass && line.rateClass !== BASE_RATE_CLASS
+        ? `${line.operation} (${rateClassName(rateClasses, line.rateClass)})`
+        : line.operation;
+    const nameLines = wrap(w.regular, label, 9, LINE_COLUMNS[0].width - 8);
+    // Priced as usual but left out of the totals; the note says why.
+    const partLines = [
+      ...(line.warranty
+        ? [`${fmt.t("warrantyNoCharge")} (${line.warranty.name})`]
+        : []),
+      ...line.parts.map((part) => partLabel(fmt, part)),
+    ];
+    const rowHeight = nameLines.length * 11 + partLines.length * 10 + 6;
+
+    if (w.y - rowHeight < MARGIN) {
+      ensureSpace(w, PAGE_HEIGHT);
+      drawHeaderRow();
+    }
+
+    const cells = [
+      "",
+      fmt.hours(line.srtHours, 1),
+      line.fixedLabor !== undefined ? fmt.t("flat") : fmt.money(line.laborRate),
+      fmt.money(line.laborCost),
+      fmt.money(line.partsPrice + line.coreCharges),
+      fmt.money(line.totalCost),
+    ];
+
+    const rowTop = w.y;
+    nameLines.forEach((nameLine, i) => {
+      w.y = rowTop - i * 11;
+      text(w, nameLine, MARGIN + 4, { size: 9 });
+    });
+
+    partLines.forEach((partLine, i) => {
+      w.y = rowTop - nameLines.length * 11 - i * 10;
+      text(w, partLine, MARGIN + 14, { size: 7.5, color: MUTED });
+    });
+
+    w.y = rowTop;
+    let x = MARGIN + 4;
+    LINE_COLUMNS.forEach((col, i) => {
+      if (i > 0) {
+        text(w, cells[i], x, {
+          size: 9,
+          width: col.width - 8,
+          align: col.align,
+        });
+      }
+      x += col.width;
+    });
+
+    w.y = rowTop - rowHeight + 6;
+    rule(w);
+    w.y -= 12;
+  }
+
+  if (!quote.repairs.length) {
+    text(w, fmt.t("noLines"), MARGIN + 4, { size: 9, color: MUTED });
+    w.y -= 16;
+  }
+
+  w.y -= 6;
+}
+
+function drawTotals(w: Writer, quote: SavedQuote) {
+  const t = quote.totals;
+  const { money, percent, t: label } = w.fmt;
+  const rows: [string, string, boolean][] = [
+    [label("baseLabor"), money(t.laborCost), false],
+    [label("baseParts"), money(t.partsCost), false],
+    [label("partsWithMarkup"), money(t.partsWithMarkup), false],
+    ...(t.partsDiscount > 0
+      ? [
+          [
+            label("partsDiscount", {
+              percent: percent(quote.partsDiscountPercent),
+            }),
+            money(-t.partsDiscount),
+            false,
+          ] as [string, string, boolean],
+        ]
+      : []),
+    ...(t.coreCharges > 0
+      ? [
+          [label("coreCharges"), money(t.coreCharges), false] as [
+            string,
+            string,
+            boolean
+          ],
+        ]
+      : []),
+    [label("subtotal"), money(t.baseGrandTotal), true],
+    [
+      label("margin", { percent: percent(quote.marginPercent || 0) }),
+      money(t.finalGrandTotal - t.baseGrandTotal),
+      false,
+    ],
+    [label("beforeFees"), money(t.finalGrandTotal), true],
+  ];
+
+  if (t.shopSupplies > 0) {
+    rows.push([label("shopSupplies"), money(t.shopSupplies), false]);
+  }
+  for (const fee of t.fees) {
+    rows.push([fee.name, money(fee.amount), false]);
+  }
+  if (quote.taxExempt) {
+    rows.push([label("salesTax"), label("exempt"), false]);
+  } else {
+    if (t.partsTax > 0) {
+      rows.push([label("partsTax"), money(t.partsTax), false]);
+    }
+    if (t.laborTax > 0) {
+      rows.push([label("laborTax"), money(t.laborTax), false]);
+    }
+    if (t.feesTax > 0) {
+      rows.push([label("feesTax"), money(t.feesTax), false]);
+    }
+  }
+
+  const boxWidth = 260;
+  const x = PAGE_WIDTH - MARGIN - boxWidth;
+  ensureSpace(w, rows.length * 14 + 40);
+
+  for (const [label, value, bold] of rows) {
+    text(w, label, x, { bold });
+    text(w, value, x, { bold, width: boxWidth, align: "right" });
+    w.y -= 14;
+  }
+
+  w.y -= 4;
+  w.page.drawLine({
+    start: { x, y: w.y + 10 },
+    end: { x: x + boxWidth, y: w.y + 10 },
+    thickness: 0.5,
+    color: RULE,
+  });
+  text(w, label("quoteTotal"), x, { size: 12, bold: true });
+  text(w, money(t.quoteTotal), x, {
+    size: 12,
+    bold: true,
+    width: boxWidth,
+    align: "right",
+  });
+  w.y -= 30;
+}
+
+function drawTerms(w: Writer, quote: SavedQuote) {
+  if (!quote.terms.trim()) return;
+
+  const lines = wrap(w.regular, quote.terms, 8, CONTENT_WIDTH);
+  ensureSpace(w, 24 + Math.min(lines.length, 4) * 10);
+
+  rule(w);
+  w.y -= 14;
+  text(w, w.fmt.t("terms"), MARGIN, { size: 9, bold: true });
+  w.y -= 12;
+
+  for (const line of lines) {
+    ensureSpace(w, 10);
+    text(w, line, MARGIN, { size: 8, color: MUTED });
+    w.y -= 10;
+  }
+}
+
+function drawFooters(doc: PDFDocument, regular: PDFFont, fmt: Formatter) {
+  const pages = doc.getPages();
+  pages.forEach((page, i) => {
+    const label = `${fmt.t("poweredBy")}   ·   ${fmt.t("page", {
+      page: i + 1,
+      pages: pages.length,
+    })}`;
+    const str = safe(regular, label);
+    page.drawText(str, {
+      x: PAGE_WIDTH / 2 - regular.widthOfTextAtSize(str, 7) / 2,
+      y: MARGIN / 2,
+      size: 7,
+      font: regular,
+      color: MUTED,
+    });
+  });
+}
+
+export async function renderQuotePdf(
+  quote: SavedQuote,
+  options: QuotePdfOptions = {}
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Estimate ${quote.quoteNumber}`);
+  doc.setAuthor(quote.shopName || "VINQuoter");
+  doc.setCreator("VINQuoter");
+
+  const w: Writer = {
+    doc,
+    page: doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    y: PAGE_HEIGHT - MARGIN,
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    fmt: createFormatter({
+      currency: quote.currency ?? undefined,
+      locale: quote.locale ?? undefined,
+    }),
+  };
+
+  const logo = await embedLogo(doc, options.logo);
+
+  drawHeader(w, quote, logo, options.shopContact ?? []);
+  drawCustomer(w, quote);
+  drawLineItems(w, quote, options.rateClasses ?? []);
+  drawTotals(w, quote);
+  drawTerms(w, quote);
+  drawFooters(doc, w.regular, w.fmt);
+
+  return doc.save();
+}
@@ -0,0 +1,27 @@
+import type { SavedQuote } from "@/lib/quotes/types";
+import { readLogo } from "@/lib/settings/logo";
+import { getSettings } from "@/lib/settings/settings";
+import { renderQuotePdf } from "./quote-pdf";
+
+/** The quote PDF with the shop's current logo, contact lines and rates. */
+export async function renderShopQuotePdf(
+  quote: SavedQuote
+): Promise<Uint8Array> {
+  const settings = await getSettings();
+  const logo = await readLogo();
+  const shopContact = [
+    ...settings.address.split("\n"),
+    settings.phone,
+    settings.email,
+  ].filter((line) => line.trim());
+
+  return renderQuotePdf(quote, {
+    logo,
+    shopContact,
+    rateClasses: settings.laborRateClasses,
+  });
+}
+
+export function quotePdfFilename(quote: SavedQuote): string {
+  return `${quote.quoteNumber.replace(/[^\w.-]+/g, "_")}.pdf`;
+}
@@ -0,0 +1,96 @@
+import type { FeeSettings } from "@/lib/settings/types";
+import { roundCents } from "./money";
+
+// Shop supplies, flat fees and sales tax, applied on top of the billed labor
+// and parts amounts. Pure so the editor and the API compute the same numbers.
+
+export type AppliedFee = {
+  code: string;
+  name: string;
+  amount: number;
+};
+
+export type FeeBreakdown = {
+  shopSupplies: number;
+  fees: AppliedFee[];
+  /** Shop supplies plus flat fees. */
+  feesTotal: number;
+  partsTax: number;
+  laborTax: number;
+  feesTax: number;
+  taxTotal: number;
+};
+
+export type FeeOptions = {
+  taxExempt: boolean;
+  /** Flat fee codes on this quote; defaults to the auto-applied fees. */
+  feeCodes?: string[];
+};
+
+export function defaultFeeCodes(settings: FeeSettings): string[] {
+  return settings.flatFees.filter((f) => f.autoApply).map((f) => f.code);
+}
+
+export function computeFees(
+  billed: { labor: number; parts: number },
+  settings: FeeSettings,
+  options: FeeOptions
+): FeeBreakdown {
+  const { shopSupplies: supplies, taxRates } = settings;
+
+  let shopSupplies = (billed.labor * supplies.percentOfLabor) / 100;
+  if (supplies.cap !== null && supplies.cap >= 0) {
+    shopSupplies = Math.min(shopSupplies, supplies.cap);
+  }
+  shopSupplies = roundCents(Math.max(shopSupplies, 0));
+
+  const feeCodes = options.feeCodes ?? defaultFeeCodes(settings);
+  const flatFees = settings.flatFees.filter((f) => feeCodes.includes(f.code));
+  const fees = flatFees.map((f) => ({
+    code: f.code,
+    name: f.name,
+    amount: roundCents(f.amount),
+  }));
+
+  const feesTotal = roundCents(
+    shopSupplies + fees.reduce((sum, f) => sum + f.amount, 0)
+  );
+
+  if (options.taxExempt) {
+    return {
+      shopSupplies,
+      fees,
+      feesTotal,
+      partsTax: 0,
+      laborTax: 0,
+      feesTax: 0,
+      taxTotal: 0,
+    };
+  }
+
+  // Taxable fees are taxed like parts (they're materials/disposal charges).
+  const taxableFees =
+    (supplies.taxable ? shopSupplies : 0) +
+    flatFees.reduce((sum, f) => sum + (f.taxable ? f.amount : 0), 0);
+
+  const partsTax = roundCents((billed.parts * taxRates.parts) / 100);
+  const laborTax = roundCents((billed.labor * taxRates.labor) / 100);
+  const feesTax = roundCents((taxableFees * taxRates.parts) / 100);
+
+  return {
+    shopSupplies,
+    fees,
+    feesTotal,
+    partsTax,
+    laborTax,
+    feesTax,
+    taxTotal: roundCents(partsTax + laborTax + feesTax),
+  };
+}
+
+/** Fee settings that charge nothing (e.g. before shop settings load). */
+export const NO_FEES: FeeSettings = {
+  shopSupplies: { percentOfLabor: 0, cap: null, taxable: false },
+  flatFees: [],
+  taxRates: { parts: 0, labor: 0 },
+};
@@ -0,0 +1,18 @@
+/** Round to whole cents, avoiding 1.005 -> 1.00 style float errors. */
+export function roundCents(n: number): number {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Round each share to cents and put what's left over on the last one, so
+ * the shares add up to `total`.
+ */
+export function spreadCents(raw: number[], total: number): number[] {
+  const amounts = raw.map(roundCents);
+  if (amounts.length) {
+    const sum = amounts.reduce((a, b) => a + b, 0);
+    const last = amounts.length - 1;
+    amounts[last] = roundCents(amounts[last] + total - sum);
+  }
+  return amounts;
+}
@@ -0,0 +1,209 @@
+import type {
+  PartInput,
+  PartLine,
+  QuoteTotals,
+  RepairLine,
+} from "@/lib/quotes/types";
+import type { FeeSettings } from "@/lib/settings/types";
+import { computeFees } from "./fees";
+import { roundCents, spreadCents } from "./money";
+
+// The one place quote math lives. The editor, /api/quote and the quote store
+// all price through here, so a quote re-priced on the server matches what
+// the customer saw.
+
+export type PricingOptions = {
+  /** Customer discount off marked-up parts. */
+  partsDiscountPercent?: number;
+  marginPercent: number;
+  fees: FeeSettings;
+  taxExempt: boolean;
+  /** Flat fee codes; defaults to the shop's auto-applied fees. */
+  feeCodes?: string[];
+};
+
+type LineInput = Pick<
+  RepairLine,
+  "srtHours" | "laborRate" | "fixedLabor" | "warranty"
+> & {
+  parts: PartInput[];
+};
+
+type LinePricing = Pick<
+  RepairLine,
+  | "laborCost"
+  | "parts"
+  | "partsCost"
+  | "partsPrice"
+  | "coreCharges"
+  | "totalCost"
+>;
+
+export type PricedLine<T extends LineInput> = Omit<T, keyof LinePricing> &
+  LinePricing;
+
+/** What one repair line is charged: labor, and parts with their cores. */
+export type LineCharge = { labor: number; parts: number };
+
+export function pricePart(part: PartInput): PartLine {
+  const unitCost = roundCents(part.unitCost);
+  const unitPrice = roundCents(
+    unitCost * (1 + (part.markupPercent || 0) / 100)
+  );
+  return {
+    ...part,
+    unitCost,
+    coreCharge: roundCents(part.coreCharge),
+    unitPrice,
+    extendedPrice: roundCents(part.quantity * unitPrice),
+  };
+}
+
+export function priceLine<T extends LineInput>(line: T): PricedLine<T> {
+  const parts = line.parts.map(pricePart);
+  const sum = (fn: (p: PartLine) => number) =>
+    roundCents(parts.reduce((total, p) => total + fn(p), 0));
+
+  const laborCost = roundCents(
+    line.fixedLabor ?? line.srtHours * line.laborRate
+  );
+  const partsPrice = sum((p) => p.extendedPrice);
+  const coreCharges = sum((p) => p.quantity * p.coreCharge);
+  return {
+    ...line,
+    laborCost,
+    parts,
+    partsCost: sum((p) => p.quantity * p.unitCost),
+    partsPrice,
+    coreCharges,
+    totalCost: roundCents(laborCost + partsPrice + coreCharges),
+  };
+}
+
+/**
+ * Fixed-price package lines already sum to the advertised price, so margin
+ * and the parts discount only apply to the rest of the quote.
+ */
+export function isFixedPrice(line: Pick<RepairLine, "fixedLabor">): boolean {
+  return line.fixedLabor !== undefined;
+}
+
+/** Labor as charged: margin on hourly labor, fixed-price labor as is. */
+export function billedLaborOf(
+  lines: Pick<RepairLine, "laborCost" | "fixedLabor" | "warranty">[],
+  marginPercent: number
+): number {
+  const marginFactor = 1 + (marginPercent || 0) / 100;
+  return roundCents(
+    lines
+      .filter((l) => !l.warranty)
+      .reduce(
+        (total, l) =>
+          total + (isFixedPrice(l) ? l.laborCost : l.laborCost * marginFactor),
+        0
+      )
+  );
+}
+
+/**
+ * Each line's share of `finalGrandTotal`, split the way priceQuote splits
+ * it: margin on labor and parts, the parts discount on parts, fixed-price
+ * lines and core charges as they are. Warranty lines are charged nothing.
+ */
+export function lineChargesOf(
+  lines: Pick<
+    RepairLine,
+    "laborCost" | "partsPrice" | "coreCharges" | "fixedLabor" | "warranty"
+  >[],
+  totals: Pick<QuoteTotals, "finalGrandTotal">,
+  options: Pick<PricingOptions, "marginPercent" | "partsDiscountPercent">
+): LineCharge[] {
+  const margin = 1 + (options.marginPercent || 0) / 100;
+  const discount = 1 - (options.partsDiscountPercent || 0) / 100;
+  const billed = lines.filter((l) => !l.warranty);
+  const billedLabor = billedLaborOf(billed, options.marginPercent);
+
+  const labor = spreadCents(
+    billed.map((l) => (isFixedPrice(l) ? l.laborCost : l.laborCost * margin)),
+    billedLabor
+  );
+  const parts = spreadCents(
+    billed.map(
+      (l) =>
+        (isFixedPrice(l) ? l.partsPrice : l.partsPrice * discount * margin) +
+        l.coreCharges
+    ),
+    roundCents(totals.finalGrandTotal - billedLabor)
+  );
+
+  let next = 0;
+  return lines.map((l) => {
+    if (l.warranty) return { labor: 0, parts: 0 };
+    const charge = { labor: labor[next], parts: parts[next] };
+    next += 1;
+    return charge;
+  });
+}
+
+export function priceQuote<T extends LineInput>(
+  lines: T[],
+  options: PricingOptions
+): { lines: PricedLine<T>[]; totals: QuoteTotals } {
+  const priced = lines.map(priceLine);
+  // Warranty and campaign lines keep their prices but aren't charged.
+  const billed = priced.filter((l) => !l.warranty);
+  const sum = (fn: (l: PricedLine<T>) => number) =>
+    roundCents(billed.reduce((total, l) => total + fn(l), 0));
+
+  const laborCost = sum((l) => l.laborCost);
+  const partsCost = sum((l) => l.partsCost);
+  const partsWithMarkup = sum((l) => l.partsPrice);
+  const coreCharges = sum((l) => l.coreCharges);
+
+  const fixedPrice = sum((l) =>
+    isFixedPrice(l) ? l.laborCost + l.partsPrice : 0
+  );
+
+  const partsDiscount = roundCents(
+    sum((l) => (isFixedPrice(l) ? 0 : l.partsPrice)) *
+      ((options.partsDiscountPercent || 0) / 100)
+  );
+  const beforeCores = roundCents(laborCost + partsWithMarkup - partsDiscount);
+  const baseGrandTotal = roundCents(beforeCores + coreCharges);
+
+  // Margin never applies to core deposits; they come back at cost.
+  const marginFactor = 1 + (options.marginPercent || 0) / 100;
+  const finalGrandTotal = roundCents(
+    roundCents((beforeCores - fixedPrice) * marginFactor) +
+      fixedPrice +
+      coreCharges
+  );
+
+  // Fees and tax apply to billed amounts, so margin is spread over labor and
+  // parts. Parts take the remainder so the two always add up exactly.
+  const billedLabor = billedLaborOf(billed, options.marginPercent);
+  const billedParts = roundCents(finalGrandTotal - billedLabor);
+
+  const charges = computeFees(
+    { labor: billedLabor, parts: billedParts },
+    options.fees,
+    { taxExempt: options.taxExempt, feeCodes: options.feeCodes }
+  );
+
+  return {
+    lines: priced,
+    totals: {
+      laborCost,
+      partsCost,
+      partsWithMarkup,
+      partsDiscount,
+      coreCharges,
+      baseGrandTotal,
+      finalGrandTotal,
+      ...charges,
+      quoteTotal: roundCents(
+        finalGrandTotal + charges.feesTotal + charges.taxTotal
+      ),
+    },
+  };
+}
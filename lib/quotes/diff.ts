@@ -0,0 +1,69 @@
+import { roundCents } from "@/lib/pricing/money";
+import type {
+  LineDiff,
+  LineFieldChange,
+  QuoteDiff,
+  QuoteRevision,
+  RepairLine,
+} from "./types";
+
+// Lines are matched across revisions by catalog code, or by name for lines
+// typed in by hand. A second line with the same key pairs with the second
+// occurrence, and so on.
+
+const COMPARED_FIELDS: LineFieldChange["field"][] = [
+  "srtHours",
+  "laborRate",
+  "partsCost",
+  "totalCost",
+];
+
+function keyed(lines: RepairLine[]): Map<string, RepairLine> {
+  const seen = new Map<string, number>();
+  const result = new Map<string, RepairLine>();
+  for (const line of lines) {
+    const base = line.operationCode || line.operation.trim().toLowerCase();
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    result.set(`${base}#${n}`, line);
+  }
+  return result;
+}
+
+export function diffRevisions(
+  from: QuoteRevision,
+  to: QuoteRevision
+): QuoteDiff {
+  const before = keyed(from.quote.repairs);
+  const after = keyed(to.quote.repairs);
+  const lines: LineDiff[] = [];
+
+  for (const [key, line] of after) {
+    const old = before.get(key);
+    if (!old) {
+      lines.push({ kind: "added", line });
+      continue;
+    }
+    const changes = COMPARED_FIELDS.filter(
+      (field) => roundCents(old[field]) !== roundCents(line[field])
+    ).map((field) => ({ field, from: old[field], to: line[field] }));
+    if (changes.length) lines.push({ kind: "changed", line, changes });
+  }
+
+  for (const [key, line] of before) {
+    if (!after.has(key)) lines.push({ kind: "removed", line });
+  }
+
+  const fromTotal = from.quote.totals.quoteTotal;
+  const toTotal = to.quote.totals.quoteTotal;
+  return {
+    from: from.revision,
+    to: to.revision,
+    lines,
+    quoteTotal: {
+      from: fromTotal,
+      to: toTotal,
+      change: roundCents(toTotal - fromTotal),
+    },
+  };
+}
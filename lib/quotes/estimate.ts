@@ -0,0 +1,345 @@
+import {
+  buildCatalogLine,
+  findOperation,
+  loadCatalog,
+  type Catalog,
+  type CatalogLine,
+  type CatalogOperation,
+  selectOperations,
+  type VehicleKey,
+  vehicleKeyFor,
+} from "@/lib/catalog/operations";
+import { getCustomer } from "@/lib/customers/repository";
+import type { Customer } from "@/lib/customers/types";
+import { parseDtc } from "@/lib/diagnostics/dtc";
+import { loadDtcRules, matchDtcRules } from "@/lib/diagnostics/rules";
+import type {
+  DiagnosticReadings,
+  Dtc,
+  OperationSuggestion,
+} from "@/lib/diagnostics/types";
+import { partFromCatalog } from "@/lib/parts/price-list";
+import { findParts } from "@/lib/parts/repository";
+import { roundCents } from "@/lib/pricing/money";
+import { priceLine, priceQuote } from "@/lib/pricing/pricing";
+import { rateForClass } from "@/lib/settings/rate-classes";
+import { getSettings } from "@/lib/settings/settings";
+import type { ShopSettings } from "@/lib/settings/types";
+import { decodeVin } from "@/lib/vin/decode";
+import { resolveVehicle } from "@/lib/vin/vehicle";
+import { lookupWarranty } from "@/lib/warranty/provider";
+import { toApiError, unknownCodeErrors } from "./schema";
+import type {
+  FleetEstimate,
+  FleetRow,
+  FleetRowError,
+  FleetUnitEstimate,
+  PartInput,
+  QuoteApiError,
+  QuoteFieldError,
+  QuoteResponse,
+} from "./types";
+
+/** Pricing terms for a request once customer and shop defaults are applied. */
+export type EstimateTerms = {
+  settings: ShopSettings;
+  customer: Customer | null;
+  laborRate: number;
+  rateClasses: Record<string, string>;
+  partsDiscountPercent: number;
+  marginPercent: number;
+  taxExempt: boolean;
+  feeCodes: string[] | undefined;
+};
+
+export type VehicleEstimate = { quote: QuoteResponse } | QuoteApiError;
+
+/** Fault codes and readings from the request; fleet lists have none. */
+export type EstimateDiagnostics = DiagnosticReadings & { dtcs: string[] };
+
+const NO_DIAGNOSTICS: EstimateDiagnostics = {
+  dtcs: [],
+  odometer: null,
+  engineHours: null,
+};
+
+function numberOr(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== null && value !== "" && isFinite(n)
+    ? n
+    : fallback;
+}
+
+export async function resolveTerms(
+  body: Record<string, unknown> | null
+): Promise<EstimateTerms> {
+  const settings = await getSettings();
+  // A registered customer's negotiated terms stand in for anything omitted.
+  const customer = body?.customerId
+    ? await getCustomer(String(body.customerId))
+    : null;
+
+  return {
+    settings,
+    customer,
+    laborRate: numberOr(
+      body?.laborRate,
+      customer?.laborRate ?? settings.defaultLaborRate
+    ),
+    rateClasses:
+      body?.rateClasses && typeof body.rateClasses === "object"
+        ? (body.rateClasses as Record<string, string>)
+        : {},
+    partsDiscountPercent: numberOr(
+      body?.partsDiscountPercent,
+      customer?.partsDiscountPercent ?? 0
+    ),
+    marginPercent: numberOr(body?.marginPercent, settings.defaultMarginPercent),
+    taxExempt:
+      typeof body?.taxExempt === "boolean"
+        ? body.taxExempt
+        : customer?.taxExempt ?? false,
+    feeCodes: Array.isArray(body?.feeCodes)
+      ? body.feeCodes.map((c: unknown) => String(c))
+      : undefined,
+  };
+}
+
+function readingOf(value: unknown): number | null {
+  const n = numberOr(value, NaN);
+  return Number.isNaN(n) ? null : n;
+}
+
+export function resolveDiagnostics(
+  body: Record<string, unknown> | null
+): EstimateDiagnostics {
+  return {
+    dtcs: Array.isArray(body?.dtcs) ? body.dtcs.map(String) : [],
+    odometer: readingOf(body?.odometer),
+    engineHours: readingOf(body?.engineHours),
+  };
+}
+
+/** Requested fee codes the shop hasn't set up. */
+export function feeCodeErrors(terms: EstimateTerms): QuoteFieldError[] {
+  const known = new Set(terms.settings.fees.flatFees.map((f) => f.code));
+  return unknownCodeErrors(
+    terms.feeCodes ?? [],
+    (code) => known.has(code),
+    "fee",
+    (i) => `feeCodes.${i}`
+  );
+}
+
+type BaseLine = Omit<CatalogLine, "operationCode"> & { operationCode?: string };
+
+/**
+ * Catalog-style lines at this shop's labor rates, with parts at price list
+ * cost and marked up per the matrix.
+ */
+export async function shopLines<T extends BaseLine>(
+  base: T[],
+  terms: Pick<EstimateTerms, "settings" | "laborRate" | "rateClasses">
+): Promise<(T & { laborRate: number; parts: PartInput[] })[]> {
+  const { settings } = terms;
+  const priceList = await findParts(
+    base.flatMap((r) => r.parts.map((p) => p.partNumber ?? ""))
+  );
+
+  return base.map((r) => {
+    const rateClass =
+      (r.operationCode && terms.rateClasses[r.operationCode]) || r.rateClass;
+    return {
+      ...r,
+      rateClass,
+      laborRate: rateForClass(
+        settings.laborRateClasses,
+        rateClass,
+        terms.laborRate
+      ),
+      parts: r.parts.map((p) =>
+        partFromCatalog(p, priceList, settings.partsMarkupMatrix)
+      ),
+    };
+  });
+}
+
+/**
+ * Priced catalog lines for what the fault codes point to, leaving out
+ * operations already on the quote.
+ */
+async function suggestOperations(
+  catalog: Catalog,
+  key: VehicleKey,
+  dtcs: Dtc[],
+  readings: DiagnosticReadings,
+  quoted: CatalogOperation[],
+  terms: EstimateTerms
+): Promise<OperationSuggestion[]> {
+  const matches = matchDtcRules(await loadDtcRules(), dtcs, key, readings)
+    .map((match) => ({
+      match,
+      op: findOperation(catalog, match.operationCode),
+    }))
+    .filter(
+      (s): s is typeof s & { op: CatalogOperation } =>
+        !!s.op && !quoted.includes(s.op)
+    );
+  const lines = await shopLines(
+    matches.map((s) => buildCatalogLine(catalog, s.op, key)),
+    terms
+  );
+
+  return matches.map(({ match }, i) => ({
+    operationCode: match.operationCode,
+    operation: lines[i].operation,
+    confidence: match.confidence,
+    dtcs: match.dtcs,
+    notes: match.notes,
+    line: priceLine(lines[i]),
+  }));
+}
+
+/** Decode one VIN and price the catalog operations for it. */
+export async function estimateVehicle(
+  vin: string,
+  operationCodes: string[] | undefined,
+  terms: EstimateTerms,
+  diagnostics: EstimateDiagnostics = NO_DIAGNOSTICS
+): Promise<VehicleEstimate> {
+  const { settings } = terms;
+
+  const decodeResult = decodeVin(vin);
+  if (!decodeResult.valid) {
+    return toApiError(decodeResult.errors.map((e) => ({ field: "vin", ...e })));
+  }
+
+  // 🧠 Decode locally, then enrich online when it's reachable.
+  const [vehicle, warranty] = await Promise.all([
+    resolveVehicle(decodeResult.decoded),
+    lookupWarranty(decodeResult.decoded.vin),
+  ]);
+
+  // 🔧 Pick catalog operations for this vehicle (or the ones asked for).
+  // Writers working from fault codes start from an empty quote instead.
+  const catalog = await loadCatalog();
+  const vehicleKey = vehicleKeyFor(catalog, vehicle);
+  const dtcs = diagnostics.dtcs.flatMap((code) => parseDtc(code) ?? []);
+  const { operations, unknownCodes } =
+    dtcs.length && !operationCodes?.length
+      ? { operations: [], unknownCodes: [] }
+      : selectOperations(catalog, vehicleKey, operationCodes);
+
+  if (unknownCodes.length) {
+    return toApiError(
+      unknownCodeErrors(
+        operationCodes ?? [],
+        (code) => !unknownCodes.includes(code),
+        "operation",
+        (i) => `operationCodes.${i}`
+      )
+    );
+  }
+
+  const baseRepairs = operations.map((op) =>
+    buildCatalogLine(catalog, op, vehicleKey)
+  );
+
+  // 🔩 Parts at the shop's price list cost, marked up per the matrix.
+  const lines = await shopLines(baseRepairs, terms);
+
+  // 🩺 Operations the fault codes point to, for the writer to accept.
+  const suggestions = dtcs.length
+    ? await suggestOperations(
+        catalog,
+        vehicleKey,
+        dtcs,
+        diagnostics,
+        operations,
+        terms
+      )
+    : [];
+
+  // 🧾 Discount, margin, shop supplies, flat fees and sales tax.
+  const { lines: repairs, totals } = priceQuote(lines, {
+    partsDiscountPercent: terms.partsDiscountPercent,
+    marginPercent: terms.marginPercent,
+    fees: settings.fees,
+    taxExempt: terms.taxExempt,
+    feeCodes: terms.feeCodes,
+  });
+
+  return {
+    quote: {
+      vin: vehicle.vin,
+      vehicle: vehicle.description,
+      vehicleDetails: vehicle,
+      decodeSource: vehicle.decodeSource,
+      decodeStatus: vehicle.decodeStatus,
+      engineFamily: vehicleKey.engineFamily,
+      warranty,
+      dtcs: dtcs.map((d) => d.code),
+      suggestions,
+      repairs,
+      totals,
+    },
+  };
+}
+
+// Online VIN lookups dominate a batch; a few at a time keeps a 200-unit
+// list quick without hammering the provider.
+const FLEET_CONCURRENCY = 4;
+
+/**
+ * Price every row of a fleet list as its own quote. Rows that fail come
+ * back as errors; the fleet totals cover the units that priced.
+ */
+export async function estimateFleet(
+  rows: FleetRow[],
+  terms: EstimateTerms
+): Promise<FleetEstimate> {
+  const units: FleetUnitEstimate[] = [];
+  const errors: FleetRowError[] = [];
+  const registered = new Map(
+    (terms.customer?.units ?? []).map((u) => [u.vin, u.unitNumber])
+  );
+
+  let next = 0;
+  async function worker() {
+    while (next < rows.length) {
+      const row = rows[next++];
+      const result = await estimateVehicle(row.vin, row.operationCodes, terms);
+      if ("error" in result) {
+        errors.push({ row: row.row, vin: row.vin, message: result.error });
+      } else {
+        units.push({
+          row: row.row,
+          unitNumber: row.unitNumber || registered.get(result.quote.vin) || "",
+          quote: result.quote,
+        });
+      }
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(FLEET_CONCURRENCY, rows.length) }, worker)
+  );
+
+  units.sort((a, b) => a.row - b.row);
+  errors.sort((a, b) => a.row - b.row);
+
+  const sum = (pick: (u: FleetUnitEstimate) => number) =>
+    roundCents(units.reduce((acc, u) => acc + pick(u), 0));
+
+  return {
+    units,
+    errors,
+    totals: {
+      units: units.length,
+      srtHours: sum((u) => u.quote.repairs.reduce((h, r) => h + r.srtHours, 0)),
+      subtotal: sum((u) => u.quote.totals.finalGrandTotal),
+      feesTotal: sum((u) => u.quote.totals.feesTotal),
+      taxTotal: sum((u) => u.quote.totals.taxTotal),
+      quoteTotal: sum((u) => u.quote.totals.quoteTotal),
+    },
+  };
+}
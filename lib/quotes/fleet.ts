@@ -0,0 +1,149 @@
+import { parseCsv, toCsv } from "@/lib/csv";
+import { normalizeVin } from "@/lib/vin/decode";
+import type { FleetEstimate, FleetRow, FleetRowError } from "./types";
+
+// Fleet VIN lists come in two shapes:
+//   - a CSV with a header row: vin,unit_number,operations
+//   - a plain paste, one unit per line: VIN[,unit number[,operations]]
+// Both are read a line at a time with the CSV rules, so quoted cells work
+// either way; tabs work too, for cells copied straight out of a spreadsheet.
+// Operations are catalog codes separated by ";" or spaces.
+
+export const MAX_FLEET_ROWS = 250;
+
+const UNIT_COLUMNS = ["unit_number", "unit number", "unit #", "unit"];
+const OPERATION_COLUMNS = ["operations", "operation_codes", "operation codes"];
+
+function operationCodes(raw: string | undefined): string[] | undefined {
+  const codes = (raw ?? "")
+    .split(/[;|\s]+/)
+    .map((c) => c.trim().toUpperCase())
+    .filter(Boolean);
+  return codes.length ? codes : undefined;
+}
+
+/** A line's cells, unquoted; tabs split cells like commas. */
+function cellsOf(line: string): string[] {
+  return (parseCsv(line.replace(/\t/g, ","))[0] ?? []).map((c) => c.trim());
+}
+
+function pick(header: string[], cells: string[], columns: string[]): string {
+  const key = columns.find((c) => header.includes(c));
+  return key ? cells[header.indexOf(key)] ?? "" : "";
+}
+
+function toEntry(header: string[] | null, cells: string[]) {
+  if (!header) {
+    const [vin, unitNumber, ops] = cells;
+    return {
+      vin: vin ?? "",
+      unitNumber: unitNumber ?? "",
+      operationCodes: operationCodes(ops),
+    };
+  }
+  return {
+    vin: pick(header, cells, ["vin"]),
+    unitNumber: pick(header, cells, UNIT_COLUMNS),
+    operationCodes: operationCodes(pick(header, cells, OPERATION_COLUMNS)),
+  };
+}
+
+/**
+ * Split a pasted list or CSV into rows. Blank VINs and repeats are reported
+ * here; everything else about a VIN is checked when it's decoded.
+ */
+export function parseFleetList(text: string): {
+  rows: FleetRow[];
+  errors: FleetRowError[];
+} {
+  const rows: FleetRow[] = [];
+  const errors: FleetRowError[] = [];
+  const lines = text.split(/\r?\n/);
+  const first = lines.findIndex((line) => line.trim());
+  const firstCells =
+    first < 0 ? [] : cellsOf(lines[first]).map((c) => c.toLowerCase());
+  const header = firstCells.includes("vin") ? firstCells : null;
+  const seen = new Map<string, number>();
+
+  // Rows are line numbers in the text as given, header and blanks included.
+  lines.forEach((line, i) => {
+    if (header && i === first) return;
+    const cells = cellsOf(line);
+    if (!cells.length) return;
+    const row = i + 1;
+    const entry = toEntry(header, cells);
+    const vin = normalizeVin(entry.vin);
+
+    if (!vin) {
+      errors.push({ row, vin: "", message: "VIN is required." });
+    } else if (seen.has(vin)) {
+      errors.push({
+        row,
+        vin,
+        message: `Duplicate VIN (also on row ${seen.get(vin)}).`,
+      });
+    } else {
+      seen.set(vin, row);
+      rows.push({ ...entry, row, vin });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/** One line per unit (and per failed row), then the fleet total. */
+export function fleetEstimateCsv(estimate: FleetEstimate): string {
+  const unitLines = estimate.units.map((u) => ({
+    row: u.row,
+    cells: [
+      u.row,
+      u.unitNumber,
+      u.quote.vin,
+      u.quote.vehicle,
+      u.quote.repairs.map((r) => r.operationCode ?? r.operation).join("; "),
+      u.quote.repairs.reduce((h, r) => h + r.srtHours, 0).toFixed(2),
+      u.quote.totals.finalGrandTotal.toFixed(2),
+      u.quote.totals.feesTotal.toFixed(2),
+      u.quote.totals.taxTotal.toFixed(2),
+      u.quote.totals.quoteTotal.toFixed(2),
+      "",
+    ],
+  }));
+  const errorLines = estimate.errors.map((e) => ({
+    row: e.row,
+    cells: [e.row, "", e.vin, "", "", "", "", "", "", "", e.message],
+  }));
+  const t = estimate.totals;
+
+  return toCsv([
+    [
+      "row",
+      "unit_number",
+      "vin",
+      "vehicle",
+      "operations",
+      "srt_hours",
+      "subtotal",
+      "fees",
+      "tax",
+      "total",
+      "error",
+    ],
+    ...[...unitLines, ...errorLines]
+      .sort((a, b) => a.row - b.row)
+      .map((line) => line.cells),
+    [
+      "",
+      `Fleet total (${t.units} units)`,
+      "",
+      "",
+      "",
+      t.srtHours.toFixed(2),
+      t.subtotal.toFixed(2),
+      t.feesTotal.toFixed(2),
+      t.taxTotal.toFixed(2),
+      t.quoteTotal.toFixed(2),
+      "",
+    ],
+  ]);
+}
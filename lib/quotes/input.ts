@@ -0,0 +1,131 @@
+import { parseDtc } from "@/lib/diagnostics/dtc";
+import { isCurrency, isLocale } from "@/lib/i18n/locales";
+import { priceLine } from "@/lib/pricing/pricing";
+import { BASE_RATE_CLASS } from "@/lib/settings/rate-classes";
+import type { Vehicle } from "@/lib/vin/vehicle";
+import type { CoverageType, LineCoverage } from "@/lib/warranty/types";
+import type { PartInput, QuoteInput, RepairLine } from "./types";
+
+// Coerce a JSON request body into a QuoteInput. Missing or malformed fields
+// fall back to empty values instead of failing the save. Line costs are
+// recomputed rather than trusted.
+
+function str(value: unknown): string {
+  return typeof value === "string" ? value : value == null ? "" : String(value);
+}
+
+function num(value: unknown): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function reading(value: unknown): number | null {
+  return value == null || value === "" ? null : Math.round(num(value));
+}
+
+function parsePart(raw: Record<string, unknown>): PartInput {
+  return {
+    partNumber: str(raw.partNumber).trim(),
+    description: str(raw.description),
+    vendor: str(raw.vendor),
+    quantity: num(raw.quantity),
+    unitCost: num(raw.unitCost),
+    coreCharge: num(raw.coreCharge),
+    markupPercent: num(raw.markupPercent),
+  };
+}
+
+/**
+ * Lines saved before parts were itemized carry one lump partsCost, marked
+ * up by the quote-wide percentage of the time; they become a single part.
+ */
+function legacyParts(
+  raw: Record<string, unknown>,
+  markupPercent: number
+): PartInput[] {
+  const partsCost = num(raw.partsCost);
+  if (!partsCost) return [];
+  return [
+    {
+      partNumber: "",
+      description: "Parts",
+      vendor: "",
+      quantity: 1,
+      unitCost: partsCost,
+      coreCharge: 0,
+      markupPercent,
+    },
+  ];
+}
+
+const COVERAGE_TYPES: CoverageType[] = ["warranty", "recall", "campaign"];
+
+function parseCoverage(raw: unknown): LineCoverage | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const { type, reference, name } = raw as Record<string, unknown>;
+  if (!COVERAGE_TYPES.includes(type as CoverageType)) return undefined;
+  return {
+    type: type as CoverageType,
+    reference: str(reference),
+    name: str(name),
+  };
+}
+
+function parseLine(
+  raw: Record<string, unknown>,
+  legacyMarkupPercent: number
+): RepairLine {
+  return priceLine({
+    operationCode: raw.operationCode ? str(raw.operationCode) : undefined,
+    operation: str(raw.operation),
+    rateClass: str(raw.rateClass) || BASE_RATE_CLASS,
+    srtHours: num(raw.srtHours),
+    laborRate: num(raw.laborRate),
+    fixedLabor: raw.fixedLabor == null ? undefined : num(raw.fixedLabor),
+    packageId: raw.packageId ? str(raw.packageId) : undefined,
+    parts: Array.isArray(raw.parts)
+      ? raw.parts
+          .filter(
+            (p): p is Record<string, unknown> => !!p && typeof p === "object"
+          )
+          .map(parsePart)
+      : legacyParts(raw, legacyMarkupPercent),
+    warranty: parseCoverage(raw.warranty),
+  });
+}
+
+export function parseQuoteInput(body: Record<string, unknown>): QuoteInput {
+  const repairs = Array.isArray(body.repairs) ? body.repairs : [];
+
+  return {
+    quoteNumber: str(body.quoteNumber).trim(),
+    shopName: str(body.shopName),
+    vin: str(body.vin).trim().toUpperCase(),
+    vehicle: str(body.vehicle),
+    vehicleDetails:
+      body.vehicleDetails && typeof body.vehicleDetails === "object"
+        ? (body.vehicleDetails as Vehicle)
+        : null,
+    customerId: body.customerId ? str(body.customerId) : null,
+    unitId: body.unitId ? str(body.unitId) : null,
+    customerName: str(body.customerName),
+    unitNumber: str(body.unitNumber),
+    odometer: reading(body.odometer),
+    engineHours: reading(body.engineHours),
+    dtcs: Array.isArray(body.dtcs)
+      ? body.dtcs.flatMap((code) => parseDtc(str(code))?.code ?? [])
+      : [],
+    notes: str(body.notes),
+    laborRate: num(body.laborRate),
+    partsDiscountPercent: num(body.partsDiscountPercent),
+    marginPercent: num(body.marginPercent),
+    terms: str(body.terms),
+    taxExempt: body.taxExempt === true,
+    feeCodes: Array.isArray(body.feeCodes) ? body.feeCodes.map(str) : [],
+    currency: isCurrency(body.currency) ? body.currency : null,
+    locale: isLocale(body.locale) ? body.locale : null,
+    repairs: repairs
+      .filter((r): r is Record<string, unknown> => !!r && typeof r === "object")
+      .map((line) => parseLine(line, num(body.partsMarkupPercent))),
+  };
+}
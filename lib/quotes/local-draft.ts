@@ -0,0 +1,136 @@
+import type { QuoteInput } from "./types";
+
+// Browser-side safety net for the quote editor. The form is autosaved to
+// localStorage so a reload or a tablet losing signal doesn't lose work,
+// and saves made while offline wait here until the server is reachable.
+// Both are kept per quote; a quote that was never saved has a local key.
+// A queued save the server turns down is set aside under its own key until
+// someone reviews it.
+
+const DRAFT_PREFIX = "vinquoter:draft:";
+const PENDING_PREFIX = "vinquoter:pending-save:";
+const REJECTED_PREFIX = "vinquoter:rejected-save:";
+
+/** The editor's form as it stood, saved or not. */
+export type EditorDraft = {
+  savedQuoteId: string | null;
+  /** updatedAt of the server copy the edits started from. */
+  baseUpdatedAt: string | null;
+  /** The VIN box, which can differ from the quoted vehicle's VIN. */
+  vinField: string;
+  /** False until a vehicle has been decoded (input.vehicle is empty). */
+  hasVehicle: boolean;
+  /** Key of a queued save for a quote that has no id yet. */
+  pendingKey: string | null;
+  input: QuoteInput;
+  savedAt: string;
+};
+
+/** A save that couldn't reach the server, replayed when back online. */
+export type PendingSave = {
+  /** The quote's id, or a local key for a quote that was never saved. */
+  key: string;
+  savedQuoteId: string | null;
+  expectedUpdatedAt: string | null;
+  input: QuoteInput;
+  queuedAt: string;
+};
+
+/** A queued save the server turned down, with the reason. */
+export type RejectedSave = PendingSave & { error: string };
+
+function draftKey(savedQuoteId: string | null): string {
+  return savedQuoteId ?? "new";
+}
+
+function read<T>(key: string): T | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Storage can be full or disabled (private browsing); autosave is best effort.
+function write(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error("Could not save a local draft:", e);
+  }
+}
+
+function remove(key: string) {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Nothing stored, nothing to clear.
+  }
+}
+
+export function loadDraft(savedQuoteId: string | null): EditorDraft | null {
+  return read<EditorDraft>(DRAFT_PREFIX + draftKey(savedQuoteId));
+}
+
+export function saveDraft(draft: EditorDraft) {
+  write(DRAFT_PREFIX + draftKey(draft.savedQuoteId), draft);
+}
+
+export function clearDraft(savedQuoteId: string | null) {
+  remove(DRAFT_PREFIX + draftKey(savedQuoteId));
+}
+
+/** A newer save for the same quote replaces the queued one. */
+export function queueSave(save: PendingSave) {
+  write(PENDING_PREFIX + save.key, save);
+}
+
+export function clearPendingSave(key: string) {
+  remove(PENDING_PREFIX + key);
+}
+
+function savesUnder<T extends PendingSave>(prefix: string): T[] {
+  const saves: T[] = [];
+  try {
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (!key?.startsWith(prefix)) continue;
+      const save = read<T>(key);
+      if (save) saves.push(save);
+    }
+  } catch {
+    return [];
+  }
+  return saves.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+/** Every queued save, oldest first. */
+export function pendingSaves(): PendingSave[] {
+  return savesUnder<PendingSave>(PENDING_PREFIX);
+}
+
+/**
+ * Never written over a local draft: another new quote shares the "new"
+ * draft, and a saved quote may have edits of its own in progress.
+ */
+export function keepRejectedSave(save: PendingSave, error: string) {
+  write(REJECTED_PREFIX + save.key, { ...save, error });
+}
+
+export function clearRejectedSave(key: string) {
+  remove(REJECTED_PREFIX + key);
+}
+
+/** Every turned-down save waiting for review, oldest first. */
+export function rejectedSaves(): RejectedSave[] {
+  return savesUnder<RejectedSave>(REJECTED_PREFIX);
+}
+
+/** A fetch that never reached the server (as opposed to an error reply). */
+export function isNetworkError(err: unknown): boolean {
+  return (
+    err instanceof TypeError ||
+    (typeof navigator !== "undefined" && !navigator.onLine)
+  );
+}
@@ -0,0 +1,256 @@
+import { can } from "@/lib/auth/roles";
+import type { ManagerApproval, PublicUser, UserRef } from "@/lib/auth/types";
+import { userRef, verifyCredentials } from "@/lib/auth/users";
+import { loadCatalog, vehicleKeyFor } from "@/lib/catalog/operations";
+import { getCustomer } from "@/lib/customers/repository";
+import { getPackage, packageLines } from "@/lib/packages/repository";
+import { defaultFeeCodes } from "@/lib/pricing/fees";
+import { markupForCost } from "@/lib/settings/markup-matrix";
+import { rateForClass } from "@/lib/settings/rate-classes";
+import { getSettings } from "@/lib/settings/settings";
+import { resolveTerms } from "./estimate";
+import { toApiError } from "./schema";
+import type {
+  QuoteApiError,
+  QuoteFieldError,
+  QuoteInput,
+  RepairLine,
+} from "./types";
+
+// Pricing a service writer can't change alone: margin below the shop
+// minimum, labor rates off the customer's or shop's standard, a parts
+// discount over the customer's, a tax exemption the customer doesn't have,
+// auto-applied fees taken off, flat labor that isn't the package's own
+// split, no-charge warranty lines, and parts markup below the matrix.
+// Only values that differ from the last save count, so re-saving a
+// manager-approved quote doesn't ask again.
+
+export type PricingApproval = { approvedBy: UserRef | null } | QuoteApiError;
+
+function needsApproval(field: string, message: string): QuoteFieldError {
+  return { field, code: "NEEDS_APPROVAL", message };
+}
+
+/** A fixed-price package's lines as it would insert them into this quote. */
+async function packageSplit(
+  input: QuoteInput,
+  packageId: string
+): Promise<RepairLine[]> {
+  const pkg = await getPackage(packageId);
+  if (!pkg || pkg.fixedPrice === null) return [];
+
+  const vehicle = input.vehicleDetails;
+  const key = vehicleKeyFor(await loadCatalog(), {
+    make: vehicle?.make ?? null,
+    model: vehicle?.model ?? null,
+    engine: vehicle?.engine ?? null,
+    modelYear: vehicle?.modelYear ?? null,
+  });
+  const terms = await resolveTerms({
+    customerId: input.customerId,
+    laborRate: input.laborRate,
+  });
+  return packageLines(pkg, key, terms);
+}
+
+export async function pricingOverrides(
+  input: QuoteInput,
+  previous: QuoteInput | null
+): Promise<QuoteFieldError[]> {
+  const settings = await getSettings();
+  const customer = input.customerId
+    ? await getCustomer(input.customerId)
+    : null;
+  const standardRate = customer?.laborRate ?? settings.defaultLaborRate;
+  const errors: QuoteFieldError[] = [];
+
+  if (
+    input.marginPercent < settings.minimumMarginPercent &&
+    input.marginPercent !== previous?.marginPercent
+  ) {
+    errors.push(
+      needsApproval(
+        "marginPercent",
+        `Margin below ${settings.minimumMarginPercent}% needs a manager's approval.`
+      )
+    );
+  }
+
+  if (
+    input.laborRate !== standardRate &&
+    input.laborRate !== previous?.laborRate
+  ) {
+    errors.push(
+      needsApproval(
+        "laborRate",
+        `Changing the labor rate from $${standardRate.toFixed(
+          2
+        )} needs a manager's approval.`
+      )
+    );
+  }
+
+  const standardDiscount = customer?.partsDiscountPercent ?? 0;
+  if (
+    input.partsDiscountPercent > standardDiscount &&
+    input.partsDiscountPercent !== previous?.partsDiscountPercent
+  ) {
+    errors.push(
+      needsApproval(
+        "partsDiscountPercent",
+        `A parts discount over ${standardDiscount}% needs a manager's approval.`
+      )
+    );
+  }
+
+  if (input.taxExempt && !customer?.taxExempt && !previous?.taxExempt) {
+    errors.push(
+      needsApproval(
+        "taxExempt",
+        customer
+          ? `${customer.name} isn't tax exempt on file; exempting this quote needs a manager's approval.`
+          : "Making the quote tax exempt needs a manager's approval."
+      )
+    );
+  }
+
+  // A fee already off at the last save was signed off then.
+  const dropped = settings.fees.flatFees.filter(
+    (fee) =>
+      defaultFeeCodes(settings.fees).includes(fee.code) &&
+      !input.feeCodes.includes(fee.code) &&
+      (!previous || previous.feeCodes.includes(fee.code))
+  );
+  if (dropped.length) {
+    errors.push(
+      needsApproval(
+        "feeCodes",
+        `Taking off ${dropped
+          .map((fee) => fee.name)
+          .join(", ")} needs a manager's approval.`
+      )
+    );
+  }
+
+  const splits = new Map<string, Promise<RepairLine[]>>();
+  const splitFor = (packageId: string) => {
+    if (!splits.has(packageId)) {
+      splits.set(packageId, packageSplit(input, packageId));
+    }
+    return splits.get(packageId) as Promise<RepairLine[]>;
+  };
+
+  for (const [i, line] of input.repairs.entries()) {
+    const before = previous?.repairs.filter(
+      (p) => p.operation === line.operation
+    );
+
+    if (
+      line.fixedLabor !== undefined &&
+      !before?.some((p) => p.fixedLabor === line.fixedLabor) &&
+      !(
+        line.packageId &&
+        (await splitFor(line.packageId)).some(
+          (p) =>
+            p.operation === line.operation && p.fixedLabor === line.fixedLabor
+        )
+      )
+    ) {
+      errors.push(
+        needsApproval(
+          `repairs.${i}.fixedLabor`,
+          `A flat labor price on "${line.operation}" needs a manager's approval.`
+        )
+      );
+    }
+
+    const standard = rateForClass(
+      settings.laborRateClasses,
+      line.rateClass,
+      input.laborRate
+    );
+    if (
+      line.fixedLabor === undefined &&
+      line.laborRate !== standard &&
+      !before?.some((p) => p.laborRate === line.laborRate)
+    ) {
+      errors.push(
+        needsApproval(
+          `repairs.${i}.laborRate`,
+          `Changing the rate on "${line.operation}" needs a manager's approval.`
+        )
+      );
+    }
+
+    // Coverage is checked on save (warranty.ts); waiving the charge still
+    // takes a manager.
+    if (
+      line.warranty &&
+      !before?.some((p) => p.warranty?.reference === line.warranty?.reference)
+    ) {
+      errors.push(
+        needsApproval(
+          `repairs.${i}.warranty`,
+          `Marking "${line.operation}" no charge needs a manager's approval.`
+        )
+      );
+    }
+
+    line.parts.forEach((part, j) => {
+      if (
+        part.markupPercent <
+          markupForCost(settings.partsMarkupMatrix, part.unitCost) &&
+        !before?.some((p) =>
+          p.parts.some(
+            (q) =>
+              q.partNumber === part.partNumber &&
+              q.markupPercent === part.markupPercent
+          )
+        )
+      ) {
+        errors.push(
+          needsApproval(
+            `repairs.${i}.parts.${j}.markupPercent`,
+            `Markup on ${
+              part.partNumber || part.description || "a part"
+            } is below the matrix and needs a manager's approval.`
+          )
+        );
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Let a save through if the user may override pricing, nothing needs it,
+ * or a manager signed off with their own credentials.
+ */
+export async function checkPricingApproval(
+  user: PublicUser,
+  input: QuoteInput,
+  previous: QuoteInput | null,
+  approval: unknown
+): Promise<PricingApproval> {
+  if (can(user.role, "pricing:override")) return { approvedBy: null };
+
+  const overrides = await pricingOverrides(input, previous);
+  if (!overrides.length) return { approvedBy: null };
+
+  const { username, password } = (approval ?? {}) as Partial<ManagerApproval>;
+  if (typeof username === "string" && typeof password === "string") {
+    const manager = await verifyCredentials(username, password);
+    if (manager && can(manager.role, "pricing:override")) {
+      return { approvedBy: userRef(manager) };
+    }
+    return toApiError([
+      needsApproval(
+        "managerApproval",
+        "That isn't a manager's username and password."
+      ),
+      ...overrides,
+    ]);
+  }
+  return toApiError(overrides);
+}
@@ -0,0 +1,537 @@
+import { randomBytes, randomUUID } from "crypto";
+import type { UserRef } from "@/lib/auth/types";
+import { DEFAULT_FORMAT } from "@/lib/i18n/locales";
+import type { Delivery } from "@/lib/messaging/types";
+import { roundCents } from "@/lib/pricing/money";
+import { lineChargesOf, priceQuote } from "@/lib/pricing/pricing";
+import { formatQuoteNumber } from "@/lib/settings/numbering";
+import { getSettings } from "@/lib/settings/settings";
+import type { FeeSettings } from "@/lib/settings/types";
+import {
+  createCollection,
+  mutateFile,
+  nextSequence,
+} from "@/lib/store/json-store";
+import { parseQuoteInput } from "./input";
+import { deleteRevisions, listRevisions, recordRevision } from "./revisions";
+import { STATUS_LABELS, canTransition, expiryFrom, isExpired } from "./status";
+import type {
+  AuditEntry,
+  LineDecision,
+  PublicQuote,
+  QuoteInput,
+  QuoteRevision,
+  QuoteSnapshot,
+  QuoteStatus,
+  QuoteSummary,
+  SavedQuote,
+} from "./types";
+
+const quotes = createCollection<SavedQuote>("quotes");
+
+/** A lifecycle change either goes through or explains why not. */
+export type QuoteChange = { quote: SavedQuote } | { error: string };
+
+export async function assignQuoteNumber(): Promise<string> {
+  const { quoteNumbering } = await getSettings();
+  const n = await nextSequence("quote", quoteNumbering.startAt);
+  return formatQuoteNumber(quoteNumbering, n);
+}
+
+/**
+ * Re-price the lines with the shop's current fee settings, which come back
+ * alongside to be kept with the quote. A quote without its own currency or
+ * locale takes the shop's, fixed from then on.
+ */
+async function priced(input: QuoteInput): Promise<{
+  snapshot: QuoteInput & Pick<SavedQuote, "totals">;
+  fees: FeeSettings;
+}> {
+  const { fees, currency, locale } = await getSettings();
+  const { lines, totals } = priceQuote(input.repairs, {
+    partsDiscountPercent: input.partsDiscountPercent,
+    marginPercent: input.marginPercent,
+    fees,
+    taxExempt: input.taxExempt,
+    feeCodes: input.feeCodes,
+  });
+  return {
+    snapshot: {
+      ...input,
+      currency: input.currency ?? currency,
+      locale: input.locale ?? locale,
+      repairs: lines,
+      totals,
+    },
+    fees,
+  };
+}
+
+function audit(
+  status: QuoteStatus,
+  message: string,
+  actor: AuditEntry["actor"] = "shop",
+  at = new Date(),
+  by?: UserRef | null
+): AuditEntry {
+  const entry: AuditEntry = { at: at.toISOString(), actor, status, message };
+  return by ? { ...entry, by: by.name } : entry;
+}
+
+/**
+ * Bring quotes saved by older versions up to the current shape: lump parts
+ * costs become itemized parts, and quotes without a status read as drafts.
+ */
+function upgrade(q: SavedQuote): SavedQuote {
+  const lumpParts = q.repairs.some((r) => !Array.isArray(r.parts));
+  return {
+    ...q,
+    repairs: lumpParts
+      ? parseQuoteInput(q as unknown as Record<string, unknown>).repairs
+      : q.repairs,
+    vehicleDetails:
+      q.vehicleDetails && !q.vehicleDetails.decodeStatus
+        ? {
+            ...q.vehicleDetails,
+            decodeSource: q.vehicleDetails.enriched ? "nhtsa" : "offline",
+            decodeStatus: q.vehicleDetails.enriched ? "decoded" : "partial",
+          }
+        : q.vehicleDetails,
+    odometer: q.odometer ?? null,
+    engineHours: q.engineHours ?? null,
+    dtcs: q.dtcs ?? [],
+    revision: q.revision ?? 1,
+    status: q.status ?? "draft",
+    sentAt: q.sentAt ?? null,
+    expiresAt: q.expiresAt ?? null,
+    approvalToken: q.approvalToken ?? null,
+    approval: q.approval ?? null,
+    history: q.history ?? [],
+    deliveries: q.deliveries ?? [],
+    currency: q.currency ?? DEFAULT_FORMAT.currency,
+    locale: q.locale ?? DEFAULT_FORMAT.locale,
+    feeSettings: q.feeSettings ?? null,
+    createdBy: q.createdBy ?? null,
+    updatedBy: q.updatedBy ?? null,
+  };
+}
+
+/** Persist the expiry of sent quotes whose time ran out. */
+function expireStaleQuotes(now = new Date()): Promise<void> {
+  return mutateFile<SavedQuote[], void>("quotes", [], (items) => {
+    if (!items.some((q) => isExpired(q, now))) {
+      return { next: items, result: undefined };
+    }
+    const next = items.map((q) =>
+      isExpired(q, now)
+        ? {
+            ...q,
+            status: "expired" as const,
+            history: [
+              ...(q.history ?? []),
+              audit(
+                "expired",
+                "Expired without a customer response.",
+                "shop",
+                new Date(q.expiresAt as string)
+              ),
+            ],
+          }
+        : q
+    );
+    return { next, result: undefined };
+  });
+}
+
+export function toSummary(q: SavedQuote): QuoteSummary {
+  return {
+    id: q.id,
+    quoteNumber: q.quoteNumber,
+    vin: q.vin,
+    vehicle: q.vehicle,
+    customerName: q.customerName,
+    unitNumber: q.unitNumber,
+    revision: q.revision,
+    status: q.status,
+    expiresAt: q.expiresAt,
+    createdBy: q.createdBy,
+    updatedBy: q.updatedBy,
+    createdAt: q.createdAt,
+    updatedAt: q.updatedAt,
+    currency: q.currency,
+    locale: q.locale,
+    quoteTotal: q.totals.quoteTotal,
+  };
+}
+
+export function toPublicQuote(q: SavedQuote): PublicQuote {
+  const charges = lineChargesOf(q.repairs, q.totals, q);
+  return {
+    quoteNumber: q.quoteNumber,
+    shopName: q.shopName,
+    customerName: q.customerName,
+    unitNumber: q.unitNumber,
+    odometer: q.odometer,
+    vin: q.vin,
+    vehicle: q.vehicle,
+    partsDiscountPercent: q.partsDiscountPercent,
+    taxExempt: q.taxExempt,
+    terms: q.terms,
+    currency: q.currency,
+    locale: q.locale,
+    repairs: q.repairs.map((r, i) => ({
+      operation: r.operation,
+      srtHours: r.srtHours,
+      laborCharge: charges[i].labor,
+      partsCharge: charges[i].parts,
+      lineCharge: roundCents(charges[i].labor + charges[i].parts),
+      parts: r.parts.map((p) => ({
+        description: p.description,
+        quantity: p.quantity,
+        unitPrice: p.unitPrice,
+        extendedPrice: p.extendedPrice,
+      })),
+      warranty: r.warranty,
+    })),
+    totals: {
+      shopSupplies: q.totals.shopSupplies,
+      fees: q.totals.fees,
+      feesTotal: q.totals.feesTotal,
+      partsTax: q.totals.partsTax,
+      laborTax: q.totals.laborTax,
+      feesTax: q.totals.feesTax,
+      taxTotal: q.totals.taxTotal,
+      partsDiscount: q.totals.partsDiscount,
+      finalGrandTotal: q.totals.finalGrandTotal,
+      quoteTotal: q.totals.quoteTotal,
+    },
+    revision: q.revision,
+    status: q.status,
+    expiresAt: q.expiresAt,
+    approval: q.approval,
+  };
+}
+
+/** Case-insensitive match on VIN, customer, unit number or quote number. */
+export async function searchQuotes(query = ""): Promise<SavedQuote[]> {
+  await expireStaleQuotes();
+  const needle = query.trim().toLowerCase();
+  const all = (await quotes.list()).map(upgrade);
+
+  const matches = needle
+    ? all.filter((q) =>
+        [q.vin, q.customerName, q.unitNumber, q.quoteNumber].some((field) =>
+          field.toLowerCase().includes(needle)
+        )
+      )
+    : all;
+
+  return matches.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getQuote(id: string): Promise<SavedQuote | null> {
+  await expireStaleQuotes();
+  const quote = await quotes.get(id);
+  return quote && upgrade(quote);
+}
+
+export async function getQuoteByToken(
+  token: string
+): Promise<SavedQuote | null> {
+  if (!token) return null;
+  await expireStaleQuotes();
+  const quote = (await quotes.list()).find((q) => q.approvalToken === token);
+  return quote ? upgrade(quote) : null;
+}
+
+export async function createQuote(
+  input: QuoteInput,
+  by: UserRef | null = null
+): Promise<SavedQuote> {
+  const now = new Date();
+  const { snapshot: pricedInput, fees } = await priced(input);
+  const snapshot: QuoteSnapshot = {
+    ...pricedInput,
+    quoteNumber: input.quoteNumber || (await assignQuoteNumber()),
+  };
+  const quote = await quotes.insert({
+    ...snapshot,
+    id: randomUUID(),
+    feeSettings: fees,
+    revision: 1,
+    status: "draft",
+    sentAt: null,
+    expiresAt: null,
+    approvalToken: null,
+    approval: null,
+    history: [audit("draft", "Quote created.", "shop", now, by)],
+    deliveries: [],
+    createdBy: by,
+    updatedBy: by,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  });
+  await recordRevision(quote.id, 1, snapshot);
+  return quote;
+}
+
+function snapshotOf(q: SavedQuote): QuoteSnapshot {
+  return {
+    ...parseQuoteInput(q as unknown as Record<string, unknown>),
+    totals: q.totals,
+  };
+}
+
+/** Quotes saved before revisions existed get their current state as v1. */
+async function revisionsOf(quote: SavedQuote): Promise<QuoteRevision[]> {
+  const existing = await listRevisions(quote.id);
+  if (existing.length) return existing;
+  return [await recordRevision(quote.id, quote.revision, snapshotOf(quote))];
+}
+
+export async function getQuoteRevisions(
+  id: string
+): Promise<QuoteRevision[] | null> {
+  const quote = await getQuote(id);
+  return quote && revisionsOf(quote);
+}
+
+/**
+ * Save edits. Changing a quote the customer has already seen sends it back
+ * to draft, so an old approval link can't sign off on new numbers. A save
+ * that changes what's quoted becomes the next revision. `approvedBy` is the
+ * manager who signed off on pricing overrides, noted in the history.
+ */
+export async function updateQuote(
+  id: string,
+  input: QuoteInput,
+  by: UserRef | null = null,
+  approvedBy: UserRef | null = null
+): Promise<SavedQuote | null> {
+  const existing = await getQuote(id);
+  if (!existing) return null;
+
+  const revisions = await revisionsOf(existing);
+  const { snapshot: pricedInput, fees } = await priced(input);
+  const snapshot: QuoteSnapshot = {
+    ...pricedInput,
+    quoteNumber: input.quoteNumber || existing.quoteNumber,
+  };
+  const changed =
+    JSON.stringify(snapshot) !==
+    JSON.stringify(revisions[revisions.length - 1].quote);
+
+  const updated = await quotes.update(id, (stored) => {
+    const current = upgrade(stored);
+    // A save with nothing changed keeps the status, link and signature.
+    const reopened = changed && current.status !== "draft";
+    const status = changed ? "draft" : current.status;
+    const revision = changed ? current.revision + 1 : current.revision;
+    const now = new Date();
+    return {
+      ...current,
+      ...snapshot,
+      id,
+      revision,
+      status,
+      // Unchanged totals mean the quote still stands as it was priced.
+      feeSettings: changed ? fees : current.feeSettings ?? fees,
+      approvalToken: changed ? null : current.approvalToken,
+      approval: changed ? null : current.approval,
+      history: [
+        ...current.history,
+        audit(
+          status,
+          (reopened
+            ? `Edited while ${STATUS_LABELS[
+                current.status
+              ].toLowerCase()}; returned to draft.`
+            : changed
+            ? "Quote edited."
+            : "Saved with no changes.") +
+            (changed ? ` Saved as revision ${revision}.` : "") +
+            (approvedBy ? ` Pricing approved by ${approvedBy.name}.` : ""),
+          "shop",
+          now,
+          by
+        ),
+      ],
+      updatedBy: by,
+      updatedAt: now.toISOString(),
+    };
+  });
+
+  if (updated && changed) {
+    await recordRevision(id, updated.revision, snapshot);
+  }
+  return updated;
+}
+
+function transitionMessage(to: QuoteStatus, expiresAt: string | null): string {
+  switch (to) {
+    case "sent":
+      return `Sent to customer; valid until ${expiresAt?.slice(0, 10)}.`;
+    case "draft":
+      return "Returned to draft.";
+    case "approved":
+      return "Marked approved by the shop.";
+    case "declined":
+      return "Marked declined by the shop.";
+    case "converted":
+      return "Converted to a work order.";
+    default:
+      return `Marked ${STATUS_LABELS[to].toLowerCase()}.`;
+  }
+}
+
+/** Shop-side status change. Sending issues a fresh approval link. */
+export async function setQuoteStatus(
+  id: string,
+  to: QuoteStatus,
+  by: UserRef | null = null
+): Promise<QuoteChange | null> {
+  await expireStaleQuotes();
+  const { quoteValidityDays } = await getSettings();
+  let error: string | null = null;
+
+  const quote = await quotes.update(id, (stored) => {
+    const current = upgrade(stored);
+    if (!canTransition(current.status, to)) {
+      error = `${
+        STATUS_LABELS[current.status]
+      } quotes can't be marked ${STATUS_LABELS[to].toLowerCase()}.`;
+      return current;
+    }
+
+    const now = new Date();
+    const next: SavedQuote = {
+      ...current,
+      status: to,
+      updatedAt: now.toISOString(),
+    };
+    if (to === "sent") {
+      next.sentAt = now.toISOString();
+      next.expiresAt = expiryFrom(now, quoteValidityDays);
+      next.approvalToken = randomBytes(24).toString("base64url");
+      next.approval = null;
+    } else if (to === "draft") {
+      next.approvalToken = null;
+      next.approval = null;
+    }
+
+    next.history = [
+      ...current.history,
+      audit(to, transitionMessage(to, next.expiresAt), "shop", now, by),
+    ];
+    return next;
+  });
+
+  if (!quote) return null;
+  return error ? { error } : { quote };
+}
+
+/** Log an email or text sent from the quote, delivered or not. */
+export function recordDelivery(
+  id: string,
+  delivery: Delivery
+): Promise<SavedQuote | null> {
+  const email = delivery.channel === "email";
+  const message =
+    delivery.status === "sent"
+      ? `${email ? "Emailed" : "Texted"} to ${delivery.to}.`
+      : `${email ? "Email" : "Text message"} to ${delivery.to} failed: ${
+          delivery.error
+        }`;
+
+  return quotes.update(id, (stored) => {
+    const current = upgrade(stored);
+    return {
+      ...current,
+      deliveries: [...current.deliveries, delivery],
+      history: [
+        ...current.history,
+        audit(
+          current.status,
+          message,
+          "shop",
+          new Date(delivery.at),
+          delivery.by
+        ),
+      ],
+    };
+  });
+}
+
+/**
+ * The customer's per-line answer from the approval link. Declining every
+ * line declines the quote; anything else counts as approved.
+ */
+export async function recordCustomerDecision(
+  token: string,
+  signature: string,
+  decisions: LineDecision[]
+): Promise<QuoteChange | null> {
+  const existing = await getQuoteByToken(token);
+  if (!existing) return null;
+  const settings = await getSettings();
+  let error: string | null = null;
+
+  const quote = await quotes.update(existing.id, (stored) => {
+    const current = upgrade(stored);
+    if (current.approvalToken !== token || current.status !== "sent") {
+      error =
+        current.status === "expired"
+          ? "This quote has expired. Please contact the shop for an updated quote."
+          : "This quote is no longer waiting for approval.";
+      return current;
+    }
+    if (decisions.length !== current.repairs.length) {
+      error = "Please approve or decline every line item.";
+      return current;
+    }
+
+    const approvedLines = current.repairs.filter(
+      (_, i) => decisions[i] === "approved"
+    );
+    const status: QuoteStatus = approvedLines.length ? "approved" : "declined";
+    const now = new Date();
+    // Priced with the fees the customer was quoted, not today's.
+    const { totals } = priceQuote(approvedLines, {
+      partsDiscountPercent: current.partsDiscountPercent,
+      marginPercent: current.marginPercent,
+      fees: current.feeSettings ?? settings.fees,
+      taxExempt: current.taxExempt,
+      feeCodes: current.feeCodes,
+    });
+
+    return {
+      ...current,
+      status,
+      approval: {
+        signature,
+        signedAt: now.toISOString(),
+        decisions,
+        approvedTotal: approvedLines.length ? totals.quoteTotal : 0,
+      },
+      history: [
+        ...current.history,
+        audit(
+          status,
+          `${approvedLines.length} of ${decisions.length} line(s) approved; signed by ${signature}.`,
+          "customer",
+          now
+        ),
+      ],
+      updatedAt: now.toISOString(),
+    };
+  });
+
+  if (!quote) return null;
+  return error ? { error } : { quote };
+}
+
+export async function deleteQuote(id: string): Promise<boolean> {
+  const deleted = await quotes.remove(id);
+  if (deleted) await deleteRevisions(id);
+  return deleted;
+}
@@ -0,0 +1,57 @@
+import { createCollection, mutateFile } from "@/lib/store/json-store";
+import type { QuoteRevision, QuoteSnapshot } from "./types";
+
+// Revisions are written once and never updated, so what a customer was
+// quoted at v1 survives every later edit.
+
+const revisions = createCollection<QuoteRevision>("quote-revisions");
+
+export async function listRevisions(quoteId: string): Promise<QuoteRevision[]> {
+  const all = await revisions.list();
+  return all
+    .filter((r) => r.quoteId === quoteId)
+    .sort((a, b) => a.revision - b.revision);
+}
+
+export function getRevision(
+  quoteId: string,
+  revision: number
+): Promise<QuoteRevision | null> {
+  return revisions.get(`${quoteId}:${revision}`);
+}
+
+/** Idempotent: recording a revision that already exists returns it as is. */
+export function recordRevision(
+  quoteId: string,
+  revision: number,
+  quote: QuoteSnapshot
+): Promise<QuoteRevision> {
+  const id = `${quoteId}:${revision}`;
+  return mutateFile<QuoteRevision[], QuoteRevision>(
+    "quote-revisions",
+    [],
+    (items) => {
+      const existing = items.find((r) => r.id === id);
+      if (existing) return { next: items, result: existing };
+
+      const entry: QuoteRevision = {
+        id,
+        quoteId,
+        revision,
+        createdAt: new Date().toISOString(),
+        quote,
+      };
+      return { next: [...items, entry], result: entry };
+    }
+  );
+}
+
+export function deleteRevisions(quoteId: string): Promise<void> {
+  return mutateFile<QuoteRevision[], void>("quote-revisions", [], (items) => {
+    const next = items.filter((r) => r.quoteId !== quoteId);
+    return {
+      next: next.length === items.length ? items : next,
+      result: undefined,
+    };
+  });
+}
@@ -0,0 +1,321 @@
+import { parseDtc } from "@/lib/diagnostics/dtc";
+import { isCurrency, isLocale } from "@/lib/i18n/locales";
+import { validateVin } from "@/lib/vin/decode";
+import type { QuoteApiError, QuoteFieldError } from "./types";
+
+// Request schemas for the quote endpoints. Validation reports every bad
+// field at once, each with a code the form can pin to the right input;
+// parsing (input.ts) only runs once a body passes.
+
+type Limit = { label: string; min: number; max: number };
+
+/** Server-side bounds; the form uses the same numbers for its inputs. */
+export const QUOTE_LIMITS = {
+  laborRate: { label: "Labor rate", min: 1, max: 1000 },
+  // A single line may be done at no charge (warranty, goodwill).
+  lineLaborRate: { label: "Labor rate", min: 0, max: 1000 },
+  srtHours: { label: "SRT hours", min: 0, max: 200 },
+  marginPercent: { label: "Margin", min: 0, max: 100 },
+  partsDiscountPercent: { label: "Parts discount", min: 0, max: 100 },
+  markupPercent: { label: "Markup", min: 0, max: 500 },
+  quantity: { label: "Quantity", min: 0, max: 1000 },
+  unitCost: { label: "Unit cost", min: 0, max: 250_000 },
+  coreCharge: { label: "Core charge", min: 0, max: 25_000 },
+  partsCost: { label: "Parts cost", min: 0, max: 250_000 },
+  fixedLabor: { label: "Fixed labor", min: 0, max: 250_000 },
+  fixedPrice: { label: "Fixed price", min: 0, max: 250_000 },
+  odometer: { label: "Odometer", min: 0, max: 5_000_000 },
+  engineHours: { label: "Engine hours", min: 0, max: 1_000_000 },
+} satisfies Record<string, Limit>;
+
+type Shape = Record<string, unknown>;
+
+function isObject(value: unknown): value is Shape {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function checkNumber(
+  errors: QuoteFieldError[],
+  field: string,
+  value: unknown,
+  limit: Limit
+) {
+  const n = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) {
+    errors.push({
+      field,
+      code: "NOT_A_NUMBER",
+      message: `${limit.label} must be a number.`,
+    });
+  } else if (n < limit.min || n > limit.max) {
+    errors.push({
+      field,
+      code: "OUT_OF_RANGE",
+      message: `${limit.label} must be between ${limit.min} and ${limit.max}.`,
+    });
+  }
+}
+
+function checkOptionalNumber(
+  errors: QuoteFieldError[],
+  field: string,
+  value: unknown,
+  limit: Limit
+) {
+  if (!isBlank(value)) checkNumber(errors, field, value, limit);
+}
+
+function checkVin(errors: QuoteFieldError[], field: string, value: unknown) {
+  if (isBlank(value)) {
+    errors.push({ field, code: "REQUIRED", message: "VIN is required." });
+  } else if (typeof value !== "string") {
+    errors.push({
+      field,
+      code: "INVALID_TYPE",
+      message: "VIN must be text.",
+    });
+  } else {
+    for (const e of validateVin(value)) errors.push({ field, ...e });
+  }
+}
+
+function checkStringList(
+  errors: QuoteFieldError[],
+  field: string,
+  value: unknown
+) {
+  if (value === undefined) return;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    errors.push({
+      field,
+      code: "INVALID_TYPE",
+      message: `${field} must be a list of codes.`,
+    });
+  }
+}
+
+function checkDiagnostics(errors: QuoteFieldError[], body: Shape) {
+  checkStringList(errors, "dtcs", body.dtcs);
+  if (Array.isArray(body.dtcs)) {
+    body.dtcs.forEach((code, i) => {
+      if (typeof code === "string" && !parseDtc(code)) {
+        errors.push({
+          field: `dtcs.${i}`,
+          code: "INVALID_VALUE",
+          message: `"${code}" is not a fault code (e.g. SPN 3226 FMI 2 or P20EE).`,
+        });
+      }
+    });
+  }
+  checkOptionalNumber(errors, "odometer", body.odometer, QUOTE_LIMITS.odometer);
+  checkOptionalNumber(
+    errors,
+    "engineHours",
+    body.engineHours,
+    QUOTE_LIMITS.engineHours
+  );
+}
+
+function checkTerms(errors: QuoteFieldError[], body: Shape) {
+  checkOptionalNumber(
+    errors,
+    "partsDiscountPercent",
+    body.partsDiscountPercent,
+    QUOTE_LIMITS.partsDiscountPercent
+  );
+  checkOptionalNumber(
+    errors,
+    "marginPercent",
+    body.marginPercent,
+    QUOTE_LIMITS.marginPercent
+  );
+  if (body.taxExempt !== undefined && typeof body.taxExempt !== "boolean") {
+    errors.push({
+      field: "taxExempt",
+      code: "INVALID_TYPE",
+      message: "taxExempt must be true or false.",
+    });
+  }
+  checkStringList(errors, "feeCodes", body.feeCodes);
+}
+
+/** Pricing terms shared by POST /api/quote and /api/quote/batch. */
+export function validateEstimateTerms(body: unknown): QuoteFieldError[] {
+  if (!isObject(body)) return [invalidBody()];
+
+  const errors: QuoteFieldError[] = [];
+  // Omitted means "use the customer's or shop's rate", never a bad value.
+  checkOptionalNumber(
+    errors,
+    "laborRate",
+    body.laborRate,
+    QUOTE_LIMITS.laborRate
+  );
+  checkTerms(errors, body);
+  if (body.rateClasses !== undefined && !isObject(body.rateClasses)) {
+    errors.push({
+      field: "rateClasses",
+      code: "INVALID_TYPE",
+      message: "rateClasses must map operation codes to rate classes.",
+    });
+  }
+  return errors;
+}
+
+/** Body of POST /api/quote (see QuoteRequest). */
+export function validateQuoteRequest(body: unknown): QuoteFieldError[] {
+  if (!isObject(body)) return [invalidBody()];
+
+  const errors: QuoteFieldError[] = [];
+  checkVin(errors, "vin", body.vin);
+  errors.push(...validateEstimateTerms(body));
+  checkStringList(errors, "operationCodes", body.operationCodes);
+  checkDiagnostics(errors, body);
+  return errors;
+}
+
+function checkPart(errors: QuoteFieldError[], path: string, part: unknown) {
+  if (!isObject(part)) {
+    errors.push({
+      field: path,
+      code: "INVALID_TYPE",
+      message: "Each part must be an object.",
+    });
+    return;
+  }
+  for (const key of [
+    "quantity",
+    "unitCost",
+    "coreCharge",
+    "markupPercent",
+  ] as const) {
+    checkOptionalNumber(errors, `${path}.${key}`, part[key], QUOTE_LIMITS[key]);
+  }
+}
+
+function checkRepair(errors: QuoteFieldError[], path: string, line: unknown) {
+  if (!isObject(line)) {
+    errors.push({
+      field: path,
+      code: "INVALID_TYPE",
+      message: "Each repair line must be an object.",
+    });
+    return;
+  }
+  checkOptionalNumber(
+    errors,
+    `${path}.srtHours`,
+    line.srtHours,
+    QUOTE_LIMITS.srtHours
+  );
+  checkOptionalNumber(
+    errors,
+    `${path}.laborRate`,
+    line.laborRate,
+    QUOTE_LIMITS.lineLaborRate
+  );
+  checkOptionalNumber(
+    errors,
+    `${path}.fixedLabor`,
+    line.fixedLabor,
+    QUOTE_LIMITS.fixedLabor
+  );
+  if (Array.isArray(line.parts)) {
+    line.parts.forEach((p, i) => checkPart(errors, `${path}.parts.${i}`, p));
+  } else {
+    checkOptionalNumber(
+      errors,
+      `${path}.partsCost`,
+      line.partsCost,
+      QUOTE_LIMITS.partsCost
+    );
+  }
+}
+
+/** Body of POST /api/quotes and PUT /api/quotes/[id] (see QuoteInput). */
+export function validateQuoteInput(body: unknown): QuoteFieldError[] {
+  if (!isObject(body)) return [invalidBody()];
+
+  const errors: QuoteFieldError[] = [];
+  checkVin(errors, "vin", body.vin);
+  checkNumber(errors, "laborRate", body.laborRate, QUOTE_LIMITS.laborRate);
+  checkTerms(errors, body);
+  checkDiagnostics(errors, body);
+  checkOptionalNumber(
+    errors,
+    "partsMarkupPercent",
+    body.partsMarkupPercent,
+    QUOTE_LIMITS.markupPercent
+  );
+  if (!isBlank(body.currency) && !isCurrency(body.currency)) {
+    errors.push({
+      field: "currency",
+      code: "INVALID_VALUE",
+      message: `Unsupported currency "${body.currency}".`,
+    });
+  }
+  if (!isBlank(body.locale) && !isLocale(body.locale)) {
+    errors.push({
+      field: "locale",
+      code: "INVALID_VALUE",
+      message: `Unsupported locale "${body.locale}".`,
+    });
+  }
+
+  if (!Array.isArray(body.repairs)) {
+    errors.push({
+      field: "repairs",
+      code: "INVALID_TYPE",
+      message: "repairs must be a list of repair lines.",
+    });
+  } else {
+    body.repairs.forEach((line, i) =>
+      checkRepair(errors, `repairs.${i}`, line)
+    );
+  }
+  return errors;
+}
+
+/** Codes the catalog (or fee setup) doesn't know, pinned to `field(i)`. */
+export function unknownCodeErrors(
+  codes: string[],
+  isKnown: (code: string) => boolean,
+  kind: "operation" | "fee",
+  field: (index: number) => string
+): QuoteFieldError[] {
+  const errors: QuoteFieldError[] = [];
+  codes.forEach((code, i) => {
+    if (isKnown(code)) return;
+    errors.push({
+      field: field(i),
+      code: kind === "operation" ? "UNKNOWN_OPERATION" : "UNKNOWN_FEE",
+      message: `Unknown ${kind} code "${code}".`,
+    });
+  });
+  return errors;
+}
+
+function invalidBody(): QuoteFieldError {
+  return {
+    field: "",
+    code: "INVALID_TYPE",
+    message: "Request body must be a JSON object.",
+  };
+}
+
+/** The 400 body for a list of field errors. */
+export function toApiError(errors: QuoteFieldError[]): QuoteApiError {
+  const more = errors.length - 1;
+  return {
+    error: more
+      ? `${errors[0].message} ${more} more field${
+          more === 1 ? " needs" : "s need"
+        } fixing.`
+      : errors[0].message,
+    errors,
+  };
+}
@@ -0,0 +1,56 @@
+import type { QuoteStatus, SavedQuote } from "./types";
+
+// Quote lifecycle rules, shared by the API and the editor.
+
+export const STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  approved: "Approved",
+  declined: "Declined",
+  expired: "Expired",
+  converted: "Converted to Work Order",
+};
+
+/**
+ * Moves the shop can make by hand. Expiry is automatic and approval normally
+ * comes from the customer link, but phone approvals can be recorded too.
+ */
+const SHOP_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ["sent", "approved", "declined"],
+  sent: ["draft", "approved", "declined"],
+  approved: ["converted", "draft"],
+  declined: ["draft"],
+  expired: ["draft"],
+  converted: [],
+};
+
+export function allowedTransitions(from: QuoteStatus): QuoteStatus[] {
+  return SHOP_TRANSITIONS[from];
+}
+
+export function canTransition(from: QuoteStatus, to: QuoteStatus): boolean {
+  return SHOP_TRANSITIONS[from].includes(to);
+}
+
+export function expiryFrom(sentAt: Date, validityDays: number): string {
+  return new Date(
+    sentAt.getTime() + validityDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+}
+
+/** Only quotes waiting on the customer can lapse. */
+export function isExpired(
+  quote: Pick<SavedQuote, "status" | "expiresAt">,
+  now = new Date()
+): boolean {
+  return (
+    quote.status === "sent" &&
+    !!quote.expiresAt &&
+    new Date(quote.expiresAt).getTime() <= now.getTime()
+  );
+}
+
+/** Own keys only, so "constructor" or "toString" isn't taken for a status. */
+export function isQuoteStatus(value: unknown): value is QuoteStatus {
+  return typeof value === "string" && Object.hasOwn(STATUS_LABELS, value);
+}
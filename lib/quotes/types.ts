@@ -0,0 +1,376 @@
+import type { UserRef } from "@/lib/auth/types";
+import type { OperationSuggestion } from "@/lib/diagnostics/types";
+import type { CurrencyCode, LocaleCode } from "@/lib/i18n/locales";
+import type { Delivery } from "@/lib/messaging/types";
+import type { FeeBreakdown } from "@/lib/pricing/fees";
+import type { FeeSettings } from "@/lib/settings/types";
+import type { VinErrorCode } from "@/lib/vin/decode";
+import type { DecodeSource, DecodeStatus, Vehicle } from "@/lib/vin/vehicle";
+import type { LineCoverage, WarrantyLookup } from "@/lib/warranty/types";
+
+/** A part on a repair line, as entered or pulled from the price list. */
+export type PartInput = {
+  partNumber: string;
+  description: string;
+  vendor: string;
+  quantity: number;
+  unitCost: number;
+  /** Refundable core deposit per unit; billed at cost, never marked up. */
+  coreCharge: number;
+  /** From the shop's markup matrix when added; editable per part. */
+  markupPercent: number;
+};
+
+export type PartLine = PartInput & {
+  /** unitCost + markup, rounded to cents. */
+  unitPrice: number;
+  /** quantity × unitPrice. */
+  extendedPrice: number;
+};
+
+export type RepairLine = {
+  operationCode?: string;
+  operation: string;
+  /** Labor rate class code from shop settings (e.g. "diagnostic"). */
+  rateClass: string;
+  srtHours: number;
+  laborRate: number;
+  /** Flat labor charge from a fixed-price package, in place of SRT × rate. */
+  fixedLabor?: number;
+  /** The fixed-price package the flat labor came from. */
+  packageId?: string;
+  laborCost: number;
+  parts: PartLine[];
+  /** What the parts cost the shop. */
+  partsCost: number;
+  /** What the customer pays for the parts, markup included. */
+  partsPrice: number;
+  coreCharges: number;
+  /** Labor + parts price + core charges. */
+  totalCost: number;
+  /** Paid by warranty or a campaign: shown, but left out of the totals. */
+  warranty?: LineCoverage;
+};
+
+/** Body of POST /api/quote. */
+export type QuoteRequest = {
+  vin: string;
+  /** Registered customer whose negotiated pricing fills in the gaps. */
+  customerId?: string;
+  /** Base rate for the mechanical class; defaults to the shop's rate. */
+  laborRate?: number;
+  operationCodes?: string[];
+  /**
+   * Fault codes to suggest operations from. Without operationCodes the
+   * quote then starts empty instead of with the catalog defaults.
+   */
+  dtcs?: string[];
+  /** Readings some suggestion rules depend on. */
+  odometer?: number;
+  engineHours?: number;
+  /** Rate class per operation code, overriding the catalog default. */
+  rateClasses?: Record<string, string>;
+  /** Defaults to the shop's settings; parts markup follows the matrix. */
+  marginPercent?: number;
+  partsDiscountPercent?: number;
+  taxExempt?: boolean;
+  /** Flat fee codes to apply; defaults to the shop's auto-applied fees. */
+  feeCodes?: string[];
+};
+
+/** Response of POST /api/quote. */
+export type QuoteResponse = {
+  vin: string;
+  vehicle: string;
+  vehicleDetails: Vehicle;
+  /** Lets callers flag vehicles that were only decoded offline. */
+  decodeSource: DecodeSource;
+  decodeStatus: DecodeStatus;
+  engineFamily: string | null;
+  /** Coverage and open campaigns for the VIN. */
+  warranty: WarrantyLookup;
+  /** The request's fault codes, normalized. */
+  dtcs: string[];
+  /** Operations the fault codes point to, not yet on the quote. */
+  suggestions: OperationSuggestion[];
+  repairs: RepairLine[];
+  totals: QuoteTotals;
+};
+
+export type QuoteTotals = FeeBreakdown & {
+  laborCost: number;
+  partsCost: number;
+  partsWithMarkup: number;
+  partsDiscount: number;
+  coreCharges: number;
+  /** Labor + marked-up parts - discount + core charges. */
+  baseGrandTotal: number;
+  /** After margin, before fees and tax. */
+  finalGrandTotal: number;
+  /** What the customer pays: finalGrandTotal + fees + tax. */
+  quoteTotal: number;
+};
+
+export type QuoteFieldErrorCode =
+  | VinErrorCode
+  | "REQUIRED"
+  | "INVALID_TYPE"
+  | "NOT_A_NUMBER"
+  | "OUT_OF_RANGE"
+  | "INVALID_VALUE"
+  | "UNKNOWN_OPERATION"
+  | "UNKNOWN_FEE"
+  /** A pricing override that needs a manager's sign-off. */
+  | "NEEDS_APPROVAL"
+  /** The quote was saved elsewhere after the editor loaded it. */
+  | "CONFLICT";
+
+/** A problem with one input, addressed by path (e.g. "repairs.2.srtHours"). */
+export type QuoteFieldError = {
+  field: string;
+  code: QuoteFieldErrorCode;
+  message: string;
+};
+
+/**
+ * Body of a 400 from the quote endpoints: the whole request is checked.
+ * Saves that need a manager come back as a 403 of the same shape.
+ */
+export type QuoteApiError = {
+  error: string;
+  errors: QuoteFieldError[];
+};
+
+/** 409 from PUT /api/quotes/[id]: someone else saved first. */
+export type QuoteConflict = QuoteApiError & { quote: SavedQuote };
+
+/** One row of a fleet VIN list (row numbers match the pasted text/file). */
+export type FleetRow = {
+  row: number;
+  vin: string;
+  unitNumber: string;
+  /** Catalog codes for this unit; omitted means the vehicle's defaults. */
+  operationCodes?: string[];
+};
+
+export type FleetRowError = { row: number; vin: string; message: string };
+
+export type FleetUnitEstimate = {
+  row: number;
+  unitNumber: string;
+  quote: QuoteResponse;
+};
+
+/** Response of POST /api/quote/batch: each unit priced as its own quote. */
+export type FleetEstimate = {
+  units: FleetUnitEstimate[];
+  errors: FleetRowError[];
+  totals: {
+    units: number;
+    srtHours: number;
+    /** Sum of each unit's total before fees and tax. */
+    subtotal: number;
+    feesTotal: number;
+    taxTotal: number;
+    quoteTotal: number;
+  };
+};
+
+/**
+ * Everything the editor sends when saving a quote. Totals are not part of
+ * it: the server re-prices the lines on every save.
+ */
+export type QuoteInput = {
+  quoteNumber: string;
+  shopName: string;
+  vin: string;
+  vehicle: string;
+  vehicleDetails: Vehicle | null;
+  /** Registry links; the name and unit number are kept as a snapshot. */
+  customerId: string | null;
+  unitId: string | null;
+  customerName: string;
+  unitNumber: string;
+  /** Miles at write-up, for warranty mileage limits. */
+  odometer: number | null;
+  engineHours: number | null;
+  /** Fault codes the truck came in with, normalized. */
+  dtcs: string[];
+  notes: string;
+  laborRate: number;
+  partsDiscountPercent: number;
+  marginPercent: number;
+  terms: string;
+  taxExempt: boolean;
+  feeCodes: string[];
+  /** Null means the shop's; filled in from settings when the quote is saved. */
+  currency: CurrencyCode | null;
+  locale: LocaleCode | null;
+  repairs: RepairLine[];
+};
+
+export type QuoteStatus =
+  | "draft"
+  | "sent"
+  | "approved"
+  | "declined"
+  | "expired"
+  | "converted";
+
+export type AuditEntry = {
+  at: string;
+  actor: "shop" | "customer";
+  /** Status after the change. */
+  status: QuoteStatus;
+  message: string;
+  /** Name of the shop user behind a shop-side change. */
+  by?: string;
+};
+
+export type LineDecision = "approved" | "declined";
+
+/** The customer's answer from the public approval page. */
+export type CustomerApproval = {
+  signature: string;
+  signedAt: string;
+  /** One decision per repair line, by index. */
+  decisions: LineDecision[];
+  /** What the customer agreed to pay for the approved lines. */
+  approvedTotal: number;
+};
+
+export type SavedQuote = QuoteInput & {
+  id: string;
+  totals: QuoteTotals;
+  /**
+   * The shop's fees and tax rates when the quote was last priced, so an
+   * approval re-prices the way the customer was quoted. Null on quotes
+   * saved before they were kept.
+   */
+  feeSettings: FeeSettings | null;
+  /** Starts at 1; every save that changes the quote adds a revision. */
+  revision: number;
+  status: QuoteStatus;
+  sentAt: string | null;
+  expiresAt: string | null;
+  /** Secret for the public approval link; replaced every time it's sent. */
+  approvalToken: string | null;
+  approval: CustomerApproval | null;
+  history: AuditEntry[];
+  /** Every email or text sent from the quote, oldest first. */
+  deliveries: Delivery[];
+  /** Null on quotes saved before sign-in existed. */
+  createdBy: UserRef | null;
+  updatedBy: UserRef | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** A part as the customer sees it: no cost, markup or vendor. */
+export type PublicPartLine = Pick<
+  PartLine,
+  "description" | "quantity" | "unitPrice" | "extendedPrice"
+>;
+
+/**
+ * A repair line as the customer sees it: what it's charged, margin and
+ * discount included, so the lines add up to the quote. No shop cost.
+ */
+export type PublicRepairLine = Pick<
+  RepairLine,
+  "operation" | "srtHours" | "warranty"
+> & {
+  laborCharge: number;
+  /** Parts and their core charges. */
+  partsCharge: number;
+  lineCharge: number;
+  parts: PublicPartLine[];
+};
+
+/** What the customer sees on the approval page – no notes or internals. */
+export type PublicQuote = Pick<
+  SavedQuote,
+  | "quoteNumber"
+  | "shopName"
+  | "customerName"
+  | "unitNumber"
+  | "odometer"
+  | "vin"
+  | "vehicle"
+  | "partsDiscountPercent"
+  | "taxExempt"
+  | "terms"
+  | "currency"
+  | "locale"
+  | "revision"
+  | "status"
+  | "expiresAt"
+  | "approval"
+> & {
+  repairs: PublicRepairLine[];
+  /**
+   * Lines, fees, tax and the total; the cost and margin lines stay in the
+   * shop.
+   */
+  totals: Pick<
+    QuoteTotals,
+    keyof FeeBreakdown | "partsDiscount" | "finalGrandTotal" | "quoteTotal"
+  >;
+};
+
+export type QuoteSummary = Pick<
+  SavedQuote,
+  | "id"
+  | "quoteNumber"
+  | "vin"
+  | "vehicle"
+  | "customerName"
+  | "unitNumber"
+  | "revision"
+  | "status"
+  | "expiresAt"
+  | "createdBy"
+  | "updatedBy"
+  | "createdAt"
+  | "updatedAt"
+  | "currency"
+  | "locale"
+> & { quoteTotal: number };
+
+/** Exactly what was quoted at one revision: the editor's input, priced. */
+export type QuoteSnapshot = QuoteInput & { totals: QuoteTotals };
+
+/** An immutable copy of a quote as it stood at one revision. */
+export type QuoteRevision = {
+  /** `${quoteId}:${revision}` */
+  id: string;
+  quoteId: string;
+  revision: number;
+  createdAt: string;
+  quote: QuoteSnapshot;
+};
+
+export type RevisionSummary = Pick<QuoteRevision, "revision" | "createdAt"> &
+  Pick<QuoteSnapshot, "currency" | "locale"> & {
+    lineCount: number;
+    quoteTotal: number;
+  };
+
+export type LineFieldChange = {
+  field: "srtHours" | "laborRate" | "partsCost" | "totalCost";
+  from: number;
+  to: number;
+};
+
+export type LineDiff =
+  | { kind: "added"; line: RepairLine }
+  | { kind: "removed"; line: RepairLine }
+  | { kind: "changed"; line: RepairLine; changes: LineFieldChange[] };
+
+/** GET /api/quotes/[id]/diff – what changed between two revisions. */
+export type QuoteDiff = {
+  from: number;
+  to: number;
+  lines: LineDiff[];
+  quoteTotal: { from: number; to: number; change: number };
+};
@@ -0,0 +1,45 @@
+import { coverageFor } from "@/lib/warranty/coverage";
+import { lookupWarranty } from "@/lib/warranty/provider";
+import type { QuoteFieldError, QuoteInput } from "./types";
+
+// No-charge lines are only taken on the VIN's own coverage. A line that
+// kept its flag from the last save is left alone, so a quote saved while
+// the coverage was active can still be re-saved after it runs out.
+
+export async function warrantyErrors(
+  input: QuoteInput,
+  previous: QuoteInput | null
+): Promise<QuoteFieldError[]> {
+  const flagged = input.repairs
+    .map((line, i) => ({ line, i }))
+    .filter(
+      ({ line }) =>
+        line.warranty &&
+        !previous?.repairs.some(
+          (p) =>
+            p.operation === line.operation &&
+            p.warranty?.type === line.warranty?.type &&
+            p.warranty?.reference === line.warranty?.reference
+        )
+    );
+  if (!flagged.length) return [];
+
+  const { record } = await lookupWarranty(input.vin);
+  return flagged
+    .filter(
+      ({ line }) =>
+        !record ||
+        !coverageFor(record, line.operationCode, input.odometer).some(
+          (c) =>
+            c.type === line.warranty?.type &&
+            c.reference === line.warranty?.reference
+        )
+    )
+    .map(({ line, i }) => ({
+      field: `repairs.${i}.warranty`,
+      code: "INVALID_VALUE",
+      message: record
+        ? `"${line.operation}" isn't covered by ${line.warranty?.name} for this VIN and odometer.`
+        : `Warranty coverage for this VIN couldn't be checked, so "${line.operation}" can't be marked no charge.`,
+    }));
+}
@@ -0,0 +1,353 @@
+import { toCsv } from "@/lib/csv";
+import { isCurrency, type CurrencyCode } from "@/lib/i18n/locales";
+import { NO_FEES } from "@/lib/pricing/fees";
+import { roundCents } from "@/lib/pricing/money";
+import { billedLaborOf, priceQuote } from "@/lib/pricing/pricing";
+import { STATUS_LABELS, isQuoteStatus } from "@/lib/quotes/status";
+import type { QuoteStatus, RepairLine, SavedQuote } from "@/lib/quotes/types";
+import type {
+  MonthRow,
+  OperationRow,
+  QuoteAnalytics,
+  ReportFilters,
+  ReportName,
+  RevenueSplit,
+  StatusRow,
+  VehicleRow,
+} from "./types";
+
+// Reporting over saved quotes. Pure, so the API and its CSV export work
+// from the same numbers. A report covers one currency at a time, since
+// amounts in different currencies can't be added up.
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const REPORT_NAMES: ReportName[] = [
+  "summary",
+  "status",
+  "months",
+  "operations",
+  "vehicles",
+];
+
+export function isReportName(value: unknown): value is ReportName {
+  return REPORT_NAMES.includes(value as ReportName);
+}
+
+export function parseReportFilters(params: URLSearchParams): ReportFilters {
+  const from = params.get("from") ?? "";
+  const to = params.get("to") ?? "";
+  const status = params.get("status");
+  const currency = params.get("currency");
+  return {
+    from: DATE.test(from) ? from : null,
+    to: DATE.test(to) ? to : null,
+    status: isQuoteStatus(status) ? status : null,
+    currency: isCurrency(currency) ? currency : null,
+  };
+}
+
+function matches(q: SavedQuote, filters: ReportFilters): boolean {
+  const day = q.createdAt.slice(0, 10);
+  return (
+    (!filters.from || day >= filters.from) &&
+    (!filters.to || day <= filters.to) &&
+    (!filters.status || q.status === filters.status)
+  );
+}
+
+export function isWon(status: QuoteStatus): boolean {
+  return status === "approved" || status === "converted";
+}
+
+/** Lines the customer said yes to; a shop-recorded approval covers all. */
+export function wonLines(q: SavedQuote): RepairLine[] {
+  const decisions = q.approval?.decisions;
+  return decisions
+    ? q.repairs.filter((_, i) => decisions[i] === "approved")
+    : q.repairs;
+}
+
+function revenueOf(q: SavedQuote): RevenueSplit & { list: number } {
+  const lines = wonLines(q);
+  const partial = lines.length !== q.repairs.length;
+  // Partly approved quotes are re-priced without fees; fees and tax are
+  // whatever's left of the approved total.
+  const totals = partial
+    ? priceQuote(lines, {
+        partsDiscountPercent: q.partsDiscountPercent,
+        marginPercent: q.marginPercent,
+        fees: NO_FEES,
+        taxExempt: true,
+      }).totals
+    : q.totals;
+  const total = partial
+    ? q.approval?.approvedTotal ?? totals.quoteTotal
+    : q.totals.quoteTotal;
+
+  const labor = billedLaborOf(lines, q.marginPercent);
+  const parts = roundCents(totals.finalGrandTotal - labor - totals.coreCharges);
+  return {
+    labor,
+    parts,
+    coreCharges: totals.coreCharges,
+    feesAndTax: roundCents(total - totals.finalGrandTotal),
+    total,
+    list: roundCents(totals.laborCost + totals.partsWithMarkup),
+  };
+}
+
+function mean(values: number[]): number | null {
+  return values.length
+    ? Math.round(
+        (values.reduce((sum, v) => sum + v, 0) / values.length) * 100
+      ) / 100
+    : null;
+}
+
+function tally<K, V>(map: Map<K, V>, key: K, init: () => V): V {
+  let value = map.get(key);
+  if (!value) {
+    value = init();
+    map.set(key, value);
+  }
+  return value;
+}
+
+/** `shopCurrency` stands in for quotes saved without one. */
+export function buildAnalytics(
+  all: SavedQuote[],
+  filters: ReportFilters,
+  shopCurrency: CurrencyCode
+): QuoteAnalytics {
+  const currency = filters.currency ?? shopCurrency;
+  const currencyOf = (q: SavedQuote) => q.currency ?? shopCurrency;
+  const matched = all.filter((q) => matches(q, filters));
+  const quotes = matched.filter((q) => currencyOf(q) === currency);
+  const revenue: RevenueSplit = {
+    labor: 0,
+    parts: 0,
+    coreCharges: 0,
+    feesAndTax: 0,
+    total: 0,
+  };
+  const entered: number[] = [];
+  const realized: number[] = [];
+  const statuses = new Map<QuoteStatus, StatusRow>();
+  const months = new Map<string, MonthRow>();
+  const operations = new Map<string, OperationRow>();
+  const vehicles = new Map<string, VehicleRow>();
+
+  for (const q of quotes) {
+    const won = isWon(q.status);
+    const total = q.totals.quoteTotal;
+
+    const status = tally(statuses, q.status, () => ({
+      status: q.status,
+      quotes: 0,
+      quoteTotal: 0,
+    }));
+    status.quotes++;
+    status.quoteTotal += total;
+
+    const monthKey = q.createdAt.slice(0, 7);
+    const month = tally(months, monthKey, () => ({
+      month: monthKey,
+      quotes: 0,
+      won: 0,
+      quoteTotal: 0,
+      revenue: 0,
+    }));
+    month.quotes++;
+    month.quoteTotal += total;
+
+    const make = q.vehicleDetails?.make || "Unknown";
+    const model = q.vehicleDetails?.model || "";
+    const vehicle = tally(vehicles, `${make}|${model}`, () => ({
+      make,
+      model,
+      quotes: 0,
+      won: 0,
+      quoteTotal: 0,
+    }));
+    vehicle.quotes++;
+    vehicle.quoteTotal += total;
+
+    const approved = won ? wonLines(q) : [];
+    for (const line of q.repairs) {
+      const key = line.operationCode || line.operation;
+      const op = tally(operations, key, () => ({
+        operationCode: line.operationCode ?? "",
+        operation: line.operation,
+        quoted: 0,
+        approved: 0,
+        srtHours: 0,
+        approvedValue: 0,
+      }));
+      op.quoted++;
+      op.srtHours += line.srtHours;
+      if (approved.includes(line)) {
+        op.approved++;
+        if (!line.warranty) op.approvedValue += line.totalCost;
+      }
+    }
+
+    if (!won) continue;
+    const r = revenueOf(q);
+    revenue.labor += r.labor;
+    revenue.parts += r.parts;
+    revenue.coreCharges += r.coreCharges;
+    revenue.feesAndTax += r.feesAndTax;
+    revenue.total += r.total;
+    month.won++;
+    month.revenue += r.total;
+    vehicle.won++;
+    entered.push(q.marginPercent);
+    if (r.list > 0) {
+      realized.push(((r.labor + r.parts) / r.list - 1) * 100);
+    }
+  }
+
+  const count = (s: QuoteStatus) => statuses.get(s)?.quotes ?? 0;
+  const won = count("approved") + count("converted");
+  const decided = won + count("declined") + count("expired");
+  const quoteTotal = roundCents(
+    quotes.reduce((s, q) => s + q.totals.quoteTotal, 0)
+  );
+
+  return {
+    filters,
+    currency,
+    currencies: [...new Set([currency, ...matched.map(currencyOf)])].sort(),
+    quotes: quotes.length,
+    quoteTotal,
+    averageQuote: quotes.length ? roundCents(quoteTotal / quotes.length) : 0,
+    approval: {
+      won,
+      declined: count("declined"),
+      expired: count("expired"),
+      rate: decided ? Math.round((won / decided) * 1000) / 10 : null,
+    },
+    revenue: {
+      labor: roundCents(revenue.labor),
+      parts: roundCents(revenue.parts),
+      coreCharges: roundCents(revenue.coreCharges),
+      feesAndTax: roundCents(revenue.feesAndTax),
+      total: roundCents(revenue.total),
+    },
+    margin: {
+      averageEntered: mean(entered),
+      averageRealized: mean(realized),
+    },
+    byStatus: (Object.keys(STATUS_LABELS) as QuoteStatus[])
+      .filter((s) => statuses.has(s))
+      .map((s) => {
+        const row = statuses.get(s) as StatusRow;
+        return { ...row, quoteTotal: roundCents(row.quoteTotal) };
+      }),
+    byMonth: [...months.values()]
+      .sort((a, b) => a.month.localeCompare(b.month))
+      .map((m) => ({
+        ...m,
+        quoteTotal: roundCents(m.quoteTotal),
+        revenue: roundCents(m.revenue),
+      })),
+    operations: [...operations.values()]
+      .sort((a, b) => b.quoted - a.quoted || b.approved - a.approved)
+      .map((o) => ({
+        ...o,
+        srtHours: Math.round(o.srtHours * 100) / 100,
+        approvedValue: roundCents(o.approvedValue),
+      })),
+    vehicles: [...vehicles.values()]
+      .sort((a, b) => b.quotes - a.quotes || b.won - a.won)
+      .map((v) => ({ ...v, quoteTotal: roundCents(v.quoteTotal) })),
+  };
+}
+
+function optional(value: number | null): string {
+  return value === null ? "" : value.toFixed(2);
+}
+
+export function analyticsCsv(report: QuoteAnalytics, name: ReportName): string {
+  switch (name) {
+    case "summary": {
+      const { approval, revenue, margin } = report;
+      return toCsv([
+        ["metric", "value"],
+        ["currency", report.currency],
+        ["from", report.filters.from ?? ""],
+        ["to", report.filters.to ?? ""],
+        ["quotes", report.quotes],
+        ["quote_total", report.quoteTotal.toFixed(2)],
+        ["average_quote", report.averageQuote.toFixed(2)],
+        ["won", approval.won],
+        ["declined", approval.declined],
+        ["expired", approval.expired],
+        ["approval_rate_percent", optional(approval.rate)],
+        ["revenue_labor", revenue.labor.toFixed(2)],
+        ["revenue_parts", revenue.parts.toFixed(2)],
+        ["revenue_core_charges", revenue.coreCharges.toFixed(2)],
+        ["revenue_fees_and_tax", revenue.feesAndTax.toFixed(2)],
+        ["revenue_total", revenue.total.toFixed(2)],
+        ["average_margin_entered_percent", optional(margin.averageEntered)],
+        ["average_margin_realized_percent", optional(margin.averageRealized)],
+      ]);
+    }
+    case "status":
+      return toCsv([
+        ["status", "quotes", "quote_total", "currency"],
+        ...report.byStatus.map((s) => [
+          STATUS_LABELS[s.status],
+          s.quotes,
+          s.quoteTotal.toFixed(2),
+          report.currency,
+        ]),
+      ]);
+    case "months":
+      return toCsv([
+        ["month", "quotes", "won", "quote_total", "revenue", "currency"],
+        ...report.byMonth.map((m) => [
+          m.month,
+          m.quotes,
+          m.won,
+          m.quoteTotal.toFixed(2),
+          m.revenue.toFixed(2),
+          report.currency,
+        ]),
+      ]);
+    case "operations":
+      return toCsv([
+        [
+          "operation_code",
+          "operation",
+          "quoted",
+          "approved",
+          "srt_hours",
+          "approved_value",
+          "currency",
+        ],
+        ...report.operations.map((o) => [
+          o.operationCode,
+          o.operation,
+          o.quoted,
+          o.approved,
+          o.srtHours.toFixed(2),
+          o.approvedValue.toFixed(2),
+          report.currency,
+        ]),
+      ]);
+    case "vehicles":
+      return toCsv([
+        ["make", "model", "quotes", "won", "quote_total", "currency"],
+        ...report.vehicles.map((v) => [
+          v.make,
+          v.model,
+          v.quotes,
+          v.won,
+          v.quoteTotal.toFixed(2),
+          report.currency,
+        ]),
+      ]);
+  }
+}
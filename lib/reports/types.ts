@@ -0,0 +1,99 @@
+import type { CurrencyCode } from "@/lib/i18n/locales";
+import type { QuoteStatus } from "@/lib/quotes/types";
+
+/** Query of GET /api/reports. Dates are inclusive, matched on createdAt. */
+export type ReportFilters = {
+  from: string | null;
+  to: string | null;
+  status: QuoteStatus | null;
+  /** Amounts only add up within one currency; null is the shop's own. */
+  currency: CurrencyCode | null;
+};
+
+/** The tables the reports page shows, each exportable as CSV. */
+export type ReportName =
+  | "summary"
+  | "status"
+  | "months"
+  | "operations"
+  | "vehicles";
+
+export type StatusRow = {
+  status: QuoteStatus;
+  quotes: number;
+  quoteTotal: number;
+};
+
+export type MonthRow = {
+  /** yyyy-mm */
+  month: string;
+  quotes: number;
+  won: number;
+  quoteTotal: number;
+  revenue: number;
+};
+
+/** What won quotes bring in, split the way the invoice is. */
+export type RevenueSplit = {
+  /** Labor and parts are billed amounts, with margin and discount applied. */
+  labor: number;
+  parts: number;
+  coreCharges: number;
+  feesAndTax: number;
+  total: number;
+};
+
+export type OperationRow = {
+  operationCode: string;
+  operation: string;
+  /** Lines quoted across every matching quote. */
+  quoted: number;
+  /** Lines the customer approved on won quotes. */
+  approved: number;
+  srtHours: number;
+  /** Line totals of the approved lines, before margin. */
+  approvedValue: number;
+};
+
+export type VehicleRow = {
+  make: string;
+  model: string;
+  quotes: number;
+  won: number;
+  quoteTotal: number;
+};
+
+export type QuoteAnalytics = {
+  filters: ReportFilters;
+  /** Every amount below; quotes in other currencies are left out. */
+  currency: CurrencyCode;
+  /** Currencies the dates and status matched quotes in, to switch between. */
+  currencies: CurrencyCode[];
+  quotes: number;
+  quoteTotal: number;
+  averageQuote: number;
+  approval: {
+    /** Approved or converted to a work order. */
+    won: number;
+    declined: number;
+    expired: number;
+    /** won / (won + declined + expired); null until a quote is decided. */
+    rate: number | null;
+  };
+  revenue: RevenueSplit;
+  margin: {
+    /** Mean marginPercent entered on won quotes. */
+    averageEntered: number | null;
+    /**
+     * Mean uplift actually billed over list price (labor at rate plus parts
+     * at markup), so discounts and partial approvals show up.
+     */
+    averageRealized: number | null;
+  };
+  byStatus: StatusRow[];
+  byMonth: MonthRow[];
+  /** Most quoted first. */
+  operations: OperationRow[];
+  /** Most quoted first. */
+  vehicles: VehicleRow[];
+};
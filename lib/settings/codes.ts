@@ -0,0 +1,8 @@
+/** Stable code for a user-named setting, e.g. "Road Call" -> "road-call". */
+export function codeFromName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
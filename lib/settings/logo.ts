@@ -0,0 +1,49 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { dataDir } from "@/lib/store/json-store";
+import { getSettings, updateSettings } from "./settings";
+import type { ShopSettings } from "./types";
+
+// The uploaded shop logo lives next to the settings file. PNG and JPEG only,
+// since those are the formats the quote PDF can embed.
+
+export const LOGO_TYPES = ["image/png", "image/jpeg"];
+export const MAX_LOGO_BYTES = 1024 * 1024;
+
+function logoPath(): string {
+  return path.join(dataDir(), "shop-logo");
+}
+
+export async function readLogo(): Promise<{
+  bytes: Uint8Array;
+  contentType: string;
+} | null> {
+  const { logo } = await getSettings();
+  if (!logo) return null;
+
+  try {
+    return {
+      bytes: new Uint8Array(await readFile(logoPath())),
+      contentType: logo.contentType,
+    };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+export async function saveLogo(
+  bytes: Uint8Array,
+  contentType: string
+): Promise<ShopSettings> {
+  await mkdir(dataDir(), { recursive: true });
+  await writeFile(logoPath(), bytes);
+  return updateSettings({
+    logo: { contentType, updatedAt: new Date().toISOString() },
+  });
+}
+
+export async function deleteLogo(): Promise<ShopSettings> {
+  await rm(logoPath(), { force: true });
+  return updateSettings({ logo: null });
+}
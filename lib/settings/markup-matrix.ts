@@ -0,0 +1,52 @@
+import { QUOTE_LIMITS } from "@/lib/quotes/schema";
+import type { MarkupTier } from "./types";
+
+// Tiered parts markup: cheap parts carry a higher percentage than expensive
+// ones. Tiers are kept sorted by ceiling with a single open-ended tier last.
+
+export function markupForCost(matrix: MarkupTier[], unitCost: number): number {
+  const tier = matrix.find((t) => t.upTo === null || unitCost <= t.upTo);
+  return tier?.markupPercent ?? 0;
+}
+
+/** Clean up a markup matrix from a settings PUT body. */
+export function parseMarkupMatrix(raw: unknown[]): MarkupTier[] {
+  const bounded: MarkupTier[] = [];
+  let open: MarkupTier | null = null;
+
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const t = item as Record<string, unknown>;
+
+    // Within the bounds a quote's part markup is checked against.
+    const { min, max } = QUOTE_LIMITS.markupPercent;
+    const markupPercent = Number(t.markupPercent);
+    if (
+      !Number.isFinite(markupPercent) ||
+      markupPercent < min ||
+      markupPercent > max
+    ) {
+      continue;
+    }
+
+    const upTo = Number(t.upTo);
+    if (t.upTo === null || t.upTo === "" || t.upTo === undefined) {
+      open = { upTo: null, markupPercent };
+    } else if (
+      Number.isFinite(upTo) &&
+      upTo > 0 &&
+      !bounded.some((existing) => existing.upTo === upTo)
+    ) {
+      bounded.push({ upTo, markupPercent });
+    }
+  }
+
+  bounded.sort((a, b) => (a.upTo as number) - (b.upTo as number));
+  return [
+    ...bounded,
+    open ?? {
+      upTo: null,
+      markupPercent: bounded.at(-1)?.markupPercent ?? 0,
+    },
+  ];
+}
@@ -0,0 +1,10 @@
+import type { QuoteNumbering } from "./types";
+
+export function formatQuoteNumber(
+  scheme: QuoteNumbering,
+  n: number,
+  now: Date = new Date()
+): string {
+  const year = scheme.includeYear ? `${now.getFullYear()}-` : "";
+  return `${scheme.prefix}${year}${String(n).padStart(scheme.padding, "0")}`;
+}
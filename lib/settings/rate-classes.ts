@@ -0,0 +1,59 @@
+import { QUOTE_LIMITS } from "@/lib/quotes/schema";
+import { codeFromName } from "./codes";
+import type { LaborRateClass } from "./types";
+
+// Lines default to the mechanical class, which bills at the quote's base
+// labor rate. It always exists, even if someone deletes it from settings.
+export const BASE_RATE_CLASS = "mechanical";
+
+export function rateForClass(
+  classes: LaborRateClass[],
+  code: string | undefined,
+  baseRate: number
+): number {
+  const match = classes.find((c) => c.code === code);
+  return match?.rate ?? baseRate;
+}
+
+export function rateClassName(
+  classes: LaborRateClass[],
+  code: string | undefined
+): string {
+  return classes.find((c) => c.code === code)?.name ?? "Mechanical";
+}
+
+/** Clean up a rate class list from a settings PUT body. */
+export function parseRateClasses(raw: unknown[]): LaborRateClass[] {
+  const classes: LaborRateClass[] = [];
+
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const c = item as Record<string, unknown>;
+
+    const name = typeof c.name === "string" ? c.name.trim() : "";
+    const code =
+      typeof c.code === "string" && c.code ? c.code : codeFromName(name);
+    if (!name || !code || classes.some((existing) => existing.code === code)) {
+      continue;
+    }
+
+    const rate = Number(c.rate);
+    classes.push({
+      code,
+      name,
+      rate:
+        code === BASE_RATE_CLASS || c.rate === null || c.rate === ""
+          ? null
+          : Number.isFinite(rate) &&
+            rate > 0 &&
+            rate <= QUOTE_LIMITS.lineLaborRate.max
+          ? rate
+          : null,
+    });
+  }
+
+  if (!classes.some((c) => c.code === BASE_RATE_CLASS)) {
+    classes.unshift({ code: BASE_RATE_CLASS, name: "Mechanical", rate: null });
+  }
+  return classes;
+}
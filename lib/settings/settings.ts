@@ -0,0 +1,321 @@
+import { DEFAULT_FORMAT, isCurrency, isLocale } from "@/lib/i18n/locales";
+import { MESSAGES } from "@/lib/i18n/messages";
+import { QUOTE_LIMITS } from "@/lib/quotes/schema";
+import { mutateFile, readFileValue } from "@/lib/store/json-store";
+import { codeFromName } from "./codes";
+import { parseMarkupMatrix } from "./markup-matrix";
+import { BASE_RATE_CLASS, parseRateClasses } from "./rate-classes";
+import type {
+  FeeSettings,
+  FlatFee,
+  GlAccounts,
+  MessageTemplates,
+  SettingsResponse,
+  ShopSettings,
+} from "./types";
+
+export const DEFAULT_SETTINGS: ShopSettings = {
+  shopName: "VINQuoter Demo Shop",
+  address: "",
+  phone: "",
+  email: "",
+  logo: null,
+  defaultLaborRate: 165,
+  laborRateClasses: [
+    { code: BASE_RATE_CLASS, name: "Mechanical", rate: null },
+    { code: "diagnostic", name: "Diagnostic", rate: 185 },
+    { code: "electrical", name: "Electrical", rate: 175 },
+    { code: "road-call", name: "Road Call", rate: 225 },
+    { code: "overtime", name: "Overtime", rate: 247.5 },
+  ],
+  // One flat 0% tier so totals don't change until the shop sets up tiers.
+  partsMarkupMatrix: [{ upTo: null, markupPercent: 0 }],
+  defaultMarginPercent: 0,
+  minimumMarginPercent: 0,
+  defaultTerms: MESSAGES.en.defaultTerms,
+  currency: DEFAULT_FORMAT.currency,
+  locale: DEFAULT_FORMAT.locale,
+  quoteValidityDays: 30,
+  // Zero by default so totals don't change until the shop configures them.
+  fees: {
+    shopSupplies: { percentOfLabor: 0, cap: null, taxable: true },
+    flatFees: [
+      {
+        code: "fluid-disposal",
+        name: "Fluid Disposal Fee",
+        amount: 15,
+        taxable: false,
+        autoApply: false,
+      },
+      {
+        code: "def-top-off",
+        name: "DEF Top-off",
+        amount: 12,
+        taxable: true,
+        autoApply: false,
+      },
+    ],
+    taxRates: { parts: 0, labor: 0 },
+  },
+  messageTemplates: {
+    emailSubject: "Your estimate {quoteNumber} from {shopName}",
+    emailBody:
+      "Hello {customerName},\n\n" +
+      "Attached is estimate {quoteNumber} for your {vehicle}. " +
+      "The total comes to {total}.\n\n" +
+      "Review and approve it online: {approvalLink}\n\n" +
+      "Thank you,\n{shopName}",
+    sms:
+      "{shopName}: estimate {quoteNumber} for your {vehicle} is ready " +
+      "({total}). Review and approve: {approvalLink}",
+  },
+  // QuickBooks' standard account names, so an IIF export imports as is.
+  glAccounts: {
+    receivable: "Accounts Receivable",
+    labor: "Labor Income",
+    parts: "Parts Sales",
+    coreCharges: "Core Charges",
+    shopSupplies: "Shop Supplies Income",
+    fees: "Fee Income",
+    salesTax: "Sales Tax Payable",
+  },
+  quoteNumbering: {
+    prefix: "Q-",
+    includeYear: false,
+    padding: 0,
+    startAt: 1001,
+  },
+};
+
+type StoredSettings = Partial<ShopSettings> & {
+  /** Replaced by partsMarkupMatrix. */
+  defaultPartsMarkupPercent?: number;
+};
+
+/** Stored settings merged over the defaults, so new fields always exist. */
+function withDefaults(stored: StoredSettings): ShopSettings {
+  const { defaultPartsMarkupPercent, ...current } = stored;
+  return {
+    ...DEFAULT_SETTINGS,
+    // A flat markup from before the matrix becomes its only tier.
+    ...(defaultPartsMarkupPercent !== undefined && {
+      partsMarkupMatrix: [
+        { upTo: null, markupPercent: defaultPartsMarkupPercent },
+      ],
+    }),
+    ...current,
+    fees: {
+      ...DEFAULT_SETTINGS.fees,
+      ...stored.fees,
+    },
+    messageTemplates: {
+      ...DEFAULT_SETTINGS.messageTemplates,
+      ...stored.messageTemplates,
+    },
+    glAccounts: {
+      ...DEFAULT_SETTINGS.glAccounts,
+      ...stored.glAccounts,
+    },
+    quoteNumbering: {
+      ...DEFAULT_SETTINGS.quoteNumbering,
+      ...stored.quoteNumbering,
+    },
+  };
+}
+
+export async function getSettings(): Promise<ShopSettings> {
+  return withDefaults(await readFileValue<StoredSettings>("settings", {}));
+}
+
+export function updateSettings(
+  patch: Partial<ShopSettings>
+): Promise<ShopSettings> {
+  return mutateFile<StoredSettings, ShopSettings>("settings", {}, (stored) => {
+    const next = withDefaults({
+      ...withDefaults(stored),
+      ...patch,
+    });
+    return { next, result: next };
+  });
+}
+
+export function toSettingsResponse(settings: ShopSettings): SettingsResponse {
+  return {
+    ...settings,
+    logoUrl: settings.logo
+      ? `/api/settings/logo?v=${encodeURIComponent(settings.logo.updatedAt)}`
+      : "",
+  };
+}
+
+function str(value: unknown, fallback: string): string {
+  return typeof value === "string" ? value : fallback;
+}
+
+function num(
+  value: unknown,
+  fallback: number,
+  { min = 0, max = Infinity }: { min?: number; max?: number } = {}
+): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= min && n <= max ? n : fallback;
+}
+
+function parseFeeSettings(
+  raw: Record<string, unknown>,
+  current: FeeSettings
+): FeeSettings {
+  const supplies = (raw.shopSupplies ?? {}) as Record<string, unknown>;
+  const taxRates = (raw.taxRates ?? {}) as Record<string, unknown>;
+  const flatFees: FlatFee[] = [];
+
+  for (const item of Array.isArray(raw.flatFees) ? raw.flatFees : []) {
+    if (!item || typeof item !== "object") continue;
+    const f = item as Record<string, unknown>;
+    const name = str(f.name, "").trim();
+    const code = str(f.code, "") || codeFromName(name);
+    if (!name || !code || flatFees.some((existing) => existing.code === code)) {
+      continue;
+    }
+    flatFees.push({
+      code,
+      name,
+      amount: num(f.amount, 0),
+      taxable: f.taxable === true,
+      autoApply: f.autoApply === true,
+    });
+  }
+
+  return {
+    shopSupplies: {
+      percentOfLabor: num(
+        supplies.percentOfLabor,
+        current.shopSupplies.percentOfLabor,
+        { max: 100 }
+      ),
+      cap:
+        supplies.cap === null || supplies.cap === ""
+          ? null
+          : num(supplies.cap, current.shopSupplies.cap ?? 0),
+      taxable:
+        typeof supplies.taxable === "boolean"
+          ? supplies.taxable
+          : current.shopSupplies.taxable,
+    },
+    flatFees: Array.isArray(raw.flatFees) ? flatFees : current.flatFees,
+    taxRates: {
+      parts: num(taxRates.parts, current.taxRates.parts, { max: 100 }),
+      labor: num(taxRates.labor, current.taxRates.labor, { max: 100 }),
+    },
+  };
+}
+
+function parseMessageTemplates(
+  raw: Record<string, unknown>,
+  current: MessageTemplates
+): MessageTemplates {
+  return {
+    emailSubject: str(raw.emailSubject, current.emailSubject),
+    emailBody: str(raw.emailBody, current.emailBody),
+    sms: str(raw.sms, current.sms),
+  };
+}
+
+// A blank account name keeps the current one; every line needs an account.
+function parseGlAccounts(
+  raw: Record<string, unknown>,
+  current: GlAccounts
+): GlAccounts {
+  const account = (key: keyof GlAccounts) =>
+    str(raw[key], "").trim() || current[key];
+  return {
+    receivable: account("receivable"),
+    labor: account("labor"),
+    parts: account("parts"),
+    coreCharges: account("coreCharges"),
+    shopSupplies: account("shopSupplies"),
+    fees: account("fees"),
+    salesTax: account("salesTax"),
+  };
+}
+
+/**
+ * Pick the editable fields out of a PUT body. Invalid numbers keep the
+ * current value; the logo is managed through its own upload route. Rates,
+ * margins and markups share the quote schema's bounds, so the defaults
+ * always make a quote that saves.
+ */
+export function parseSettingsInput(
+  body: Record<string, unknown>,
+  current: ShopSettings
+): Partial<ShopSettings> {
+  const numbering = (body.quoteNumbering ?? {}) as Record<string, unknown>;
+
+  return {
+    shopName: str(body.shopName, current.shopName),
+    address: str(body.address, current.address),
+    phone: str(body.phone, current.phone),
+    email: str(body.email, current.email),
+    defaultLaborRate: num(
+      body.defaultLaborRate,
+      current.defaultLaborRate,
+      QUOTE_LIMITS.laborRate
+    ),
+    laborRateClasses: Array.isArray(body.laborRateClasses)
+      ? parseRateClasses(body.laborRateClasses)
+      : current.laborRateClasses,
+    partsMarkupMatrix: Array.isArray(body.partsMarkupMatrix)
+      ? parseMarkupMatrix(body.partsMarkupMatrix)
+      : current.partsMarkupMatrix,
+    defaultMarginPercent: num(
+      body.defaultMarginPercent,
+      current.defaultMarginPercent,
+      QUOTE_LIMITS.marginPercent
+    ),
+    minimumMarginPercent: num(
+      body.minimumMarginPercent,
+      current.minimumMarginPercent,
+      QUOTE_LIMITS.marginPercent
+    ),
+    defaultTerms: str(body.defaultTerms, current.defaultTerms),
+    currency: isCurrency(body.currency) ? body.currency : current.currency,
+    locale: isLocale(body.locale) ? body.locale : current.locale,
+    quoteValidityDays: Math.round(
+      num(body.quoteValidityDays, current.quoteValidityDays, {
+        min: 1,
+        max: 365,
+      })
+    ),
+    fees:
+      body.fees && typeof body.fees === "object"
+        ? parseFeeSettings(body.fees as Record<string, unknown>, current.fees)
+        : current.fees,
+    messageTemplates:
+      body.messageTemplates && typeof body.messageTemplates === "object"
+        ? parseMessageTemplates(
+            body.messageTemplates as Record<string, unknown>,
+            current.messageTemplates
+          )
+        : current.messageTemplates,
+    glAccounts:
+      body.glAccounts && typeof body.glAccounts === "object"
+        ? parseGlAccounts(
+            body.glAccounts as Record<string, unknown>,
+            current.glAccounts
+          )
+        : current.glAccounts,
+    quoteNumbering: {
+      prefix: str(numbering.prefix, current.quoteNumbering.prefix),
+      includeYear:
+        typeof numbering.includeYear === "boolean"
+          ? numbering.includeYear
+          : current.quoteNumbering.includeYear,
+      padding: Math.round(
+        num(numbering.padding, current.quoteNumbering.padding, { max: 10 })
+      ),
+      startAt: Math.round(
+        num(numbering.startAt, current.quoteNumbering.startAt, { min: 1 })
+      ),
+    },
+  };
+}
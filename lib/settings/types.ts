@@ -0,0 +1,107 @@
+import type { CurrencyCode, LocaleCode } from "@/lib/i18n/locales";
+
+export type QuoteNumbering = {
+  prefix: string;
+  includeYear: boolean;
+  padding: number;
+  startAt: number;
+};
+
+/**
+ * A named labor rate (diagnostic, road call, ...). A null rate means the
+ * quote's base labor rate.
+ */
+export type LaborRateClass = {
+  code: string;
+  name: string;
+  rate: number | null;
+};
+
+/**
+ * One row of the parts markup matrix: parts whose unit cost is at most
+ * `upTo` get `markupPercent`. The last tier has no ceiling.
+ */
+export type MarkupTier = {
+  upTo: number | null;
+  markupPercent: number;
+};
+
+export type FlatFee = {
+  code: string;
+  name: string;
+  amount: number;
+  taxable: boolean;
+  /** Added to new quotes automatically; can be toggled per quote. */
+  autoApply: boolean;
+};
+
+export type FeeSettings = {
+  shopSupplies: {
+    percentOfLabor: number;
+    /** Maximum shop supplies charge in dollars; null for no cap. */
+    cap: number | null;
+    taxable: boolean;
+  };
+  flatFees: FlatFee[];
+  /** Sales tax percentages. */
+  taxRates: {
+    parts: number;
+    labor: number;
+  };
+};
+
+/**
+ * Messages for the "Send quote" action. {shopName}, {quoteNumber},
+ * {customerName}, {vehicle}, {total} and {approvalLink} are filled in.
+ */
+export type MessageTemplates = {
+  emailSubject: string;
+  emailBody: string;
+  sms: string;
+};
+
+/**
+ * Chart-of-accounts names the accounting export posts each part of an
+ * invoice to. They must match the accounts in the shop's books.
+ */
+export type GlAccounts = {
+  receivable: string;
+  labor: string;
+  parts: string;
+  coreCharges: string;
+  shopSupplies: string;
+  fees: string;
+  salesTax: string;
+};
+
+export type ShopLogo = {
+  contentType: string;
+  updatedAt: string;
+};
+
+export type ShopSettings = {
+  shopName: string;
+  address: string;
+  phone: string;
+  email: string;
+  logo: ShopLogo | null;
+  defaultLaborRate: number;
+  laborRateClasses: LaborRateClass[];
+  partsMarkupMatrix: MarkupTier[];
+  defaultMarginPercent: number;
+  /** Service writers need a manager to quote below this. */
+  minimumMarginPercent: number;
+  defaultTerms: string;
+  /** What new quotes are written in; each quote can override both. */
+  currency: CurrencyCode;
+  locale: LocaleCode;
+  /** Days a sent quote stays open before it expires. */
+  quoteValidityDays: number;
+  fees: FeeSettings;
+  messageTemplates: MessageTemplates;
+  glAccounts: GlAccounts;
+  quoteNumbering: QuoteNumbering;
+};
+
+/** GET /api/settings – settings plus a browser URL for the logo. */
+export type SettingsResponse = ShopSettings & { logoUrl: string };
@@ -0,0 +1,127 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+// File-backed storage so VINQuoter runs on a single shop PC with no database.
+// Each collection is one JSON file under VINQUOTER_DATA_DIR (default ./.data).
+// Writes are serialized per file and go through a temp file + rename so a
+// crash mid-write can't leave a half-written collection behind.
+
+export type Collection<T extends { id: string }> = {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  insert(item: T): Promise<T>;
+  update(id: string, updater: (current: T) => T): Promise<T | null>;
+  remove(id: string): Promise<boolean>;
+};
+
+export function dataDir(): string {
+  return process.env.VINQUOTER_DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw e;
+  }
+}
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(value, null, 2), "utf8");
+  await rename(tmp, file);
+}
+
+/**
+ * Run a read-modify-write against one file, queued behind any other
+ * mutation of the same file.
+ */
+export function mutateFile<T, R>(
+  name: string,
+  fallback: T,
+  fn: (current: T) => { next: T; result: R } | Promise<{ next: T; result: R }>
+): Promise<R> {
+  const file = path.join(dataDir(), `${name}.json`);
+  const previous = writeQueues.get(file) ?? Promise.resolve();
+
+  const run = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readJson(file, fallback);
+      const { next, result } = await fn(current);
+      if (next !== current) {
+        await writeJson(file, next);
+      }
+      return result;
+    });
+
+  writeQueues.set(file, run);
+  return run;
+}
+
+export function readFileValue<T>(name: string, fallback: T): Promise<T> {
+  return readJson(path.join(dataDir(), `${name}.json`), fallback);
+}
+
+export function createCollection<T extends { id: string }>(
+  name: string
+): Collection<T> {
+  return {
+    list() {
+      return readFileValue<T[]>(name, []);
+    },
+
+    async get(id) {
+      const items = await readFileValue<T[]>(name, []);
+      return items.find((item) => item.id === id) ?? null;
+    },
+
+    insert(item) {
+      return mutateFile<T[], T>(name, [], (items) => ({
+        next: [...items, item],
+        result: item,
+      }));
+    },
+
+    update(id, updater) {
+      return mutateFile<T[], T | null>(name, [], (items) => {
+        const index = items.findIndex((item) => item.id === id);
+        if (index === -1) return { next: items, result: null };
+
+        const updated = { ...updater(items[index]), id };
+        const next = [...items];
+        next[index] = updated;
+        return { next, result: updated };
+      });
+    },
+
+    remove(id) {
+      return mutateFile<T[], boolean>(name, [], (items) => {
+        const next = items.filter((item) => item.id !== id);
+        return {
+          next: next.length === items.length ? items : next,
+          result: next.length !== items.length,
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Atomically increment and return a named counter (e.g. quote numbers).
+ * `min` is a floor, so raising it later makes the counter jump forward.
+ */
+export function nextSequence(name: string, min = 1): Promise<number> {
+  return mutateFile<Record<string, number>, number>(
+    "sequences",
+    {},
+    (counters) => {
+      const value = Math.max((counters[name] ?? 0) + 1, min);
+      return { next: { ...counters, [name]: value }, result: value };
+    }
+  );
+}
@@ -0,0 +1,49 @@
+import { mutateFile, readFileValue } from "@/lib/store/json-store";
+import type { VinLookup, VinProviderName } from "./provider";
+
+// Provider answers keyed by VIN, so re-quoting a truck doesn't go back out
+// to the network.
+
+type CachedLookup = {
+  vin: string;
+  provider: VinProviderName;
+  lookup: VinLookup;
+  fetchedAt: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function getCachedLookup(
+  vin: string,
+  provider: VinProviderName,
+  maxAgeDays: number,
+  now = new Date()
+): Promise<VinLookup | null> {
+  const entries = await readFileValue<CachedLookup[]>("vin-cache", []);
+  const hit = entries.find((e) => e.vin === vin && e.provider === provider);
+  if (!hit) return null;
+
+  const age = now.getTime() - new Date(hit.fetchedAt).getTime();
+  return age <= maxAgeDays * DAY_MS ? hit.lookup : null;
+}
+
+export function cacheLookup(
+  vin: string,
+  provider: VinProviderName,
+  lookup: VinLookup
+): Promise<void> {
+  const entry: CachedLookup = {
+    vin,
+    provider,
+    lookup,
+    fetchedAt: new Date().toISOString(),
+  };
+
+  return mutateFile<CachedLookup[], void>("vin-cache", [], (entries) => ({
+    next: [
+      ...entries.filter((e) => !(e.vin === vin && e.provider === provider)),
+      entry,
+    ],
+    result: undefined,
+  }));
+}
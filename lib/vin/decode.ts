@@ -0,0 +1,220 @@
+// Offline VIN validation + decoding (ISO 3779 / 49 CFR 565).
+// Works without a network connection; NHTSA is only used to enrich the result.
+
+export type VinErrorCode = "VIN_LENGTH" | "VIN_ILLEGAL_CHARS" | "VIN_CHECK_DIGIT";
+
+export type VinError = {
+  code: VinErrorCode;
+  message: string;
+};
+
+export type DecodedVin = {
+  vin: string;
+  wmi: string;
+  vds: string;
+  vis: string;
+  manufacturer: string | null;
+  make: string | null;
+  country: string | null;
+  modelYear: number | null;
+  plantCode: string;
+  plant: string | null;
+  serialNumber: string;
+  checkDigit: string;
+};
+
+export type VinDecodeResult =
+  | { valid: true; decoded: DecodedVin; errors: [] }
+  | { valid: false; decoded: null; errors: VinError[] };
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 cycles every 30 years. I, O, Q, U, Z and 0 are never used.
+const YEAR_CODES = "ABCDEFGHJKLMNPRSTVWXY123456789";
+
+type WmiEntry = {
+  manufacturer: string;
+  make: string;
+  plants?: Record<string, string>;
+};
+
+// Heavy-duty and medium-duty truck manufacturers we see in the shop.
+const WMI_TABLE: Record<string, WmiEntry> = {
+  "1FU": { manufacturer: "Freightliner LLC", make: "Freightliner" },
+  "1FV": { manufacturer: "Freightliner LLC", make: "Freightliner" },
+  "3AK": {
+    manufacturer: "Freightliner LLC",
+    make: "Freightliner",
+    plants: { S: "Santiago, Mexico" },
+  },
+  "3AL": { manufacturer: "Freightliner LLC", make: "Freightliner" },
+  "1XK": {
+    manufacturer: "PACCAR Inc",
+    make: "Kenworth",
+    plants: { J: "Chillicothe, OH", R: "Renton, WA", S: "Ste-Therese, QC" },
+  },
+  "1NK": { manufacturer: "PACCAR Inc", make: "Kenworth" },
+  "2XK": { manufacturer: "PACCAR Inc", make: "Kenworth" },
+  "1XP": {
+    manufacturer: "PACCAR Inc",
+    make: "Peterbilt",
+    plants: { D: "Denton, TX", N: "Madison, TN" },
+  },
+  "1NP": { manufacturer: "PACCAR Inc", make: "Peterbilt" },
+  "2NP": { manufacturer: "PACCAR Inc", make: "Peterbilt" },
+  "1HT": {
+    manufacturer: "Navistar International",
+    make: "International",
+    plants: { H: "Springfield, OH", J: "Springfield, OH" },
+  },
+  "1HS": { manufacturer: "Navistar International", make: "International" },
+  "3HS": {
+    manufacturer: "Navistar International",
+    make: "International",
+    plants: { L: "Escobedo, Mexico" },
+  },
+  "3HA": { manufacturer: "Navistar International", make: "International" },
+  "4V4": {
+    manufacturer: "Volvo Trucks North America",
+    make: "Volvo",
+    plants: { N: "Dublin, VA" },
+  },
+  "4V5": { manufacturer: "Volvo Trucks North America", make: "Volvo" },
+  "1M1": {
+    manufacturer: "Mack Trucks Inc",
+    make: "Mack",
+    plants: { M: "Macungie, PA" },
+  },
+  "1M2": { manufacturer: "Mack Trucks Inc", make: "Mack" },
+  "5KJ": { manufacturer: "Western Star Trucks", make: "Western Star" },
+  "2WK": { manufacturer: "Western Star Trucks", make: "Western Star" },
+  "5PV": { manufacturer: "Hino Motors", make: "Hino" },
+  "JHB": { manufacturer: "Hino Motors", make: "Hino" },
+  "JAL": { manufacturer: "Isuzu Motors", make: "Isuzu" },
+  "54D": { manufacturer: "Isuzu Motors", make: "Isuzu" },
+  "1FT": { manufacturer: "Ford Motor Company", make: "Ford" },
+  "1FD": { manufacturer: "Ford Motor Company", make: "Ford" },
+  "3FR": { manufacturer: "Ford Motor Company", make: "Ford" },
+  "1GC": { manufacturer: "General Motors", make: "Chevrolet" },
+  "1GB": { manufacturer: "General Motors", make: "Chevrolet" },
+  "1GD": { manufacturer: "General Motors", make: "GMC" },
+  "3C7": { manufacturer: "FCA US LLC", make: "Ram" },
+  "4UZ": { manufacturer: "Freightliner Custom Chassis", make: "Freightliner" },
+};
+
+const COUNTRY_BY_PREFIX: Record<string, string> = {
+  "1": "United States",
+  "4": "United States",
+  "5": "United States",
+  "2": "Canada",
+  "3": "Mexico",
+  J: "Japan",
+  K: "South Korea",
+  S: "United Kingdom",
+  V: "France",
+  W: "Germany",
+  Y: "Sweden",
+};
+
+export function normalizeVin(raw: string): string {
+  return raw.replace(/[\s-]/g, "").toUpperCase();
+}
+
+export function computeCheckDigit(vin: string): string {
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    const ch = vin[i];
+    const value = /\d/.test(ch) ? Number(ch) : TRANSLITERATION[ch] ?? 0;
+    sum += value * WEIGHTS[i];
+  }
+  const remainder = sum % 11;
+  return remainder === 10 ? "X" : String(remainder);
+}
+
+export function validateVin(raw: string): VinError[] {
+  const vin = normalizeVin(raw);
+  const errors: VinError[] = [];
+
+  if (vin.length !== 17) {
+    errors.push({
+      code: "VIN_LENGTH",
+      message: `VIN must be 17 characters (got ${vin.length}).`,
+    });
+  }
+
+  const illegal = Array.from(new Set(vin.match(/[^A-HJ-NPR-Z0-9]/g) ?? []));
+  if (illegal.length) {
+    errors.push({
+      code: "VIN_ILLEGAL_CHARS",
+      message: `VIN contains invalid characters: ${illegal.join(", ")}. (I, O and Q are never used.)`,
+    });
+  }
+
+  if (!errors.length) {
+    const expected = computeCheckDigit(vin);
+    if (vin[8] !== expected) {
+      errors.push({
+        code: "VIN_CHECK_DIGIT",
+        message: `VIN check digit (position 9) is "${vin[8]}" but should be "${expected}". Double-check for a typo.`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Resolve the position-10 year code to the most recent matching model year
+ * that isn't more than one year in the future.
+ */
+export function decodeModelYear(
+  code: string,
+  now: Date = new Date()
+): number | null {
+  const index = YEAR_CODES.indexOf(code);
+  if (index === -1) return null;
+
+  const latestAllowed = now.getFullYear() + 1;
+  let year = 1980 + index;
+  while (year + 30 <= latestAllowed) {
+    year += 30;
+  }
+  return year;
+}
+
+export function decodeVin(raw: string, now: Date = new Date()): VinDecodeResult {
+  const vin = normalizeVin(raw);
+  const errors = validateVin(vin);
+  if (errors.length) {
+    return { valid: false, decoded: null, errors };
+  }
+
+  const wmi = vin.slice(0, 3);
+  const entry = WMI_TABLE[wmi];
+  const plantCode = vin[10];
+
+  return {
+    valid: true,
+    errors: [],
+    decoded: {
+      vin,
+      wmi,
+      vds: vin.slice(3, 9),
+      vis: vin.slice(9),
+      manufacturer: entry?.manufacturer ?? null,
+      make: entry?.make ?? null,
+      country: COUNTRY_BY_PREFIX[vin[0]] ?? null,
+      modelYear: decodeModelYear(vin[9], now),
+      plantCode,
+      plant: entry?.plants?.[plantCode] ?? null,
+      serialNumber: vin.slice(11),
+      checkDigit: vin[8],
+    },
+  };
+}
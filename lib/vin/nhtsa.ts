@@ -0,0 +1,48 @@
+import type { VinLookup, VinProvider } from "./provider";
+
+// Online enrichment from the NHTSA vPIC API.
+
+type VpicRow = {
+  ModelYear?: string;
+  Make?: string;
+  Model?: string;
+  EngineModel?: string;
+  EngineConfiguration?: string;
+  EngineCylinders?: string;
+};
+
+async function fetchNhtsaVehicle(
+  vin: string,
+  signal: AbortSignal
+): Promise<VinLookup | null> {
+  const res = await fetch(
+    `https://vpic.nhtsa.dot.gov/api/vehicles/DecodeVinValuesExtended/${encodeURIComponent(
+      vin
+    )}?format=json`,
+    // Lookups are cached by VIN in our own store (see cache.ts).
+    { cache: "no-store", signal }
+  );
+
+  // Server trouble is worth a retry; anything else means "not known".
+  if (res.status >= 500) throw new Error(`vPIC responded ${res.status}`);
+  if (!res.ok) return null;
+
+  const json = (await res.json()) as { Results?: VpicRow[] };
+  const row = json?.Results?.[0];
+  if (!row) return null;
+
+  const year = Number(row.ModelYear);
+
+  return {
+    modelYear: Number.isFinite(year) && year > 0 ? year : null,
+    make: row.Make || null,
+    model: row.Model || null,
+    engine:
+      row.EngineModel || row.EngineConfiguration || row.EngineCylinders || null,
+  };
+}
+
+export const nhtsaProvider: VinProvider = {
+  name: "nhtsa",
+  lookup: fetchNhtsaVehicle,
+};
@@ -0,0 +1,38 @@
+import type { DecodedVin } from "./decode";
+import type { DecodeStatus, Vehicle } from "./vehicle";
+
+// The vehicle record from the offline decode alone. Client-safe, so the
+// editor can still start a quote when the server can't be reached.
+
+export function describeVehicle(v: {
+  vin: string;
+  modelYear: number | null;
+  make: string | null;
+  model: string | null;
+  engine: string | null;
+}): string {
+  const pieces = [v.modelYear, v.make, v.model].filter(Boolean).join(" ");
+  if (!pieces) return `Unknown vehicle (WMI ${v.vin.slice(0, 3)})`;
+  return v.engine ? `${pieces} (${v.engine})` : pieces;
+}
+
+export function offlineVehicle(
+  decoded: DecodedVin,
+  decodeStatus: DecodeStatus = "partial"
+): Vehicle {
+  const vehicle: Vehicle = {
+    vin: decoded.vin,
+    modelYear: decoded.modelYear,
+    make: decoded.make,
+    model: null,
+    engine: null,
+    manufacturer: decoded.manufacturer,
+    country: decoded.country,
+    plant: decoded.plant,
+    description: "",
+    enriched: false,
+    decodeSource: "offline",
+    decodeStatus,
+  };
+  return { ...vehicle, description: describeVehicle(vehicle) };
+}
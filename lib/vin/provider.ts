@@ -0,0 +1,75 @@
+import { nhtsaProvider } from "./nhtsa";
+import { stubProvider } from "./stub";
+
+// Online VIN lookup, layered over the offline decoder. Configuration:
+//   VIN_PROVIDER           nhtsa (default), stub, or off
+//   VIN_LOOKUP_TIMEOUT_MS  per-attempt timeout (default 4000)
+//   VIN_LOOKUP_RETRIES     extra attempts after a failure (default 1)
+//   VIN_CACHE_DAYS         how long a lookup is reused (default 30, 0 = never)
+
+/** What a provider adds on top of the offline decode. */
+export type VinLookup = {
+  modelYear: number | null;
+  make: string | null;
+  model: string | null;
+  engine: string | null;
+};
+
+export type VinProviderName = "nhtsa" | "stub";
+
+export type VinProvider = {
+  name: VinProviderName;
+  /**
+   * Resolve to null when the provider doesn't know the VIN; throw (or
+   * reject on abort) when it couldn't be asked.
+   */
+  lookup(vin: string, signal: AbortSignal): Promise<VinLookup | null>;
+};
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const n = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isFinite(n) && n >= 0
+    ? n
+    : fallback;
+}
+
+export function vinLookupConfig() {
+  return {
+    timeoutMs: envNumber("VIN_LOOKUP_TIMEOUT_MS", 4000),
+    retries: Math.floor(envNumber("VIN_LOOKUP_RETRIES", 1)),
+    cacheDays: envNumber("VIN_CACHE_DAYS", 30),
+  };
+}
+
+export function activeVinProvider(): VinProvider | null {
+  // VIN_ENRICHMENT=off predates VIN_PROVIDER and still turns lookups off.
+  if (process.env.VIN_ENRICHMENT === "off") return null;
+
+  switch (process.env.VIN_PROVIDER || "nhtsa") {
+    case "off":
+      return null;
+    case "stub":
+      return stubProvider;
+    default:
+      return nhtsaProvider;
+  }
+}
+
+/** Ask the provider, with a timeout per attempt and retries on failure. */
+export async function lookupVin(
+  provider: VinProvider,
+  vin: string
+): Promise<VinLookup | null> {
+  const { timeoutMs, retries } = vinLookupConfig();
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    try {
+      return await provider.lookup(vin, AbortSignal.timeout(timeoutMs));
+    } catch (e) {
+      lastError = e;
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,34 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { VinLookup, VinProvider } from "./provider";
+
+// Canned lookups for tests and shops without internet access. Unknown VINs
+// come back as "not found", the same as from a real provider.
+
+export function createStubProvider(
+  vehicles: Record<string, VinLookup>
+): VinProvider {
+  return {
+    name: "stub",
+    async lookup(vin) {
+      return vehicles[vin] ?? null;
+    },
+  };
+}
+
+const STUB_FILE = path.join(process.cwd(), "data", "vin", "stub-vehicles.json");
+
+let fixtures: Promise<VinProvider> | null = null;
+
+/** The stub used with VIN_PROVIDER=stub, backed by data/vin. */
+export const stubProvider: VinProvider = {
+  name: "stub",
+  async lookup(vin, signal) {
+    if (!fixtures) {
+      fixtures = readFile(STUB_FILE, "utf8").then((text) =>
+        createStubProvider(JSON.parse(text))
+      );
+    }
+    return (await fixtures).lookup(vin, signal);
+  },
+};
@@ -0,0 +1,88 @@
+import { cacheLookup, getCachedLookup } from "./cache";
+import type { DecodedVin } from "./decode";
+import { describeVehicle, offlineVehicle } from "./offline";
+import {
+  activeVinProvider,
+  lookupVin,
+  vinLookupConfig,
+  type VinLookup,
+  type VinProvider,
+  type VinProviderName,
+} from "./provider";
+
+/** Where the make/model came from: a provider, our cache, or offline only. */
+export type DecodeSource = VinProviderName | "cache" | "offline";
+
+/**
+ * decoded: model/engine came from a provider (or its cached answer).
+ * partial: offline decode only – lookups are off or the VIN wasn't known.
+ * failed: the provider errored or timed out, so only the offline decode.
+ */
+export type DecodeStatus = "decoded" | "partial" | "failed";
+
+export type Vehicle = {
+  vin: string;
+  modelYear: number | null;
+  make: string | null;
+  model: string | null;
+  engine: string | null;
+  manufacturer: string | null;
+  country: string | null;
+  plant: string | null;
+  description: string;
+  enriched: boolean;
+  decodeSource: DecodeSource;
+  decodeStatus: DecodeStatus;
+};
+
+/**
+ * Build the vehicle record from the offline decode, layering the provider's
+ * answer on top when lookups are on. Never throws for network problems.
+ */
+export async function resolveVehicle(
+  decoded: DecodedVin,
+  provider: VinProvider | null = activeVinProvider()
+): Promise<Vehicle> {
+  const vehicle = offlineVehicle(decoded);
+
+  if (provider) {
+    const { cacheDays } = vinLookupConfig();
+    let lookup: VinLookup | null = null;
+    let source: DecodeSource = provider.name;
+
+    try {
+      const cached =
+        cacheDays > 0
+          ? await getCachedLookup(decoded.vin, provider.name, cacheDays)
+          : null;
+      if (cached) {
+        lookup = cached;
+        source = "cache";
+      } else {
+        lookup = await lookupVin(provider, decoded.vin);
+        if (lookup && cacheDays > 0) {
+          await cacheLookup(decoded.vin, provider.name, lookup).catch((e) =>
+            console.error("Could not cache VIN lookup:", e)
+          );
+        }
+      }
+    } catch (e) {
+      // Offline or the provider is down – the local decode is still good.
+      console.error(`VIN lookup via ${provider.name} failed:`, e);
+      vehicle.decodeStatus = "failed";
+    }
+
+    if (lookup && (lookup.make || lookup.model)) {
+      vehicle.modelYear = lookup.modelYear ?? vehicle.modelYear;
+      vehicle.make = lookup.make ?? vehicle.make;
+      vehicle.model = lookup.model;
+      vehicle.engine = lookup.engine;
+      vehicle.enriched = true;
+      vehicle.decodeSource = source;
+      vehicle.decodeStatus = "decoded";
+    }
+  }
+
+  vehicle.description = describeVehicle(vehicle);
+  return vehicle;
+}
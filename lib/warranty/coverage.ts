@@ -0,0 +1,99 @@
+import type {
+  Campaign,
+  LineCoverage,
+  WarrantyCoverage,
+  WarrantyRecord,
+} from "./types";
+
+// Which coverages still apply, and to which lines. No fs here: the editor
+// re-checks as the odometer is typed in.
+
+/**
+ * "unverified" means the limit can't be checked – no in-service date on
+ * file, or no odometer on the quote – so the line may still be covered.
+ */
+export type CoverageState = "active" | "expired" | "unverified";
+
+export type CoverageStatus = WarrantyCoverage & {
+  state: CoverageState;
+  /** Last day of coverage by date; null without an in-service date. */
+  expiresOn: string | null;
+  /** Miles left at the quoted odometer; null when unknown or unlimited. */
+  milesLeft: number | null;
+};
+
+export function matchesOperation(
+  patterns: string[],
+  operationCode: string | undefined
+): boolean {
+  if (!operationCode) return false;
+  return patterns.some((p) =>
+    p.endsWith("*")
+      ? operationCode.startsWith(p.slice(0, -1))
+      : p === operationCode
+  );
+}
+
+function addMonths(isoDay: string, months: number): string {
+  const [year, month, day] = isoDay.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1 + months, day - 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function coverageStatus(
+  record: WarrantyRecord,
+  coverage: WarrantyCoverage,
+  odometer: number | null,
+  today = new Date()
+): CoverageStatus {
+  const expiresOn = record.inServiceDate
+    ? addMonths(record.inServiceDate, coverage.months)
+    : null;
+  const milesLeft =
+    coverage.miles !== null && odometer !== null
+      ? coverage.miles - odometer
+      : null;
+
+  const expired =
+    (expiresOn !== null && today.toISOString().slice(0, 10) > expiresOn) ||
+    (milesLeft !== null && milesLeft < 0);
+  const unverified =
+    expiresOn === null || (coverage.miles !== null && odometer === null);
+
+  return {
+    ...coverage,
+    state: expired ? "expired" : unverified ? "unverified" : "active",
+    expiresOn,
+    milesLeft,
+  };
+}
+
+export function openCampaigns(record: WarrantyRecord): Campaign[] {
+  return record.campaigns.filter((c) => c.status === "open");
+}
+
+/**
+ * What may pay for a line: open recalls and campaigns first, then
+ * warranties not known to have run out.
+ */
+export function coverageFor(
+  record: WarrantyRecord,
+  operationCode: string | undefined,
+  odometer: number | null,
+  today = new Date()
+): LineCoverage[] {
+  const campaigns = openCampaigns(record)
+    .filter((c) => matchesOperation(c.operationCodes, operationCode))
+    .map((c) => ({ type: c.type, reference: c.id, name: c.title }));
+  const warranties = record.coverages
+    .filter((c) => matchesOperation(c.operationCodes, operationCode))
+    .map((c) => coverageStatus(record, c, odometer, today))
+    .filter((c) => c.state !== "expired")
+    .map((c) => ({
+      type: "warranty" as const,
+      reference: c.code,
+      name: c.name,
+    }));
+  return [...campaigns, ...warranties];
+}
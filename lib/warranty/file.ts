@@ -0,0 +1,46 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { WarrantyProvider } from "./provider";
+import type { WarrantyRecord } from "./types";
+
+// Warranty records kept as a local file, for shops that load them from the
+// OEM portal themselves (and for tests, through createWarrantyProvider).
+
+export type WarrantyFile = Record<string, Omit<WarrantyRecord, "vin">>;
+
+export function createWarrantyProvider(
+  records: WarrantyFile
+): WarrantyProvider {
+  return {
+    name: "file",
+    async lookup(vin) {
+      const record = records[vin];
+      return record ? { ...record, vin } : null;
+    },
+  };
+}
+
+const WARRANTY_FILE = path.join(
+  process.cwd(),
+  "data",
+  "warranty",
+  "vehicles.json"
+);
+
+let records: Promise<WarrantyProvider> | null = null;
+
+/** The provider used with WARRANTY_PROVIDER=file, backed by data/warranty. */
+export const fileWarrantyProvider: WarrantyProvider = {
+  name: "file",
+  async lookup(vin, signal) {
+    if (!records) {
+      records = readFile(WARRANTY_FILE, "utf8")
+        .then((text) => createWarrantyProvider(JSON.parse(text)))
+        .catch((e) => {
+          records = null;
+          throw e;
+        });
+    }
+    return (await records).lookup(vin, signal);
+  },
+};
@@ -0,0 +1,57 @@
+import { fileWarrantyProvider } from "./file";
+import type {
+  WarrantyLookup,
+  WarrantyProviderName,
+  WarrantyRecord,
+} from "./types";
+
+// Warranty and recall lookup by VIN. Configuration:
+//   WARRANTY_PROVIDER            file (default) or off
+//   WARRANTY_LOOKUP_TIMEOUT_MS   timeout for one lookup (default 4000)
+
+export type WarrantyProvider = {
+  name: WarrantyProviderName;
+  /**
+   * Resolve to null when there's nothing on file for the VIN; throw (or
+   * reject on abort) when the provider couldn't be asked.
+   */
+  lookup(vin: string, signal: AbortSignal): Promise<WarrantyRecord | null>;
+};
+
+function timeoutMs(): number {
+  const raw = process.env.WARRANTY_LOOKUP_TIMEOUT_MS;
+  const n = Number(raw);
+  return raw && Number.isFinite(n) && n > 0 ? n : 4000;
+}
+
+export function activeWarrantyProvider(): WarrantyProvider | null {
+  switch (process.env.WARRANTY_PROVIDER || "file") {
+    case "off":
+      return null;
+    default:
+      return fileWarrantyProvider;
+  }
+}
+
+/**
+ * Never throws: a warranty check that can't be made shouldn't stop the
+ * quote, so failures come back as "unavailable".
+ */
+export async function lookupWarranty(
+  vin: string,
+  provider = activeWarrantyProvider()
+): Promise<WarrantyLookup> {
+  if (!provider) return { status: "off", provider: null, record: null };
+
+  try {
+    const record = await provider.lookup(vin, AbortSignal.timeout(timeoutMs()));
+    return {
+      status: record ? "found" : "not_found",
+      provider: provider.name,
+      record,
+    };
+  } catch (e) {
+    console.error(`Warranty lookup for ${vin} failed:`, e);
+    return { status: "unavailable", provider: provider.name, record: null };
+  }
+}
@@ -0,0 +1,49 @@
+/** Who pays for a no-charge line: the OEM's warranty or a campaign. */
+export type CoverageType = "warranty" | "recall" | "campaign";
+
+/** A base or extended warranty, counted from the in-service date. */
+export type WarrantyCoverage = {
+  code: string;
+  name: string;
+  months: number;
+  /** Null for coverage with no mileage limit. */
+  miles: number | null;
+  /** Catalog operation codes it pays for; "AT-*" matches by prefix. */
+  operationCodes: string[];
+};
+
+/** A safety recall or service campaign open against the VIN. */
+export type Campaign = {
+  id: string;
+  type: Exclude<CoverageType, "warranty">;
+  title: string;
+  description: string;
+  operationCodes: string[];
+  status: "open" | "completed";
+};
+
+export type WarrantyRecord = {
+  vin: string;
+  /** Start of the warranty clock; null when the OEM has none on file. */
+  inServiceDate: string | null;
+  coverages: WarrantyCoverage[];
+  campaigns: Campaign[];
+};
+
+export type WarrantyProviderName = "file";
+
+/** Response of GET /api/warranty/[vin]. */
+export type WarrantyLookup = {
+  /** "unavailable" when the provider couldn't be asked. */
+  status: "found" | "not_found" | "unavailable" | "off";
+  provider: WarrantyProviderName | null;
+  record: WarrantyRecord | null;
+};
+
+/** Marks a repair line as paid by warranty or a campaign: no charge. */
+export type LineCoverage = {
+  type: CoverageType;
+  /** Coverage code or campaign id. */
+  reference: string;
+  name: string;
+};
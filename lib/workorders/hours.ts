@@ -0,0 +1,45 @@
+import type {
+  TimeEntry,
+  WorkOrder,
+  WorkOrderLine,
+  WorkOrderStatus,
+} from "./types";
+
+// Actual-vs-quoted time, shared by the API and the work order screens.
+
+export const WORK_ORDER_STATUS_LABELS: Record<WorkOrderStatus, string> = {
+  open: "Open",
+  in_progress: "In Progress",
+  completed: "Completed",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Hours on one entry; a running clock counts up to `now`. */
+export function entryHours(entry: TimeEntry, now = new Date()): number {
+  const end = entry.clockOut ? new Date(entry.clockOut) : now;
+  return (
+    Math.max(0, end.getTime() - new Date(entry.clockIn).getTime()) / HOUR_MS
+  );
+}
+
+export function lineActualHours(line: WorkOrderLine, now = new Date()): number {
+  return line.time.reduce((sum, e) => sum + entryHours(e, now), 0);
+}
+
+/** Positive when the job ran over the quoted SRT hours. */
+export function lineVariance(line: WorkOrderLine, now = new Date()): number {
+  return lineActualHours(line, now) - line.srtHours;
+}
+
+export function workOrderHours(wo: WorkOrder, now = new Date()) {
+  return {
+    srtHours: wo.lines.reduce((sum, l) => sum + l.srtHours, 0),
+    actualHours: wo.lines.reduce((sum, l) => sum + lineActualHours(l, now), 0),
+  };
+}
+
+export function deriveStatus(lines: WorkOrderLine[]): WorkOrderStatus {
+  if (lines.length && lines.every((l) => l.done)) return "completed";
+  return lines.some((l) => l.time.length || l.done) ? "in_progress" : "open";
+}
@@ -0,0 +1,35 @@
+import type { WorkOrderUpdate } from "./types";
+
+// Coerce a JSON request body into a WorkOrderUpdate, keeping only the
+// fields the shop may change. Fields left out stay as they are.
+
+function optionalStr(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+type LineUpdate = NonNullable<WorkOrderUpdate["lines"]>[number];
+
+// The page sends one field at a time, so absent fields must stay absent
+// rather than become undefined and overwrite the saved value.
+function parseLineUpdate(raw: Record<string, unknown>): LineUpdate {
+  const line: LineUpdate = { id: raw.id as string };
+  const technician = optionalStr(raw.technician);
+  const techNotes = optionalStr(raw.techNotes);
+  if (technician !== undefined) line.technician = technician.trim();
+  if (typeof raw.done === "boolean") line.done = raw.done;
+  if (techNotes !== undefined) line.techNotes = techNotes;
+  return line;
+}
+
+export function parseWorkOrderUpdate(
+  body: Record<string, unknown>
+): WorkOrderUpdate {
+  const lines = (Array.isArray(body.lines) ? body.lines : [])
+    .filter(
+      (item): item is Record<string, unknown> =>
+        !!item && typeof item === "object" && typeof item.id === "string"
+    )
+    .map(parseLineUpdate);
+
+  return { techNotes: optionalStr(body.techNotes), lines };
+}
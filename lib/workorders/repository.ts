@@ -0,0 +1,238 @@
+import { randomUUID } from "crypto";
+import type { UserRef } from "@/lib/auth/types";
+import { getQuote, setQuoteStatus } from "@/lib/quotes/repository";
+import type { SavedQuote } from "@/lib/quotes/types";
+import {
+  createCollection,
+  mutateFile,
+  nextSequence,
+} from "@/lib/store/json-store";
+import { deriveStatus, workOrderHours } from "./hours";
+import type {
+  ClockAction,
+  WorkOrder,
+  WorkOrderLine,
+  WorkOrderSummary,
+  WorkOrderUpdate,
+} from "./types";
+
+const workOrders = createCollection<WorkOrder>("work-orders");
+
+export type WorkOrderChange = { workOrder: WorkOrder } | { error: string };
+
+export function toWorkOrderSummary(wo: WorkOrder): WorkOrderSummary {
+  const { srtHours, actualHours } = workOrderHours(wo);
+  return {
+    id: wo.id,
+    workOrderNumber: wo.workOrderNumber,
+    quoteId: wo.quoteId,
+    quoteNumber: wo.quoteNumber,
+    customerName: wo.customerName,
+    unitNumber: wo.unitNumber,
+    vin: wo.vin,
+    vehicle: wo.vehicle,
+    status: wo.status,
+    updatedAt: wo.updatedAt,
+    technicians: [
+      ...new Set(wo.lines.map((l) => l.technician).filter(Boolean)),
+    ],
+    srtHours,
+    actualHours,
+  };
+}
+
+/** Case-insensitive match on WO/quote number, customer, unit, VIN or tech. */
+export async function searchWorkOrders(query = ""): Promise<WorkOrder[]> {
+  const needle = query.trim().toLowerCase();
+  const all = await workOrders.list();
+
+  const matches = needle
+    ? all.filter((wo) =>
+        [
+          wo.workOrderNumber,
+          wo.quoteNumber,
+          wo.customerName,
+          wo.unitNumber,
+          wo.vin,
+          // Older updates could save a line without its technician.
+          ...wo.lines.map((l) => l.technician ?? ""),
+        ].some((field) => field.toLowerCase().includes(needle))
+      )
+    : all;
+
+  return matches.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getWorkOrder(id: string): Promise<WorkOrder | null> {
+  return workOrders.get(id);
+}
+
+export async function findWorkOrderForQuote(
+  quoteId: string
+): Promise<WorkOrder | null> {
+  const all = await workOrders.list();
+  return all.find((wo) => wo.quoteId === quoteId) ?? null;
+}
+
+/** The lines the customer said yes to (all of them for a shop approval). */
+function approvedLines(quote: SavedQuote): WorkOrderLine[] {
+  const decisions = quote.approval?.decisions;
+  return quote.repairs
+    .filter((_, i) => !decisions || decisions[i] === "approved")
+    .map((r) => ({
+      id: randomUUID(),
+      operationCode: r.operationCode,
+      operation: r.operation,
+      srtHours: r.srtHours,
+      technician: "",
+      done: false,
+      techNotes: "",
+      time: [],
+    }));
+}
+
+/**
+ * Turn an approved quote into a work order. The quote moves to "converted"
+ * first, so converting twice fails instead of opening a second work order.
+ */
+export async function createWorkOrder(
+  quoteId: string,
+  by: UserRef | null = null
+): Promise<WorkOrderChange | null> {
+  const quote = await getQuote(quoteId);
+  if (!quote) return null;
+  if (quote.status !== "approved") {
+    return { error: "Only approved quotes can become work orders." };
+  }
+
+  const lines = approvedLines(quote);
+  if (!lines.length) {
+    return { error: "The customer didn't approve any lines on this quote." };
+  }
+
+  const converted = await setQuoteStatus(quoteId, "converted", by);
+  if (!converted) return null;
+  if ("error" in converted) return converted;
+
+  const n = await nextSequence("workOrder");
+  const now = new Date().toISOString();
+  const workOrder = await workOrders.insert({
+    id: randomUUID(),
+    workOrderNumber: `WO-${String(n).padStart(5, "0")}`,
+    quoteId: quote.id,
+    quoteNumber: quote.quoteNumber,
+    customerName: quote.customerName,
+    unitNumber: quote.unitNumber,
+    vin: quote.vin,
+    vehicle: quote.vehicle,
+    status: "open",
+    techNotes: quote.notes,
+    lines,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+  });
+  return { workOrder };
+}
+
+function withStatus(wo: WorkOrder, now: string): WorkOrder {
+  const status = deriveStatus(wo.lines);
+  return {
+    ...wo,
+    status,
+    updatedAt: now,
+    completedAt: status === "completed" ? wo.completedAt ?? now : null,
+  };
+}
+
+export async function updateWorkOrder(
+  id: string,
+  update: WorkOrderUpdate
+): Promise<WorkOrder | null> {
+  const changes = new Map((update.lines ?? []).map((l) => [l.id, l]));
+  const now = new Date();
+
+  return workOrders.update(id, (current) => {
+    const lines = current.lines.map((line) => {
+      const change = changes.get(line.id);
+      if (!change) return line;
+
+      const next = {
+        ...line,
+        technician: change.technician ?? line.technician,
+        done: change.done ?? line.done,
+        techNotes: change.techNotes ?? line.techNotes,
+      };
+      // Finishing a line stops any clock still running on it.
+      if (next.done && !line.done) {
+        next.time = next.time.map((e) =>
+          e.clockOut ? e : { ...e, clockOut: now.toISOString() }
+        );
+      }
+      return next;
+    });
+
+    return withStatus(
+      { ...current, techNotes: update.techNotes ?? current.techNotes, lines },
+      now.toISOString()
+    );
+  });
+}
+
+/**
+ * Clock a technician in or out of one operation. A technician can only be
+ * on the clock for one operation at a time, across all work orders.
+ */
+export function clockTechnician(
+  id: string,
+  lineId: string,
+  action: ClockAction,
+  technician: string
+): Promise<WorkOrderChange | null> {
+  const now = new Date().toISOString();
+  const tech = technician.trim();
+
+  return mutateFile<WorkOrder[], WorkOrderChange | null>(
+    "work-orders",
+    [],
+    (items) => {
+      const index = items.findIndex((wo) => wo.id === id);
+      const current = items[index];
+      const line = current?.lines.find((l) => l.id === lineId);
+      if (!current || !line) return { next: items, result: null };
+
+      const fail = (error: string) => ({ next: items, result: { error } });
+      const isTech = (name: string) =>
+        name.toLowerCase() === tech.toLowerCase();
+
+      let time = line.time;
+      if (action === "in") {
+        if (line.done) return fail("This operation is already done.");
+        for (const wo of items) {
+          for (const l of wo.lines) {
+            if (l.time.some((e) => !e.clockOut && isTech(e.technician))) {
+              return fail(
+                `${tech} is still clocked in on ${wo.workOrderNumber} (${l.operation}).`
+              );
+            }
+          }
+        }
+        time = [...time, { technician: tech, clockIn: now, clockOut: null }];
+      } else {
+        const open = time.findIndex((e) => !e.clockOut && isTech(e.technician));
+        if (open === -1) {
+          return fail(`${tech} isn't clocked in on this operation.`);
+        }
+        time = time.map((e, i) => (i === open ? { ...e, clockOut: now } : e));
+      }
+
+      const lines = current.lines.map((l) =>
+        l.id === lineId ? { ...l, technician: l.technician || tech, time } : l
+      );
+      const workOrder = withStatus({ ...current, lines }, now);
+      const next = [...items];
+      next[index] = workOrder;
+      return { next, result: { workOrder } };
+    }
+  );
+}
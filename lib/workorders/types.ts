@@ -0,0 +1,71 @@
+/** One stretch of a technician's time on an operation. */
+export type TimeEntry = {
+  technician: string;
+  clockIn: string;
+  /** Null while the technician is still on the job. */
+  clockOut: string | null;
+};
+
+export type WorkOrderLine = {
+  id: string;
+  operationCode?: string;
+  operation: string;
+  /** Quoted hours, for comparing against the clocked time. */
+  srtHours: number;
+  technician: string;
+  done: boolean;
+  /** Shop-only; never printed on customer paperwork. */
+  techNotes: string;
+  time: TimeEntry[];
+};
+
+export type WorkOrderStatus = "open" | "in_progress" | "completed";
+
+export type WorkOrder = {
+  id: string;
+  workOrderNumber: string;
+  quoteId: string;
+  quoteNumber: string;
+  customerName: string;
+  unitNumber: string;
+  vin: string;
+  vehicle: string;
+  status: WorkOrderStatus;
+  /** Shop-only instructions, seeded from the quote's internal notes. */
+  techNotes: string;
+  lines: WorkOrderLine[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+};
+
+export type WorkOrderSummary = Pick<
+  WorkOrder,
+  | "id"
+  | "workOrderNumber"
+  | "quoteId"
+  | "quoteNumber"
+  | "customerName"
+  | "unitNumber"
+  | "vin"
+  | "vehicle"
+  | "status"
+  | "updatedAt"
+> & {
+  technicians: string[];
+  srtHours: number;
+  actualHours: number;
+};
+
+/** PUT /api/work-orders/[id] – assignments, completion and notes. */
+export type WorkOrderUpdate = {
+  techNotes?: string;
+  lines?: {
+    id: string;
+    technician?: string;
+    done?: boolean;
+    techNotes?: string;
+  }[];
+};
+
+export type ClockAction = "in" | "out";